@@ -0,0 +1,108 @@
+// src/ai/index.ts
+// Provider selection + the one JSON-generation loop every AI route goes through.
+//
+// Env:
+//   AI_PROVIDER            ollama | openai | mock (default per purpose: nl → ollama, rules → openai)
+//   AI_PROVIDER_NL / AI_PROVIDER_RULES   per-purpose override
+//   AI_TIMEOUT_MS          per attempt (default 25000)
+//   AI_MAX_ATTEMPTS        default 2
+//   OLLAMA_BASE_URL, OLLAMA_MODEL
+//   OPENAI_BASE_URL, OPENAI_MODEL, OPENAI_API_KEY
+// `AI_PROVIDER=mock` runs fully offline using the routes' deterministic fallbacks.
+
+import { ollamaProvider } from './ollama';
+import { openAIProvider } from './openai';
+import { mockProvider } from './mock';
+import { normalizeAndParse } from './json';
+import {
+  AIProvider,
+  AIPurpose,
+  FailureReason,
+  GenerateJsonRequest,
+  GenerateJsonResult,
+  ProviderError,
+  ProviderName,
+} from './types';
+
+export * from './types';
+export { normalizeAndParse } from './json';
+
+const DEFAULT_PROVIDER: Record<AIPurpose, ProviderName> = { nl: 'ollama', rules: 'openai' };
+const PROVIDERS: ProviderName[] = ['ollama', 'openai', 'mock'];
+
+const num = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export function providerNameFor(purpose: AIPurpose): ProviderName {
+  const env = process.env[`AI_PROVIDER_${purpose.toUpperCase()}`] || process.env.AI_PROVIDER;
+  const name = env?.trim().toLowerCase() as ProviderName | undefined;
+  return name && PROVIDERS.includes(name) ? name : DEFAULT_PROVIDER[purpose];
+}
+
+export function getProvider(purpose: AIPurpose): AIProvider {
+  switch (providerNameFor(purpose)) {
+    case 'mock':
+      return mockProvider();
+    case 'openai':
+      return openAIProvider(
+        (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, ''),
+        process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        process.env.OPENAI_API_KEY
+      );
+    default:
+      return ollamaProvider(
+        (process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434').replace(/\/$/, ''),
+        process.env.OLLAMA_MODEL || 'qwen2.5:0.5b-instruct'
+      );
+  }
+}
+
+/**
+ * Ask the provider for JSON matching `schema`.
+ * Each attempt gets its own timeout; bad JSON / schema mismatches and 5xx/429 are retried,
+ * an unreachable backend or a 4xx is not.
+ */
+export async function generateJson<T>(provider: AIProvider, req: GenerateJsonRequest<T>): Promise<GenerateJsonResult<T>> {
+  const maxAttempts = num(process.env.AI_MAX_ATTEMPTS, 2);
+  const timeoutMs = num(process.env.AI_TIMEOUT_MS, 25000);
+  const raw: unknown[] = [];
+  let failure: { reason: FailureReason; error?: string } = { reason: 'invalid_json' };
+  let attempts = 0;
+
+  while (attempts < maxAttempts) {
+    const prompt = req.prompts[Math.min(attempts, req.prompts.length - 1)];
+    attempts++;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const text = await provider.complete({
+        system: req.system,
+        prompt,
+        temperature: req.temperature,
+        signal: controller.signal,
+        stub: req.stub,
+      });
+      raw.push(text);
+
+      const parsed = normalizeAndParse(text);
+      if (parsed === null) {
+        failure = { reason: 'invalid_json' };
+        continue;
+      }
+      const checked = req.schema.safeParse(parsed);
+      if (checked.success) return { ok: true, data: checked.data, provider: provider.name, attempts };
+      failure = { reason: 'schema_mismatch', error: checked.error.message };
+    } catch (e) {
+      if (!(e instanceof ProviderError)) throw e;
+      failure = { reason: e.reason, error: e.message };
+      if (e.reason === 'unavailable') break;
+      if (e.reason === 'http_error' && e.status && e.status < 500 && e.status !== 429) break;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return { ok: false, ...failure, provider: provider.name, attempts, raw };
+}
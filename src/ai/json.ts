@@ -0,0 +1,33 @@
+// src/ai/json.ts
+// Best-effort JSON recovery for model output: strips code fences, takes the first
+// balanced object/array and fixes unquoted keys and trailing commas.
+
+export function normalizeAndParse(resp: unknown): any | null {
+  if (!resp) return null;
+  if (typeof resp === 'object') return resp;
+
+  const text = String(resp);
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  const candidate = extractFirstJson(cleaned);
+  if (!candidate) return null;
+
+  const repaired = candidate
+    .replace(/(['"])?([a-zA-Z0-9_]+)\1\s*:/g, '"$2":')
+    .replace(/,\s*([}\]])/g, '$1');
+
+  try { return JSON.parse(repaired); } catch {
+    try { return JSON.parse(candidate); } catch { return null; }
+  }
+}
+
+function extractFirstJson(s: string): string | null {
+  const start = s.search(/[{[]/); if (start < 0) return null;
+  const open = s[start], close = open === '{' ? '}' : ']';
+  let depth = 0;
+  for (let i = start; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === open) depth++;
+    if (ch === close) { depth--; if (depth === 0) return s.slice(start, i + 1); }
+  }
+  return null;
+}
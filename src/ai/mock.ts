@@ -0,0 +1,12 @@
+// src/ai/mock.ts
+// Offline provider: returns the caller's deterministic stub (heuristics/grammar) as JSON.
+import { AIProvider } from './types';
+
+export function mockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    model: 'local-stub',
+    complete: async ({ stub }) => JSON.stringify(stub ? stub() ?? null : null),
+    health: async () => ({ ok: true, provider: 'mock', model: 'local-stub' }),
+  };
+}
@@ -0,0 +1,49 @@
+// src/ai/ollama.ts
+import { AIProvider, ProviderError } from './types';
+
+export function ollamaProvider(base: string, model: string): AIProvider {
+  return {
+    name: 'ollama',
+    model,
+
+    complete: async ({ system, prompt, temperature = 0, signal }) => {
+      let res: Response;
+      try {
+        res = await fetch(`${base}/api/generate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          signal,
+          body: JSON.stringify({
+            model,
+            system,
+            prompt,
+            stream: false,
+            format: 'json',
+            options: { temperature, top_p: 0.1, num_ctx: 4096 },
+          }),
+        });
+      } catch (e) {
+        if (signal?.aborted) throw new ProviderError('timeout', 'Ollama request timed out');
+        throw new ProviderError('unavailable', `Ollama not reachable at ${base}: ${String(e)}`);
+      }
+      if (!res.ok) {
+        const t = await res.text().catch(() => '');
+        throw new ProviderError('http_error', `Ollama error ${res.status}: ${t}`, res.status);
+      }
+      const json = await res.json().catch(() => null);
+      return json && typeof json.response === 'string' ? json.response : '';
+    },
+
+    health: async () => {
+      try {
+        const r = await fetch(`${base}/api/tags`);
+        if (!r.ok) return { ok: false, provider: 'ollama', model, base, error: `tags returned ${r.status}` };
+        const data = await r.json().catch(() => null);
+        const models: string[] = Array.isArray(data?.models) ? data.models.map((m: any) => m?.name).filter(Boolean) : [];
+        return { ok: models.includes(model), provider: 'ollama', model, base, models, hasModel: models.includes(model) };
+      } catch (e) {
+        return { ok: false, provider: 'ollama', model, base, error: String(e) };
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// src/ai/openai.ts
+// Any OpenAI-compatible chat completions endpoint (OpenAI, Azure proxies, vLLM, LM Studio, ...).
+import { AIProvider, ProviderError } from './types';
+
+export function openAIProvider(base: string, model: string, apiKey?: string): AIProvider {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  // Self-hosted compatible servers usually don't need a key; api.openai.com does
+  const missingKey = !apiKey && base.includes('api.openai.com');
+
+  return {
+    name: 'openai',
+    model,
+
+    complete: async ({ system, prompt, temperature = 0.1, signal }) => {
+      if (missingKey) throw new ProviderError('unavailable', 'OPENAI_API_KEY not configured');
+      let res: Response;
+      try {
+        res = await fetch(`${base}/chat/completions`, {
+          method: 'POST',
+          headers,
+          signal,
+          body: JSON.stringify({
+            model,
+            temperature,
+            messages: [
+              { role: 'system', content: system },
+              { role: 'user', content: prompt },
+            ],
+            response_format: { type: 'json_object' },
+          }),
+        });
+      } catch (e) {
+        if (signal?.aborted) throw new ProviderError('timeout', 'OpenAI request timed out');
+        throw new ProviderError('unavailable', `OpenAI endpoint not reachable at ${base}: ${String(e)}`);
+      }
+      if (!res.ok) {
+        const t = await res.text().catch(() => '');
+        throw new ProviderError('http_error', `OpenAI error ${res.status}: ${t}`, res.status);
+      }
+      const json = await res.json().catch(() => null);
+      return json?.choices?.[0]?.message?.content ?? '';
+    },
+
+    health: async () => {
+      if (missingKey) return { ok: false, provider: 'openai', model, base, error: 'OPENAI_API_KEY not configured' };
+      try {
+        const r = await fetch(`${base}/models`, { headers });
+        if (!r.ok) return { ok: false, provider: 'openai', model, base, error: `models returned ${r.status}` };
+        const data = await r.json().catch(() => null);
+        const models: string[] = Array.isArray(data?.data) ? data.data.map((m: any) => m?.id).filter(Boolean) : [];
+        // Some compatible servers don't list models; treat an empty list as "unknown", not missing
+        const hasModel = models.length ? models.includes(model) : undefined;
+        return { ok: hasModel !== false, provider: 'openai', model, base, models, hasModel };
+      } catch (e) {
+        return { ok: false, provider: 'openai', model, base, error: String(e) };
+      }
+    },
+  };
+}
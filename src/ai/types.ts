@@ -0,0 +1,63 @@
+// src/ai/types.ts
+// Shared contract for AI backends. Providers only turn (system, prompt) into text;
+// retries, timeouts, JSON repair and schema checks live in ai/index.ts so every route behaves the same.
+
+import type { ZodType } from 'zod';
+
+export type ProviderName = 'ollama' | 'openai' | 'mock';
+
+/** What the AI is used for; each purpose can pick its own provider via env. */
+export type AIPurpose = 'nl' | 'rules';
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  temperature?: number;
+  signal?: AbortSignal;
+  /** Deterministic answer the mock provider returns instead of calling a model. */
+  stub?: () => unknown;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  provider: ProviderName;
+  model: string;
+  base?: string;
+  models?: string[];
+  hasModel?: boolean;
+  error?: string;
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  model: string;
+  /** Raw model text (expected to contain JSON). Throws ProviderError on transport problems. */
+  complete: (req: CompletionRequest) => Promise<string>;
+  health: () => Promise<ProviderHealth>;
+}
+
+export type FailureReason = 'unavailable' | 'timeout' | 'http_error' | 'invalid_json' | 'schema_mismatch';
+
+export class ProviderError extends Error {
+  constructor(
+    public reason: Extract<FailureReason, 'unavailable' | 'timeout' | 'http_error'>,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface GenerateJsonRequest<T> {
+  system: string;
+  /** One prompt per attempt; the last one is reused if there are more attempts than prompts. */
+  prompts: string[];
+  schema: ZodType<T>;
+  temperature?: number;
+  stub?: () => unknown;
+}
+
+export type GenerateJsonResult<T> =
+  | { ok: true; data: T; provider: ProviderName; attempts: number }
+  | { ok: false; reason: FailureReason; provider: ProviderName; attempts: number; error?: string; raw: unknown[] };
@@ -1,42 +1,32 @@
 // src/app/api/ai/health/route.ts
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getProvider, generateJson } from '@/ai';
 
 export async function GET() {
-  const base = process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434';
-  const model = process.env.OLLAMA_MODEL || 'qwen2.5:7b-instruct';
+  const nl = getProvider('nl');
+  const rules = getProvider('rules');
 
   try {
-    const r = await fetch(`${base}/api/tags`);
-    if (!r.ok) {
-      return NextResponse.json({ ok: false, step: 'tags', status: r.status }, { status: 502 });
-    }
-    const data = await r.json().catch(() => null);
-    const models = Array.isArray(data?.models) ? data.models.map((m: any) => m?.name).filter(Boolean) : [];
-    const hasModel = models.includes(model);
+    const [nlHealth, rulesHealth] = await Promise.all([nl.health(), rules.health()]);
 
-    // Try a minimal JSON generate to be sure format:"json" is accepted
-    const smoke = await fetch(`${base}/api/generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model,
-        prompt: '{"kind":"filter","entity":"tasks","filter":{"op":"cmp","field":"Duration","cmp":">","value":2}}',
-        stream: false,
-        format: 'json',
-        options: { temperature: 0 },
-      }),
-    }).then((x) => x.json()).catch(() => null);
+    // Minimal JSON generate so the model is loaded before the first real query
+    const smoke = nlHealth.ok
+      ? await generateJson(nl, {
+          system: 'Return the JSON object you are given.',
+          prompts: ['{"kind":"filter","entity":"tasks","filter":{"op":"cmp","field":"Duration","cmp":">","value":2}}'],
+          schema: z.record(z.string(), z.unknown()),
+          stub: () => ({ ok: true }),
+        })
+      : null;
 
+    const ok = nlHealth.ok && !!smoke?.ok && rulesHealth.ok;
     return NextResponse.json({
-      ok: !!smoke?.response,
-      base,
-      model,
-      models,
-      hasModel,
-      generateOk: !!smoke?.response,
-      sample: smoke?.response ?? null,
-    }, { status: hasModel && smoke?.response ? 200 : 502 });
+      ok,
+      nl: { ...nlHealth, generateOk: !!smoke?.ok },
+      rules: rulesHealth,
+    }, { status: ok ? 200 : 502 });
   } catch (e: unknown) {
-    return NextResponse.json({ ok: false, error: String(e), base, model }, { status: 502 });
+    return NextResponse.json({ ok: false, error: String(e) }, { status: 502 });
   }
 }
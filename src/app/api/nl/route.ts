@@ -1,22 +1,39 @@
 // src/app/api/nl/route.ts
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { repairFilter } from '@/utils/filterRepair';
-import { heuristicFilter } from '@/utils/nlFallback';
+import { repairFilter, repairQuery } from '@/utils/filterRepair';
+import { heuristicFilter, heuristicQueryParts } from '@/utils/nlFallback';
+import { isPlainFilter } from '@/utils/dsl';
+import { findRelation, relationsFor } from '@/utils/relations';
+import { getProvider, generateJson } from '@/ai';
+
+type EntityKey = 'clients'|'workers'|'tasks';
+
+const FieldSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  samples: z.array(z.union([z.string(), z.number(), z.boolean()])),
+});
 
 const ReqSchema = z.object({
   entity: z.enum(['clients','workers','tasks']),
   text: z.string().min(1),
-  schema: z.array(z.object({
-    name: z.string(),
-    type: z.string(),
-    samples: z.array(z.union([z.string(), z.number(), z.boolean()])),
-  })).default([]),
+  schema: z.array(FieldSchema).default([]),
+  // schemas of the entities reachable through relations (utils/relations.ts)
+  related: z.object({
+    clients: z.array(FieldSchema).optional(),
+    workers: z.array(FieldSchema).optional(),
+    tasks: z.array(FieldSchema).optional(),
+  }).default({}),
+  // per-column profile lines (utils/columnProfile.ts profileSummary)
+  profile: z.array(z.string().max(400)).max(80).default([]),
 });
+type Related = z.infer<typeof ReqSchema>['related'];
 
 const FilterNode = z.object({
-  op: z.enum(['and','or','not','cmp','includes','contains','in','nin','startsWith','endsWith','regex','exists','notExists','between']),
+  op: z.enum(['and','or','not','cmp','includes','contains','in','nin','startsWith','endsWith','regex','exists','notExists','between','within','any','all']),
   field: z.string().optional(),
+  relation: z.string().optional(),
   cmp: z.enum(['>','>=','<','<=','==','!=']).optional(),
   value: z.any().optional(),
   values: z.array(z.any()).optional(),
@@ -24,11 +41,18 @@ const FilterNode = z.object({
   to: z.any().optional(),
   children: z.array(z.any()).optional(),
 });
+// kind "filter" = rows only; kind "query" may add orderBy / limit / select / groupBy / aggregates
 const Envelope = z.object({
-  kind: z.literal('filter'),
+  kind: z.enum(['filter', 'query']),
   entity: z.string(),
-  filter: FilterNode,
-});
+  filter: FilterNode.optional(),
+  orderBy: z.any().optional(),
+  limit: z.any().optional(),
+  select: z.any().optional(),
+  groupBy: z.any().optional(),
+  aggregates: z.any().optional(),
+}).refine((e) => e.filter || e.orderBy || e.limit || e.select || e.groupBy || e.aggregates, 'empty query');
+type Envelope = z.infer<typeof Envelope>;
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => null);
@@ -36,155 +60,153 @@ export async function POST(req: Request) {
   if (!parsed.success) {
     return NextResponse.json({ error: 'Invalid request', details: parsed.error.flatten() }, { status: 400 });
   }
-  const { entity, text, schema } = parsed.data;
-
-  const base  = process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434';
-  const model = process.env.OLLAMA_MODEL || 'qwen2.5:0.5b-instruct';
-
-  const pre = await preflight(base).catch((e) => ({ ok: false, error: String(e) }));
-  if (!pre?.ok) return NextResponse.json({ error: 'AI backend not reachable', reason: 'preflight_failed', preflight: pre }, { status: 502 });
-  //if (!pre.models.includes(model)) return NextResponse.json({ error: `Model "${model}" not found`, reason: 'model_missing', available: pre.models }, { status: 502 });
-
-  const sys = systemPrompt();
-  const p1 = userPrompt(entity, text, schema, true);
-  const r1 = await callOllama(base, model, sys, p1);
-  const j1 = normalizeAndParse(r1);
-  const v1 = Envelope.safeParse(j1);
-  if (v1.success) {
-    const repaired = finalizeFilter(entity, v1.data.filter as any, schema as any, text);
-    return NextResponse.json({ kind: 'filter', entity, filter: repaired, source: 'ollama' });
+  const { entity, text, schema, related, profile } = parsed.data;
+
+  const provider = getProvider('nl');
+  const result = await generateJson(provider, {
+    system: systemPrompt(),
+    prompts: [
+      userPrompt(entity, text, schema, related, profile, true),
+      userPrompt(entity, text, schema, related, profile, false),
+    ],
+    schema: Envelope,
+    temperature: 0,
+    stub: () => heuristicEnvelope(entity, text, schema as any),
+  });
+
+  if (result.ok) {
+    return NextResponse.json(finalizeQuery(entity, result.data, schema as any, related, text, result.provider));
   }
-
-  const p2 = userPrompt(entity, text, schema, false);
-  const r2 = await callOllama(base, model, sys, p2);
-  const j2 = normalizeAndParse(r2);
-  const v2 = Envelope.safeParse(j2);
-  if (v2.success) {
-    const repaired = finalizeFilter(entity, v2.data.filter as any, schema as any, text);
-    return NextResponse.json({ kind: 'filter', entity, filter: repaired, source: 'ollama' });
+  if (result.reason === 'unavailable') {
+    return NextResponse.json(
+      { error: 'AI backend not reachable', reason: 'unavailable', provider: result.provider, details: result.error },
+      { status: 502 }
+    );
   }
 
   // Last-resort: heuristic without AI
-  const hf = heuristicFilter(entity, text, schema as any);
-  if (hf) {
-    return NextResponse.json({ kind: 'filter', entity, filter: hf, source: 'heuristic' });
+  const he = heuristicEnvelope(entity, text, schema as any);
+  if (he) {
+    return NextResponse.json(finalizeQuery(entity, he, schema as any, related, text, 'heuristic'));
   }
 
   return NextResponse.json(
-    { error: 'AI did not return a valid filter JSON', reason: (!r1 && !r2) ? 'no_response' : 'invalid_json', rawFirst: r1, rawRetry: r2 },
+    { error: 'AI did not return a valid filter JSON', reason: result.reason, provider: result.provider, raw: result.raw },
     { status: 422 }
   );
 }
 
-function finalizeFilter(entity: 'clients'|'workers'|'tasks', raw: any, schema: any[], text: string) {
-  // 1) Repair with fuzzy field mapping & type coercions
-  const repaired = repairFilter(raw, schema, { soften: false });
+function heuristicEnvelope(entity: EntityKey, text: string, schema: any[]): Envelope | null {
+  const filter = heuristicFilter(entity, text, schema);
+  const parts = heuristicQueryParts(text);
+  if (!filter && !parts) return null;
+  return { kind: parts ? 'query' : 'filter', entity, ...(parts ?? {}), ...(filter ? { filter } : {}) };
+}
+
+// `filter` stays in the response for callers that only understand plain filters
+function finalizeQuery(entity: EntityKey, env: Envelope, schema: any[], related: Related, text: string, source: string) {
+  const query = repairQuery(env, schema, { entity, related: related as any });
+  const filter = env.filter ? finalizeFilter(entity, env.filter, schema, related, text) : null;
+  if (filter) query.filter = filter;
+  else delete query.filter;
+  return { kind: isPlainFilter(query) ? 'filter' : 'query', entity, filter: query.filter, query, source };
+}
+
+function finalizeFilter(entity: EntityKey, raw: any, schema: any[], related: Related, text: string) {
+  // 1) Repair with fuzzy field mapping & type coercions (relation sub-filters against the related schema)
+  const repaired = repairFilter(raw, schema, { soften: false, entity, related: related as any });
 
   // 2) Keep only nodes whose fields exist in schema
-  const validCols = new Set(schema.map(s => s.name));
-  const cleaned = pruneToKnownFields(repaired, validCols);
+  const colsOf = (e: EntityKey) => new Set((e === entity ? schema : related[e] ?? []).map((s: any) => s.name));
+  const validCols = colsOf(entity);
+  const cleaned = pruneToKnownFields(repaired, entity, colsOf);
 
   // 3) If the filter has no valid field references, fall back to heuristic
-  if (!hasAnyKnownField(cleaned, validCols)) {
+  if (!hasAnyKnownField(cleaned, validCols, entity)) {
     const hf = heuristicFilter(entity, text, schema as any);
     return hf ?? cleaned;
   }
   return cleaned;
 }
 
-function pruneToKnownFields(node: any, validCols: Set<string>): any {
+function pruneToKnownFields(node: any, entity: EntityKey, colsOf: (e: EntityKey) => Set<string>): any {
   if (!node || typeof node !== 'object') return node;
+  if (node.op === 'any' || node.op === 'all') {
+    // unknown relation → drop; sub-filter is checked against the related entity's columns
+    const rel = findRelation(entity, node.relation);
+    if (!rel) return null;
+    const children = (node.children ?? []).map((c: any) => pruneToKnownFields(c, rel.to, colsOf)).filter(Boolean);
+    return { ...node, children };
+  }
   if (node.children && Array.isArray(node.children)) {
-    const children = node.children.map((c: any) => pruneToKnownFields(c, validCols)).filter(Boolean);
+    const children = node.children.map((c: any) => pruneToKnownFields(c, entity, colsOf)).filter(Boolean);
     return { ...node, children };
   }
-  if (node.field && !validCols.has(node.field)) {
+  if (node.field && !colsOf(entity).has(node.field)) {
     // drop unknown leaf
     return null;
   }
   return node;
 }
 
-function hasAnyKnownField(node: any, validCols: Set<string>): boolean {
+function hasAnyKnownField(node: any, validCols: Set<string>, entity: EntityKey): boolean {
   if (!node || typeof node !== 'object') return false;
   if (node.field && validCols.has(node.field)) return true;
+  if ((node.op === 'any' || node.op === 'all') && findRelation(entity, node.relation)) return true;
   //if (Array.isArray(node.children)) return node.children.some((c) => hasAnyKnownField(c, validCols));
   return false;
 }
 
-async function preflight(base: string): Promise<{ ok: boolean; models: string[] }> {
-  try {
-    const r = await fetch(`${base}/api/tags`);
-    if (!r.ok) return { ok: false, models: [] };
-    const data = await r.json().catch(() => null);
-    const models = Array.isArray(data?.models) ? data.models.map((m: any) => m?.name).filter(Boolean) : [];
-    return { ok: true, models };
-  } catch (e: any) {
-    return { ok: false, models: [], error: String(e) } as any;
-  }
-}
-
-async function callOllama(base: string, model: string, system: string, prompt: string) {
-  try {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), 25000);
-    const res = await fetch(`${base}/api/generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      signal: controller.signal,
-      body: JSON.stringify({
-        model,
-        system,
-        prompt,
-        stream: false,
-        format: 'json',
-        options: { temperature: 0, top_p: 0.1, num_ctx: 4096 },
-      }),
-    });
-    clearTimeout(timer);
-
-    if (!res.ok) {
-      const t = await res.text().catch(() => '');
-      return { _error: 'http_error', status: res.status, body: t };
-    }
-
-    const json = await res.json().catch(() => null);
-    return (json && 'response' in json) ? (json as any).response : { _error: 'bad_payload', json };
-  } catch (e) {
-    return { _error: 'fetch_failed', details: String(e) };
-  }
-}
-
 function systemPrompt() {
   return `You are a strict JSON generator. Always return a single JSON object and nothing else. No markdown, no comments, no trailing commas.`;
 }
 
-function userPrompt(entity: string, userText: string, schema: any[], fewShot: boolean) {
+function userPrompt(entity: EntityKey, userText: string, schema: any[], related: Related, profile: string[], fewShot: boolean) {
   const columns = schema.map((s: any) => s.name);
+  const temporal = schema.filter((s: any) => ['date', 'datetime', 'duration'].includes(s.type)).map((s: any) => `${s.name} (${s.type})`);
+  const relations = relationsFor(entity).map((r) =>
+    `- "${r.name}" → ${r.to} (${r.description}); columns: ${JSON.stringify((related[r.to] ?? []).map((s: any) => s.name))}`
+  );
   const base = `
 Return ONLY a single JSON object in this schema:
 
 {
-  "kind": "filter",
+  "kind": "filter|query",
   "entity": "clients|workers|tasks",
   "filter": {
-    "op": "and|or|not|cmp|includes|contains|in|nin|startsWith|endsWith|regex|exists|notExists|between",
+    "op": "and|or|not|cmp|includes|contains|in|nin|startsWith|endsWith|regex|exists|notExists|between|within|any|all",
     "field": "OneOfColumnNames?",
+    "relation": "RelationName (any/all only)",
     "cmp": ">|>=|<|<=|==|!=",
     "value": <any>,
     "values": [<any>],
     "from": <any>,
     "to": <any>,
     "children": [ <FilterNode> ... ]
-  }
+  },
+  "orderBy": [{ "field": "ColumnOrAggregateName", "dir": "asc|desc" }],
+  "limit": <positive integer>,
+  "select": ["ColumnName", ...],
+  "groupBy": ["ColumnName", ...],
+  "aggregates": [{ "fn": "count|sum|avg|min|max", "field": "ColumnName?", "as": "name?" }]
 }
 
 STRICT RULES:
 - Target entity is "${entity}".
 - Use ONLY these column names: ${JSON.stringify(columns)}
-- If the user mentions "skills include X" for workers, use {"op":"includes","field":"Skills","value":"X"}.
+${profile.length ? `- Column profile (use it to pick values, ranges and ID formats that exist in the data):\n${profile.map((l) => `  ${l}`).join('\n')}\n` : ''}- If the user mentions "skills include X" for workers, use {"op":"includes","field":"Skills","value":"X"}.
 - Never use fields that are NOT in the provided column list.
 - If unsure, pick the closest matching column name from the list above.
+- Use "kind":"filter" with only "filter" when the user just wants matching rows.
+- Use "kind":"query" for sorting, "top N", picking columns, or per-group counts/sums/averages. "filter" is optional then.
+- Date / duration columns: ${temporal.length ? temporal.join(', ') : '(none)'}. Write dates as "YYYY-MM-DD" and compare them
+  with cmp/between; relative instants like "30 days ago" or "today" work as values. For rolling or calendar ranges use
+  {"op":"within","field":"<date column>","value":"last 30 days|next 2 weeks|this month|last year|today"}.
+  Durations compare as text like "2h 30m" or "3 days".
+- An aggregate without "as" is named "<fn>_<field>" (or "count"); use that name in orderBy to sort groups.
+- To filter by related rows use {"op":"any"|"all","relation":"<name>","children":[<FilterNode on the related entity>]}.
+  "any" = at least one related row matches; "all" = every related row matches. Relations of ${entity}:
+${relations.length ? relations.join('\n') : '- (none)'}
 
 User query:
 ${JSON.stringify(userText)}
@@ -205,36 +227,21 @@ Return:
   {"op":"between","field":"Duration","from":2,"to":5},
   {"op":"includes","field":"PreferredPhases","value":3}
 ]}}
-`.trim();
-
-  return base + '\n' + few;
-}
-
-function normalizeAndParse(resp: any): any | null {
-  if (!resp) return null;
-  if (typeof resp === 'object' && !Array.isArray(resp)) return resp;
 
-  const text = String(resp);
-  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
-  const candidate = extractFirstJsonObject(cleaned);
-  if (!candidate) return null;
+User: "top 5 clients by PriorityLevel"
+Return:
+{"kind":"query","entity":"clients","orderBy":[{"field":"PriorityLevel","dir":"desc"}],"limit":5}
 
-  const repaired = candidate
-    .replace(/(['"])?([a-zA-Z0-9_]+)\1\s*:/g, '"$2":')
-    .replace(/,\s*([}\]])/g, '$1');
+User: "average Duration per Category"
+Return:
+{"kind":"query","entity":"tasks","groupBy":["Category"],"aggregates":[{"fn":"avg","field":"Duration"}],"orderBy":[{"field":"avg_Duration","dir":"desc"}]}
 
-  try { return JSON.parse(repaired); } catch {
-    try { return JSON.parse(candidate); } catch { return null; }
-  }
-}
+User: "clients who requested any task in category ETL"
+Return:
+{"kind":"filter","entity":"clients","filter":{"op":"any","relation":"requestedTasks","children":[
+  {"op":"cmp","field":"Category","cmp":"==","value":"ETL"}
+]}}
+`.trim();
 
-function extractFirstJsonObject(s: string): string | null {
-  const start = s.indexOf('{'); if (start < 0) return null;
-  let depth = 0;
-  for (let i = start; i < s.length; i++) {
-    const ch = s[i];
-    if (ch === '{') depth++;
-    if (ch === '}') { depth--; if (depth === 0) return s.slice(start, i + 1); }
-  }
-  return null;
+  return base + '\n' + few;
 }
@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { RulesArray, makeRuleId } from "@/rules/schema";
+import { parseRulesFromText } from "@/rules/nlGrammar";
+import { RELATIONS } from "@/utils/relations";
+import { profileColumns, profileSummary } from "@/utils/columnProfile";
+import { getProvider, generateJson } from "@/ai";
 
-// IMPORTANT: set OPENAI_API_KEY in your env
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+// Models in JSON mode often wrap the array: accept either {"rules":[...]} or [...]
+const RulesPayload = z.preprocess(
+  (v) => (v && typeof v === "object" && !Array.isArray(v) && "rules" in v ? (v as { rules: unknown }).rules : v),
+  RulesArray
+);
 
 export async function POST(req: NextRequest) {
   try {
-    if (!OPENAI_API_KEY) {
-      return NextResponse.json({ error: "OPENAI_API_KEY not configured" }, { status: 500 });
-    }
     const body = await req.json();
     const { text, data } = body as {
       text: string;
@@ -17,7 +22,10 @@ export async function POST(req: NextRequest) {
 
     const taskIds = (data?.tasks || []).map((t: any) => String(t.TaskID ?? t.id ?? "")).filter(Boolean);
     const workerGroups = [...new Set((data?.workers || []).map((w: any) => String(w.WorkerGroup ?? "")))].filter(Boolean);
-    const clientGroups = [...new Set((data?.clients || []).map((c: any) => String(c.ClientGroup ?? "")))].filter(Boolean);
+    const clientGroups = [...new Set((data?.clients || []).map((c: any) => String(c.GroupTag ?? c.ClientGroup ?? "")))].filter(Boolean);
+    const profiles = (["clients", "workers", "tasks"] as const)
+      .filter((e) => data?.[e]?.length)
+      .map((e) => `${e}:\n${profileSummary(profileColumns(data[e])).map((l) => `  ${l}`).join("\n")}`);
 
     const sys = `
 You convert plain-English scheduling/routing constraints into a strict JSON array of rules.
@@ -26,7 +34,10 @@ Allowed rule types (exact "type" values):
 - "slotRestriction": { id, type, groupType ("ClientGroup"|"WorkerGroup"), groupIds[], minCommonSlots, priority }
 - "loadLimit": { id, type, groupType: "WorkerGroup", groupIds[], maxSlotsPerPhase, priority }
 - "phaseWindow": { id, type, taskId, allowedPhases[], priority }
-- "patternMatch": { id, type, regex, template, params?, priority }
+- "patternMatch": { id, type, regex, template, params?, where?, priority }
+  "where" narrows the rule to rows matching a filter: { entity ("clients"|"workers"|"tasks"), filter }.
+  The filter may use {"op":"any"|"all","relation":R,"children":[<filter on the related entity>]} with relations
+  ${RELATIONS.map((r) => `${r.from}.${r.name} (${r.description})`).join(", ")}.
 - "precedenceOverride": { id, type, global, taskId?, ruleId?, priority }
 
 Constraints:
@@ -34,56 +45,38 @@ Constraints:
 - Only use WorkerGroup from: ${JSON.stringify(workerGroups)}.
 - Only use ClientGroup from: ${JSON.stringify(clientGroups)}.
 - Always set integer "priority" (0 = highest), default 100 if unspecified.
-- ALWAYS return **only** a JSON array (no prose), each object MUST include a string "id" (keep temporary, we'll replace server-side).
+${profiles.length ? `Column profiles of the data (for "where" filters and regexes that fit the real values):\n${profiles.join("\n")}\n` : ""}- ALWAYS return **only** a JSON array (no prose), each object MUST include a string "id" (keep temporary, we'll replace server-side).
     `;
 
     const user = `Convert the following request to rules JSON:\n---\n${text}\n---`;
 
-    // Minimal chat completion (no streaming)
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.1,
-        messages: [
-          { role: "system", content: sys },
-          { role: "user", content: user },
-        ],
-        response_format: { type: "json_object" }, // ensures JSON, we'll unwrap below
-      }),
-    });
-
-    if (!resp.ok) {
-      const t = await resp.text();
-      return NextResponse.json({ error: `OpenAI error: ${t}` }, { status: 500 });
-    }
+    // Offline parse is cheap and deterministic: it backs the mock provider and any AI failure
+    const offline = parseRulesFromText(text ?? "", { taskIds, workerGroups, clientGroups });
 
-    const dataJson = await resp.json();
-
-    // Some models wrap the array; normalize
-    let candidate: unknown = [];
-    try {
-      // If response_format:json_object, content likely looks like {"rules":[...]}
-      const content = dataJson?.choices?.[0]?.message?.content || "{}";
-      const parsedObj = JSON.parse(content);
-      candidate = parsedObj.rules ?? parsedObj; // accept either {"rules":[...]} or [...]
-    } catch {
-      // Fallback: try raw
-      candidate = [];
-    }
+    const result = await generateJson(getProvider("rules"), {
+      system: sys,
+      prompts: [user],
+      schema: RulesPayload,
+      temperature: 0.1,
+      stub: () => offline.rules,
+    });
 
-    // Validate and fix IDs
-    const z = RulesArray.safeParse(candidate);
-    if (!z.success) {
-      return NextResponse.json({ error: "AI output failed schema validation", details: z.error.format() }, { status: 400 });
+    if (result.ok && result.provider !== "mock" && result.data.length > 0) {
+      const withIds = result.data.map((r) => ({ ...r, id: r.id || makeRuleId() }));
+      return NextResponse.json({ rules: withIds, sources: withIds.map(() => result.provider), unparsed: [] }, { status: 200 });
     }
-    const withIds = z.data.map((r) => ({ ...r, id: r.id || makeRuleId() }));
 
-    return NextResponse.json({ rules: withIds }, { status: 200 });
+    return NextResponse.json(
+      {
+        rules: offline.rules,
+        sources: offline.rules.map(() => "grammar"),
+        unparsed: offline.unparsed,
+        // why the AI answer wasn't used (absent when running on the mock provider)
+        fallbackReason: result.provider === "mock" ? undefined : result.ok ? "empty" : result.reason,
+        details: result.ok ? undefined : result.error,
+      },
+      { status: 200 }
+    );
   } catch (e: any) {
     return NextResponse.json({ error: e?.message ?? "Unknown error" }, { status: 500 });
   }
@@ -1,7 +1,9 @@
 // src/app/layout.tsx
 import '@mantine/core/styles.css';
+import '@mantine/notifications/styles.css';
 import React from 'react';
 import { ColorSchemeScript, MantineProvider } from '@mantine/core';
+import { Notifications } from '@mantine/notifications';
 
 export const metadata = {
   title: 'Spreadsheet Alchemist',
@@ -20,6 +22,7 @@ export default function RootLayout({
       </head>
       <body>
         <MantineProvider>
+          <Notifications />
           {children}
         </MantineProvider>
       </body>
@@ -1,20 +1,44 @@
 // src/app/page.tsx
 'use client';
 
-import { Container, Tabs, Text, Badge, Button, Group, Space, Alert } from '@mantine/core';
-import { useMemo, useRef, useState } from 'react';
+import { Container, Tabs, Text, Badge, Button, Group, Space, Alert, Grid, Switch } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconPin } from '@tabler/icons-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import FileUploader from '@/components/FileUploader';
 import DataGrid from '@/components/DataGrid';
 import ValidationPanel from '@/components/ValidationPanel';
-import { useDataStore } from '@/store/useDataStore';
+import { useDataStore, ID_FIELD } from '@/store/useDataStore';
 import { useValidationStore } from '@/store/useValidationStore';
-import { validateAllData } from '@/utils/validators';
+import { useRulesStore } from '@/store/useRulesStore';
+import { useValidationProfileStore } from '@/store/useValidationProfileStore';
+import { requestValidation } from '@/utils/validationRunner';
+import type { FieldChange } from '@/utils/validatorRegistry';
 import NLSearchBar from '@/components/NLSearchBar';
 import RuleBuilderPanel from '@/components/RuleBuilderPanel';
+import AllocationPanel from '@/components/AllocationPanel';
+import PrioritiesPanel from '@/components/PrioritiesPanel';
+import ValidationProfilePanel from '@/components/ValidationProfilePanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import WorkspacePanel from '@/components/WorkspacePanel';
+import QueryResultView from '@/components/QueryResultView';
+import ViewsBar from '@/components/ViewsBar';
+import ColumnProfilePanel from '@/components/ColumnProfilePanel';
+import { useViewsStore } from '@/store/useViewsStore';
+import { resultRows, runQuery, type QueryResult } from '@/utils/dsl';
+import { SavedView, VIEW_PARAM, decodeView } from '@/utils/views';
+import { resolveDateSettings } from '@/utils/dates';
 
 /* ===================== Types ===================== */
 type Entity = 'clients' | 'workers' | 'tasks';
 
+const ENTITY_TABS: { key: Entity; label: string; icon: string; color: string; errors: 'clientErrors' | 'workerErrors' | 'taskErrors' }[] = [
+  { key: 'clients', label: 'Clients', icon: '👥', color: 'blue', errors: 'clientErrors' },
+  { key: 'workers', label: 'Workers', icon: '👷', color: 'green', errors: 'workerErrors' },
+  { key: 'tasks', label: 'Tasks', icon: '📋', color: 'orange', errors: 'taskErrors' },
+];
+const VIEW_TAB = 'view:';
+
 type BaseRow = { id?: string };
 export type ClientRow = BaseRow & { ClientID?: string };
 export type WorkerRow = BaseRow & { WorkerID?: string };
@@ -31,9 +55,7 @@ type FilterToken = string | Partial<ClientRow & WorkerRow & TaskRow>;
 /* ===== Stable ID (single generic, no overloads) ===== */
 function getEntityId<E extends Entity>(ent: E, row: RowFor<E> | null | undefined): string {
   if (!row) return '';
-  if (ent === 'clients') return String((row as ClientRow).ClientID ?? row.id ?? '');
-  if (ent === 'workers') return String((row as WorkerRow).WorkerID ?? row.id ?? '');
-  return String((row as TaskRow).TaskID ?? row.id ?? '');
+  return String((row as Record<string, unknown>)[ID_FIELD[ent]] ?? row.id ?? '');
 }
 
 /* ===== Map helper (typed) : id -> base row ===== */
@@ -57,26 +79,45 @@ export default function HomePage() {
   ) => void;
 
   const [activeTab, setActiveTab] = useState<Entity>('clients');
-
-  const { summary, setErrors, setValidating } = useValidationStore();
+  // A pinned saved view shown as its own tab (its rows are the entity's filtered view)
+  const [activeViewTab, setActiveViewTab] = useState<string | null>(null);
+  const [showProfile, setShowProfile] = useState(false);
+
+  const views = useViewsStore((s) => s.views);
+  const currentViews = useViewsStore((s) => s.current);
+  const setCurrentView = useViewsStore((s) => s.setCurrent);
+  const pinnedViews = views.filter((v) => v.pinned);
+
+  const rules = useRulesStore((s) => s.rules);
+  const validationProfile = useValidationProfileStore((s) => s.profile);
+  const { summary } = useValidationStore();
   const totalRecords = clients.length + workers.length + tasks.length;
 
   // Prevent validator loops when fixes are applied
   const applyingFixRef = useRef(false);
 
-  const runValidation = () => {
+  const runValidation = (changes?: FieldChange[]) => {
     if (applyingFixRef.current) return; // guard: don't validate mid-fix
-    setValidating(true);
-    setTimeout(() => {
-      // Cast with Parameters<typeof validateAllData> to satisfy expected types safely
-      const next = validateAllData(
-        clients as unknown as Parameters<typeof validateAllData>[0],
-        workers as unknown as Parameters<typeof validateAllData>[1],
-        tasks   as unknown as Parameters<typeof validateAllData>[2]
-      );
-      setErrors(next);
-      setValidating(false);
-    }, 100);
+    // background worker; a newer run supersedes this one. `changes` limits it to affected checks
+    requestValidation(undefined, { changes });
+  };
+
+  // Rules constrain the data too: re-validate when the rule set or validation profile changes
+  // (the record count is read through a ref so loading data doesn't trigger a second run)
+  const hasDataRef = useRef(false);
+  useEffect(() => { hasDataRef.current = totalRecords > 0; }, [totalRecords]);
+  useEffect(() => {
+    if (hasDataRef.current && !applyingFixRef.current) requestValidation();
+  }, [rules, validationProfile]);
+
+  // Jump-to-rule: rule list items carry data-rule-id
+  const handleJumpToRule = (ruleId: string) => {
+    const el = document.querySelector<HTMLElement>(`[data-rule-id="${ruleId}"]`);
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const originalBg = el.style.backgroundColor;
+    el.style.backgroundColor = '#f3d9fa';
+    setTimeout(() => { el.style.backgroundColor = originalBg; }, 3000);
   };
 
   // Jump-to-row (unchanged)
@@ -97,6 +138,22 @@ export default function HomePage() {
     }, 200);
   };
 
+  // Shared link: ?view=<encoded> adds the view (pinned) once, then the parameter is dropped
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const param = url.searchParams.get(VIEW_PARAM);
+    if (!param) return;
+    const shared = decodeView(param);
+    if (shared) {
+      const view = useViewsStore.getState().importView(shared);
+      notifications.show({ message: `Added shared view “${view.name}” (${view.entity})`, color: 'teal' });
+    } else {
+      notifications.show({ message: 'The shared view link is invalid', color: 'red' });
+    }
+    url.searchParams.delete(VIEW_PARAM);
+    window.history.replaceState(null, '', url.toString());
+  }, []);
+
   /* ---------- View selector: ALWAYS return BASE rows ---------- */
   function view<E extends Entity>(ent: E): RowFor<E>[] {
     const base = (ent === 'clients'
@@ -128,13 +185,112 @@ export default function HomePage() {
   const [filterBanner, setFilterBanner] = useState<{
     visible: boolean;
     entity?: Entity;
-    source?: 'ai' | 'heuristic';
+    source?: 'ai' | 'heuristic' | 'query' | 'view';
     shown?: number;
     total?: number;
   }>({ visible: false });
 
   const clearBanner = () => setFilterBanner({ visible: false });
 
+  // Last NL query result per entity (sorting / projection / grouping on top of the filtered view)
+  const [queryResults, setQueryResults] = useState<Partial<Record<Entity, QueryResult>>>({});
+  const setQueryResult = (entity: Entity, result: QueryResult | null) =>
+    setQueryResults((prev) => ({ ...prev, [entity]: result ?? undefined }));
+
+  // A result only applies while its filtered view is active (uploads / restores clear the views)
+  const activeResult = (ent: Entity) => (filtered[ent] ? queryResults[ent] : undefined);
+
+  const columnsFor = (ent: Entity) => {
+    const r = activeResult(ent);
+    return r?.kind === 'rows' ? r.columns : null;
+  };
+
+  const renderQueryResult = (ent: Entity) => {
+    const r = activeResult(ent);
+    if (r?.kind !== 'groups') return null;
+    return (
+      <QueryResultView
+        result={r}
+        onSelectGroup={(rows) => setFiltered(ent, (rows ?? r.groups.flatMap((g) => g.rows)) as AnyRow[])}
+      />
+    );
+  };
+
+  const applyView = (v: SavedView) => {
+    const data = useDataStore.getState();
+    const dates = resolveDateSettings(useValidationProfileStore.getState().profile.dates);
+    const result = runQuery(data[v.entity] as any[], v.query, { entity: v.entity, data, dates });
+    const rows = resultRows(result) as AnyRow[];
+    setFiltered(v.entity, rows);
+    setQueryResult(v.entity, result);
+    setCurrentView(v.entity, v.query, v.id);
+    setFilterBanner({ visible: true, entity: v.entity, source: 'view', shown: rows.length, total: totals[v.entity] });
+  };
+
+  const selectTab = (value: string | null) => {
+    const v = value?.startsWith(VIEW_TAB) ? views.find((x) => VIEW_TAB + x.id === value) : undefined;
+    if (v) {
+      setActiveTab(v.entity);
+      setActiveViewTab(value);
+      applyView(v);
+      return;
+    }
+    setActiveViewTab(null);
+    setActiveTab((value as Entity) || 'clients');
+  };
+
+  // Name of the saved view the entity's filtered rows came from (null = an ad-hoc search)
+  const viewNameFor = (ent: Entity) => {
+    const id = filtered[ent] ? currentViews[ent]?.viewId : null;
+    return id ? views.find((v) => v.id === id)?.name ?? null : null;
+  };
+
+  // "Fix all in this view": the active tab's filtered rows, by ID
+  const fixScope = filtered[activeTab]
+    ? {
+        entity: activeTab,
+        label: viewNameFor(activeTab) ?? 'current filter',
+        ids: new Set(view(activeTab).map((r) => getEntityId(activeTab, r))),
+      }
+    : null;
+
+  // Leaving a pinned view tab once its view is no longer what the grid shows
+  const viewTabValue =
+    activeViewTab && currentViews[activeTab]?.viewId === activeViewTab.slice(VIEW_TAB.length) && filtered[activeTab]
+      ? activeViewTab
+      : null;
+
+  const renderEntityPanel = (ent: Entity) => {
+    const meta = ENTITY_TABS.find((t) => t.key === ent)!;
+    const name = viewNameFor(ent);
+    return (
+      <>
+        <Group justify="space-between" mb="md">
+          <Text size="sm" c="dimmed">
+            {meta.label} Data ({view(ent).length} records)
+            {filtered[ent] && <Badge size="sm" ml="xs" variant="light" color="green">{name ? `View: ${name}` : 'Filtered'}</Badge>}
+            {summary[meta.errors] > 0 && <Badge size="sm" ml="xs" color="red">{summary[meta.errors]} issues</Badge>}
+          </Text>
+          <Switch size="xs" label="Column profile" checked={showProfile} onChange={(e) => setShowProfile(e.currentTarget.checked)} />
+        </Group>
+        <ViewsBar entity={ent} onApply={applyView} />
+        {renderQueryResult(ent)}
+        {showProfile ? (
+          <Grid>
+            <Grid.Col span={{ base: 12, md: 8 }}>
+              <DataGrid rowData={view(ent)} entityType={ent} columns={columnsFor(ent)} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 12, md: 4 }}>
+              <ColumnProfilePanel entity={ent} rows={view(ent)} />
+            </Grid.Col>
+          </Grid>
+        ) : (
+          <DataGrid rowData={view(ent)} entityType={ent} columns={columnsFor(ent)} />
+        )}
+      </>
+    );
+  };
+
   // Totals typed explicitly
   const totals: Record<Entity, number> = useMemo(
     () => ({ clients: clients.length, workers: workers.length, tasks: tasks.length }),
@@ -155,13 +311,15 @@ export default function HomePage() {
           )}
         </div>
         {totalRecords > 0 && (
-          <Button onClick={runValidation} size="lg" color="blue">
+          <Button onClick={() => runValidation()} size="lg" color="blue">
             🔍 Run Validation
           </Button>
         )}
       </Group>
 
-      {/* Uploader */}
+      {/* Saved workspaces + uploader */}
+      <Space h="md" />
+      <WorkspacePanel />
       <Space h="md" />
       <FileUploader />
 
@@ -174,16 +332,20 @@ export default function HomePage() {
             onApply={(entity, filterResult) => {
               const rows = (filterResult?.rows ?? []) as AnyRow[];
               setFiltered(entity, rows); // IDs or rows ok; view() handles both
+              setQueryResult(entity, (filterResult?.result as QueryResult | undefined) ?? null);
+              setCurrentView(entity, filterResult?.query ?? null);
               setFilterBanner({
                 visible: true,
                 entity,
-                source: (filterResult?.source as 'ai' | 'heuristic') ?? 'ai',
+                source: (filterResult?.source as 'ai' | 'heuristic' | 'query') ?? 'ai',
                 shown: rows.length,
                 total: totals[entity],
               });
             }}
             onClear={(entity) => {
               setFiltered(entity, null);
+              setQueryResult(entity, null);
+              setCurrentView(entity, null);
               clearBanner();
             }}
           />
@@ -204,14 +366,18 @@ export default function HomePage() {
       {totalRecords > 0 && (
         <div style={{ marginTop: '2rem' }}>
           <ValidationPanel
+            scope={fixScope}
             onJumpToRow={handleJumpToRow}
+            onJumpToRule={handleJumpToRule}
             // Guard validator during fixes to avoid loops
             onBeforeApplyFix={() => { applyingFixRef.current = true; }}
-            onAfterApplyFix={() => {
+            onAfterApplyFix={(changes) => {
               applyingFixRef.current = false;
-              runValidation(); // re-run once after fixes settle
+              runValidation(changes); // re-run once after fixes settle
             }}
           />
+          <Space h="md" />
+          <ValidationProfilePanel />
         </div>
       )}
 
@@ -223,57 +389,49 @@ export default function HomePage() {
         </>
       )}
 
+      {/* Allocation */}
+      {totalRecords > 0 && (
+        <>
+          <Space h="xl" />
+          <PrioritiesPanel />
+          <Space h="md" />
+          <AllocationPanel />
+        </>
+      )}
+
       {/* Tabs + Grids */}
       {totalRecords > 0 ? (
         <div style={{ marginTop: '2rem' }}>
-          <Tabs value={activeTab} onChange={(v) => setActiveTab((v as Entity) || 'clients')}>
+          <HistoryPanel />
+          <Space h="md" />
+          <Tabs value={viewTabValue ?? activeTab} onChange={selectTab}>
             <Tabs.List>
-              <Tabs.Tab value="clients">
-                👥 Clients
-                <Badge size="sm" ml="xs" color="blue">{view('clients').length}</Badge>
-                {filtered.clients && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
-                {summary.clientErrors > 0 && <Badge size="sm" ml="xs" color="red">{summary.clientErrors}</Badge>}
-              </Tabs.Tab>
-              <Tabs.Tab value="workers">
-                👷 Workers
-                <Badge size="sm" ml="xs" color="green">{view('workers').length}</Badge>
-                {filtered.workers && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
-                {summary.workerErrors > 0 && <Badge size="sm" ml="xs" color="red">{summary.workerErrors}</Badge>}
-              </Tabs.Tab>
-              <Tabs.Tab value="tasks">
-                📋 Tasks
-                <Badge size="sm" ml="xs" color="orange">{view('tasks').length}</Badge>
-                {filtered.tasks && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
-                {summary.taskErrors > 0 && <Badge size="sm" ml="xs" color="red">{summary.taskErrors}</Badge>}
-              </Tabs.Tab>
+              {ENTITY_TABS.map((t) => (
+                <Tabs.Tab key={t.key} value={t.key}>
+                  {t.icon} {t.label}
+                  <Badge size="sm" ml="xs" color={t.color}>{view(t.key).length}</Badge>
+                  {filtered[t.key] && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
+                  {summary[t.errors] > 0 && <Badge size="sm" ml="xs" color="red">{summary[t.errors]}</Badge>}
+                </Tabs.Tab>
+              ))}
+              {pinnedViews.map((v) => (
+                <Tabs.Tab key={v.id} value={VIEW_TAB + v.id} leftSection={<IconPin size={14} />}>
+                  {v.name}
+                  <Badge size="sm" ml="xs" variant="light" color="gray">{v.entity}</Badge>
+                </Tabs.Tab>
+              ))}
             </Tabs.List>
 
-            <Tabs.Panel value="clients" pt="lg">
-              <Text mb="md" size="sm" c="dimmed">
-                Clients Data ({view('clients').length} records)
-                {filtered.clients && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
-                {summary.clientErrors > 0 && <Badge size="sm" ml="xs" color="red">{summary.clientErrors} issues</Badge>}
-              </Text>
-              <DataGrid rowData={view('clients')} entityType="clients" />
-            </Tabs.Panel>
-
-            <Tabs.Panel value="workers" pt="lg">
-              <Text mb="md" size="sm" c="dimmed">
-                Workers Data ({view('workers').length} records)
-                {filtered.workers && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
-                {summary.workerErrors > 0 && <Badge size="sm" ml="xs" color="red">{summary.workerErrors} issues</Badge>}
-              </Text>
-              <DataGrid rowData={view('workers')} entityType="workers" />
-            </Tabs.Panel>
-
-            <Tabs.Panel value="tasks" pt="lg">
-              <Text mb="md" size="sm" c="dimmed">
-                Tasks Data ({view('tasks').length} records)
-                {filtered.tasks && <Badge size="sm" ml="xs" variant="light" color="green">Filtered</Badge>}
-                {summary.taskErrors > 0 && <Badge size="sm" ml="xs" color="red">{summary.taskErrors} issues</Badge>}
-              </Text>
-              <DataGrid rowData={view('tasks')} entityType="tasks" />
-            </Tabs.Panel>
+            {ENTITY_TABS.map((t) => (
+              <Tabs.Panel key={t.key} value={t.key} pt="lg">
+                {renderEntityPanel(t.key)}
+              </Tabs.Panel>
+            ))}
+            {pinnedViews.map((v) => (
+              <Tabs.Panel key={v.id} value={VIEW_TAB + v.id} pt="lg">
+                {renderEntityPanel(v.entity)}
+              </Tabs.Panel>
+            ))}
           </Tabs>
         </div>
       ) : (
@@ -0,0 +1,140 @@
+// src/components/AllocationPanel.tsx
+'use client';
+
+import { useMemo } from 'react';
+import { Card, Group, Text, Button, Badge, Table, ScrollArea, Stack, Alert, Space } from '@mantine/core';
+import { IconCalendarEvent, IconDownload, IconAlertTriangle } from '@tabler/icons-react';
+import Papa from 'papaparse';
+import { useDataStore } from '@/store/useDataStore';
+import { useRulesStore } from '@/store/useRulesStore';
+import { useAllocationStore } from '@/store/useAllocationStore';
+import { usePrioritiesStore } from '@/store/usePrioritiesStore';
+import { allocate, allocationToRows } from '@/utils/allocator';
+import { normalizeWeights } from '@/utils/scoring';
+
+function download(filename: string, data: string, type = 'text/csv;charset=utf-8;') {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function AllocationPanel() {
+  const { clients, workers, tasks } = useDataStore();
+  const rules = useRulesStore((s) => s.rules);
+  const weights = usePrioritiesStore((s) => s.weights);
+  const normalized = usePrioritiesStore((s) => s.normalized);
+  const { result, isAllocating, setResult, setAllocating } = useAllocationStore();
+
+  const run = () => {
+    setAllocating(true);
+    setTimeout(() => {
+      setResult(allocate(clients, workers, tasks, rules, normalized()));
+      setAllocating(false);
+    }, 0);
+  };
+
+  const requested = useMemo(
+    () => (result ? result.assignments.length + result.unassigned.length : 0),
+    [result]
+  );
+
+  // Weights changed since the last run → result no longer reflects the sliders
+  const stale = useMemo(
+    () => !!result && JSON.stringify(result.weights) !== JSON.stringify(normalizeWeights(weights)),
+    [result, weights]
+  );
+
+  const exportCsv = () => {
+    if (!result) return;
+    const rows = allocationToRows(result);
+    download('allocation.csv', Papa.unparse(rows.assignments));
+    if (rows.unassigned.length) download('unassigned.csv', Papa.unparse(rows.unassigned));
+  };
+
+  return (
+    <Card withBorder radius="md" p="md">
+      <Group justify="space-between">
+        <div>
+          <Text fw={600}>Allocation</Text>
+          <Text size="sm" c="dimmed">
+            Assigns each requested task to a qualified worker, phase by phase, honouring slots, load limits and rules.
+          </Text>
+        </div>
+        <Group>
+          {result && (
+            <>
+              <Badge color="green" variant="light">{result.assignments.length} assigned</Badge>
+              <Badge color={result.unassigned.length ? 'red' : 'gray'} variant="light">
+                {result.unassigned.length} unassigned
+              </Badge>
+              {stale && <Badge color="yellow" variant="outline">Priorities changed</Badge>}
+              <Button variant="light" leftSection={<IconDownload size={16} />} onClick={exportCsv}>
+                Download CSV
+              </Button>
+            </>
+          )}
+          <Button leftSection={<IconCalendarEvent size={16} />} loading={isAllocating} onClick={run}>
+            {result ? 'Re-run allocation' : 'Run allocation'}
+          </Button>
+        </Group>
+      </Group>
+
+      {result && (
+        <Stack gap="sm" mt="md">
+          <Text size="xs" c="dimmed">
+            {requested} requests over phases [{result.phases.join(', ')}] • generated {new Date(result.generatedAt).toLocaleTimeString()}
+          </Text>
+
+          {result.notes.length > 0 && (
+            <Alert color="yellow" variant="light" icon={<IconAlertTriangle size={16} />}>
+              {result.notes.map((n, i) => <Text key={i} size="xs">{n}</Text>)}
+            </Alert>
+          )}
+
+          <ScrollArea h={280}>
+            <Table striped highlightOnHover>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Client</Table.Th>
+                  <Table.Th>Task</Table.Th>
+                  <Table.Th>Worker</Table.Th>
+                  <Table.Th>Phases</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {result.assignments.slice(0, 200).map((a) => (
+                  <Table.Tr key={`${a.clientId}-${a.taskId}`}>
+                    <Table.Td>{a.clientId}</Table.Td>
+                    <Table.Td>{a.taskId}</Table.Td>
+                    <Table.Td>{a.workerId}</Table.Td>
+                    <Table.Td>{a.phases.join(', ')}</Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+
+          {result.unassigned.length > 0 && (
+            <>
+              <Space h="xs" />
+              <Text fw={600} size="sm" c="red">Unassigned requests ({result.unassigned.length})</Text>
+              <ScrollArea h={180}>
+                <Stack gap={4}>
+                  {result.unassigned.map((u) => (
+                    <Group key={`${u.clientId}-${u.taskId}`} gap="xs" wrap="nowrap">
+                      <Badge size="xs" variant="outline">{u.clientId} → {u.taskId}</Badge>
+                      <Badge size="xs" color="red" variant="light">{u.reason}</Badge>
+                      <Text size="xs" c="dimmed">{u.detail}</Text>
+                    </Group>
+                  ))}
+                </Stack>
+              </ScrollArea>
+            </>
+          )}
+        </Stack>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+// src/components/ColumnMappingWizard.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Modal, Tabs, Table, Group, Text, Badge, Select, MultiSelect, SegmentedControl, TextInput, NumberInput,
+  Checkbox, Button, Stack, ScrollArea,
+} from '@mantine/core';
+import type { EntityKey } from '@/store/useDataStore';
+import type { RawSheet } from '@/utils/parseFile';
+import {
+  CANONICAL_COLUMNS,
+  REQUIRED_COLUMNS,
+  ColumnMapping,
+  ColumnSource,
+  defaultSeparator,
+  proposeMapping,
+  resolveSource,
+  usedColumns,
+} from '@/utils/mapping';
+
+export interface MappingDraft {
+  sheet: RawSheet;
+  mapping: ColumnMapping | null;     // null = entity unknown yet
+  scores: Record<string, number>;
+  remembered: boolean;
+}
+
+interface Props {
+  opened: boolean;
+  drafts: MappingDraft[];
+  canRemember: boolean;
+  onCancel: () => void;
+  /** One entry per draft; null = skip that sheet. */
+  onConfirm: (mappings: (ColumnMapping | null)[], remember: boolean) => void;
+}
+
+const SKIP = 'skip';
+const ENTITY_OPTIONS = [
+  { value: 'clients', label: 'Clients' },
+  { value: 'workers', label: 'Workers' },
+  { value: 'tasks', label: 'Tasks' },
+  { value: SKIP, label: 'Skip this sheet' },
+];
+
+type Kind = ColumnSource['kind'];
+
+function convert(src: ColumnSource | null, kind: Kind, target: string): ColumnSource {
+  const first = !src ? '' : src.kind === 'merge' ? src.columns[0] ?? '' : src.column;
+  if (kind === 'merge') return { kind, columns: first ? [first] : [], separator: defaultSeparator(target) };
+  if (kind === 'split') return { kind, column: first, separator: ',', part: 0 };
+  return { kind, column: first };
+}
+
+// Empty merge / split sources would only produce blank columns
+function cleanup(mapping: ColumnMapping): ColumnMapping {
+  const targets = Object.fromEntries(
+    Object.entries(mapping.targets).map(([t, src]) => {
+      if (!src) return [t, null];
+      if (src.kind === 'merge') return [t, src.columns.length ? src : null];
+      return [t, src.column ? src : null];
+    })
+  );
+  return { entity: mapping.entity, targets };
+}
+
+export default function ColumnMappingWizard({ opened, drafts, canRemember, onCancel, onConfirm }: Props) {
+  const [mappings, setMappings] = useState<(ColumnMapping | null)[]>([]);
+  const [scores, setScores] = useState<Record<string, number>[]>([]);
+  const [active, setActive] = useState<string | null>('0');
+  const [remember, setRemember] = useState(true);
+
+  useEffect(() => {
+    setMappings(drafts.map((d) => d.mapping));
+    setScores(drafts.map((d) => d.scores));
+    setActive('0');
+  }, [drafts]);
+
+  const setEntity = (i: number, value: string | null) => {
+    const proposal = value && value !== SKIP ? proposeMapping(drafts[i].sheet.headers, value as EntityKey) : null;
+    setMappings((m) => m.map((x, j) => (j === i ? proposal?.mapping ?? null : x)));
+    setScores((s) => s.map((x, j) => (j === i ? proposal?.scores ?? {} : x)));
+  };
+
+  const setSource = (i: number, target: string, src: ColumnSource | null) => {
+    setMappings((m) =>
+      m.map((x, j) => (j === i && x ? { ...x, targets: { ...x.targets, [target]: src } } : x))
+    );
+    setScores((s) => s.map((x, j) => (j === i ? { ...x, [target]: 0 } : x)));
+  };
+
+  const missingRequired = mappings.some(
+    (m) => m && REQUIRED_COLUMNS[m.entity].some((c) => !cleanup(m).targets[c])
+  );
+
+  return (
+    <Modal opened={opened} onClose={onCancel} title="Map columns" size="xl">
+      <Stack gap="sm">
+        <Text size="sm" c="dimmed">
+          Some headers don&apos;t match the expected column names. Confirm or change the proposed matches; unused
+          columns are kept as extra columns.
+        </Text>
+
+        <Tabs value={active} onChange={setActive}>
+          <Tabs.List>
+            {drafts.map((d, i) => (
+              <Tabs.Tab key={i} value={String(i)}>
+                <Group gap={6}>
+                  {d.sheet.source}
+                  {d.remembered && <Badge size="xs" variant="light" color="teal">saved</Badge>}
+                </Group>
+              </Tabs.Tab>
+            ))}
+          </Tabs.List>
+
+          {drafts.map((d, i) => {
+            const mapping = mappings[i];
+            const sample = d.sheet.rows[0] ?? {};
+            const headerOptions = d.sheet.headers.filter(Boolean);
+            const unused = mapping ? headerOptions.filter((h) => !usedColumns(mapping).has(h)) : [];
+
+            return (
+              <Tabs.Panel key={i} value={String(i)} pt="sm">
+                <Select
+                  label="Data type"
+                  value={mapping?.entity ?? SKIP}
+                  onChange={(v) => setEntity(i, v)}
+                  data={ENTITY_OPTIONS}
+                  w={200}
+                  allowDeselect={false}
+                />
+
+                {mapping && (
+                  <ScrollArea h={380} mt="sm">
+                    <Table verticalSpacing={4}>
+                      <Table.Thead>
+                        <Table.Tr>
+                          <Table.Th>Column</Table.Th>
+                          <Table.Th>Source</Table.Th>
+                          <Table.Th>Preview (row 1)</Table.Th>
+                        </Table.Tr>
+                      </Table.Thead>
+                      <Table.Tbody>
+                        {CANONICAL_COLUMNS[mapping.entity].map((target) => {
+                          const src = mapping.targets[target] ?? null;
+                          const kind: Kind = src?.kind ?? 'column';
+                          const score = scores[i]?.[target] ?? 0;
+                          const required = REQUIRED_COLUMNS[mapping.entity].includes(target);
+                          return (
+                            <Table.Tr key={target}>
+                              <Table.Td>
+                                <Group gap={4}>
+                                  <Text size="sm" fw={500}>{target}</Text>
+                                  {required && <Badge size="xs" variant="light" color={src ? 'gray' : 'red'}>required</Badge>}
+                                </Group>
+                                {score > 0 && score < 1 && (
+                                  <Text size="xs" c="dimmed">{Math.round(score * 100)}% match</Text>
+                                )}
+                              </Table.Td>
+                              <Table.Td>
+                                <Group gap="xs" wrap="nowrap">
+                                  <SegmentedControl
+                                    size="xs"
+                                    value={kind}
+                                    onChange={(k) => setSource(i, target, convert(src, k as Kind, target))}
+                                    data={[
+                                      { label: 'Column', value: 'column' },
+                                      { label: 'Merge', value: 'merge' },
+                                      { label: 'Split', value: 'split' },
+                                    ]}
+                                  />
+                                  {kind === 'column' && (
+                                    <Select
+                                      size="xs"
+                                      placeholder="— none —"
+                                      clearable
+                                      value={src?.kind === 'column' ? src.column || null : null}
+                                      onChange={(v) => setSource(i, target, v ? { kind: 'column', column: v } : null)}
+                                      data={headerOptions}
+                                      w={180}
+                                    />
+                                  )}
+                                  {src?.kind === 'merge' && (
+                                    <>
+                                      <MultiSelect
+                                        size="xs"
+                                        placeholder="Columns"
+                                        value={src.columns}
+                                        onChange={(columns) => setSource(i, target, { ...src, columns })}
+                                        data={headerOptions}
+                                        w={220}
+                                      />
+                                      <TextInput
+                                        size="xs"
+                                        aria-label="Separator"
+                                        value={src.separator}
+                                        onChange={(e) => setSource(i, target, { ...src, separator: e.currentTarget.value })}
+                                        w={50}
+                                      />
+                                    </>
+                                  )}
+                                  {src?.kind === 'split' && (
+                                    <>
+                                      <Select
+                                        size="xs"
+                                        placeholder="Column"
+                                        value={src.column || null}
+                                        onChange={(v) => setSource(i, target, { ...src, column: v ?? '' })}
+                                        data={headerOptions}
+                                        w={150}
+                                      />
+                                      <TextInput
+                                        size="xs"
+                                        aria-label="Split on"
+                                        value={src.separator}
+                                        onChange={(e) => setSource(i, target, { ...src, separator: e.currentTarget.value })}
+                                        w={50}
+                                      />
+                                      <NumberInput
+                                        size="xs"
+                                        aria-label="Part"
+                                        min={1}
+                                        value={src.part + 1}
+                                        onChange={(v) => setSource(i, target, { ...src, part: Math.max(0, Number(v) - 1 || 0) })}
+                                        w={60}
+                                      />
+                                    </>
+                                  )}
+                                </Group>
+                              </Table.Td>
+                              <Table.Td>
+                                <Text size="xs" c="dimmed" lineClamp={1} maw={200}>
+                                  {src ? String(resolveSource(sample, src) ?? '') : '∅'}
+                                </Text>
+                              </Table.Td>
+                            </Table.Tr>
+                          );
+                        })}
+                      </Table.Tbody>
+                    </Table>
+                  </ScrollArea>
+                )}
+
+                {unused.length > 0 && (
+                  <Text size="xs" c="dimmed" mt="xs">Kept as extra columns: {unused.join(', ')}</Text>
+                )}
+              </Tabs.Panel>
+            );
+          })}
+        </Tabs>
+
+        <Group justify="space-between">
+          {canRemember ? (
+            <Checkbox
+              label="Remember this mapping for files with the same headers"
+              checked={remember}
+              onChange={(e) => setRemember(e.currentTarget.checked)}
+            />
+          ) : <span />}
+          <Group>
+            {missingRequired && <Text size="xs" c="orange">Some required columns are unmapped</Text>}
+            <Button variant="subtle" color="gray" onClick={onCancel}>Cancel upload</Button>
+            <Button onClick={() => onConfirm(mappings.map((m) => (m ? cleanup(m) : null)), canRemember && remember)}>
+              Apply mapping
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
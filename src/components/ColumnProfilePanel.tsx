@@ -0,0 +1,123 @@
+// src/components/ColumnProfilePanel.tsx
+'use client';
+
+import { useMemo } from 'react';
+import { Paper, Accordion, Group, Text, Badge, Stack, Progress, Code, Tooltip, Box, ScrollArea } from '@mantine/core';
+import type { EntityKey } from '@/store/useDataStore';
+import { useValidationProfileStore } from '@/store/useValidationProfileStore';
+import { ColumnProfile, HistogramBin, formatStat, profileColumns } from '@/utils/columnProfile';
+import { DateSettings, resolveDateSettings } from '@/utils/dates';
+
+interface Props {
+  entity: EntityKey;
+  rows: Record<string, any>[];
+}
+
+function Histogram({ bins, fmt }: { bins: HistogramBin[]; fmt: (n: number) => string }) {
+  const peak = Math.max(1, ...bins.map((b) => b.count));
+  return (
+    <Group gap={2} align="flex-end" h={40} wrap="nowrap">
+      {bins.map((b, i) => (
+        <Tooltip key={i} label={`${fmt(b.from)}${b.to !== b.from ? ` – ${fmt(b.to)}` : ''}: ${b.count}`} withinPortal>
+          <Box
+            style={{
+              flex: 1,
+              height: `${Math.max(4, (b.count / peak) * 100)}%`,
+              background: b.count ? 'var(--mantine-color-blue-5)' : 'var(--mantine-color-gray-2)',
+              borderRadius: 2,
+            }}
+          />
+        </Tooltip>
+      ))}
+    </Group>
+  );
+}
+
+function ColumnDetails({ p, dates }: { p: ColumnProfile; dates: DateSettings }) {
+  const filled = p.count - p.nulls;
+  const fmt = (n: number) => formatStat(p, n, dates);
+  return (
+    <Stack gap="xs">
+      {p.stats && (
+        <div>
+          <Text size="xs" c="dimmed">
+            min {fmt(p.stats.min)} · max {fmt(p.stats.max)}{p.type === 'number' ? ` · mean ${fmt(p.stats.mean)}` : ''}
+          </Text>
+          <Histogram bins={p.stats.histogram} fmt={fmt} />
+        </div>
+      )}
+
+      <div>
+        <Text size="xs" fw={500}>Most frequent</Text>
+        {p.top.map((t) => (
+          <Group key={t.value} gap="xs" wrap="nowrap">
+            <Text size="xs" ff="monospace" truncate w={120} title={t.value}>{t.value}</Text>
+            <Progress value={(t.count / Math.max(1, filled)) * 100} size="sm" style={{ flex: 1 }} />
+            <Text size="xs" c="dimmed" w={28} ta="right">{t.count}</Text>
+          </Group>
+        ))}
+      </div>
+
+      <div>
+        <Text size="xs" c="dimmed">
+          length {p.length.min}–{p.length.max} chars · mean {+p.length.mean.toFixed(1)}
+        </Text>
+        {p.length.min !== p.length.max && <Histogram bins={p.length.histogram} fmt={(n) => String(Math.round(n))} />}
+      </div>
+
+      {p.patterns.length > 0 && (
+        <div>
+          <Text size="xs" fw={500}>Patterns</Text>
+          {p.patterns.map((x) => (
+            <Group key={x.pattern} gap="xs">
+              <Code>{x.pattern}</Code>
+              <Text size="xs" c="dimmed">{Math.round((x.count / Math.max(1, filled)) * 100)}%</Text>
+            </Group>
+          ))}
+        </div>
+      )}
+    </Stack>
+  );
+}
+
+export default function ColumnProfilePanel({ entity, rows }: Props) {
+  const dateProfile = useValidationProfileStore((s) => s.profile.dates);
+  const dates = useMemo(() => resolveDateSettings(dateProfile), [dateProfile]);
+  const profiles = useMemo(() => profileColumns(rows, { dates }), [rows, dates]);
+
+  return (
+    <Paper withBorder p="sm">
+      <Group justify="space-between" mb="xs">
+        <Text size="sm" fw={600}>Column profile</Text>
+        <Text size="xs" c="dimmed">{rows.length} {entity}</Text>
+      </Group>
+      {profiles.length === 0 ? (
+        <Text size="sm" c="dimmed">No rows to profile.</Text>
+      ) : (
+        <ScrollArea.Autosize mah={560}>
+          <Accordion multiple variant="contained" chevronPosition="left">
+            {profiles.map((p) => (
+              <Accordion.Item key={p.name} value={p.name}>
+                <Accordion.Control>
+                  <Group gap={6} wrap="nowrap">
+                    <Text size="sm" fw={500} truncate>{p.name}</Text>
+                    <Badge size="xs" variant="outline" color="gray">{p.type}</Badge>
+                    {p.nulls > 0 && (
+                      <Badge size="xs" variant="light" color={p.nullRate > 0.2 ? 'red' : 'yellow'}>
+                        {Math.round(p.nullRate * 100)}% blank
+                      </Badge>
+                    )}
+                    <Badge size="xs" variant="light" color="gray">{p.distinct} distinct</Badge>
+                  </Group>
+                </Accordion.Control>
+                <Accordion.Panel>
+                  <ColumnDetails p={p} dates={dates} />
+                </Accordion.Panel>
+              </Accordion.Item>
+            ))}
+          </Accordion>
+        </ScrollArea.Autosize>
+      )}
+    </Paper>
+  );
+}
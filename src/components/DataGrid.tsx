@@ -17,13 +17,15 @@ import {
 import { IconAlertTriangle, IconEdit, IconCheck, IconX } from '@tabler/icons-react';
 import { useValidationStore } from '../store/useValidationStore';
 import { useDataStore } from '../store/useDataStore';
-import { validateAllData } from '../utils/validators';
+import { useHistoryStore } from '../store/useHistoryStore';
+import { requestValidation } from '../utils/validationRunner';
 
 type EntityType = 'clients' | 'workers' | 'tasks';
 
 interface Props {
   rowData: any[];
   entityType: EntityType;
+  columns?: string[] | null;   // projection from a query's `select`; the ID column always stays
 }
 
 interface ColumnDef {
@@ -39,13 +41,13 @@ interface EditingCell {
   field: string;
 }
 
-export default function DataGrid({ rowData, entityType }: Props) {
+export default function DataGrid({ rowData, entityType, columns }: Props) {
   const [editingCell, setEditingCell] = useState<EditingCell | null>(null);
   const [editValue, setEditValue] = useState<string>('');
 
   // Stores
-  const { getErrorsForRow, getErrorsForEntity, setErrors, setValidating } = useValidationStore();
-  const { clients, workers, tasks, setClients, setWorkers, setTasks } = useDataStore();
+  const { getErrorsForRow, getErrorsForEntity } = useValidationStore();
+  const commit = useHistoryStore((s) => s.commit);
 
   // All errors for this entity
   const entityErrors = getErrorsForEntity(entityType);
@@ -82,8 +84,6 @@ export default function DataGrid({ rowData, entityType }: Props) {
     if (!editingCell) return;
     const { rowIndex, field } = editingCell;
 
-    // Clone current data for this entity
-    const updatedData = [...rowData];
     let parsedValue: any = editValue;
 
     // Basic parsing for number-like fields
@@ -104,24 +104,17 @@ export default function DataGrid({ rowData, entityType }: Props) {
       parsedValue = editValue;
     }
 
-    updatedData[rowIndex] = { ...updatedData[rowIndex], [field]: parsedValue };
+    // rowData may be a filtered view: locate the same row object in the base array
+    const base = useDataStore.getState()[entityType] as any[];
+    const baseIndex = base.indexOf(rowData[rowIndex]);
+    // Stale view (row replaced or removed since it was rendered): nothing safe to write
+    if (baseIndex < 0) return cancelEditing();
 
-    // Write back to the correct store
-    if (entityType === 'clients') setClients(updatedData);
-    if (entityType === 'workers') setWorkers(updatedData);
-    if (entityType === 'tasks') setTasks(updatedData);
-
-    // Trigger validation with updated entity snapshot
-    setTimeout(() => {
-      setValidating(true);
-      const finalClients = entityType === 'clients' ? updatedData : clients;
-      const finalWorkers = entityType === 'workers' ? updatedData : workers;
-      const finalTasks = entityType === 'tasks' ? updatedData : tasks;
-
-      const validationErrors = validateAllData(finalClients, finalWorkers, finalTasks);
-      setErrors(validationErrors);
-      setValidating(false);
-    }, 250);
+    // Undoable write, then re-run only the checks that read this field
+    const entry = commit(`Edit ${field}`, [
+      { entity: entityType, rowIndex: baseIndex, field, value: parsedValue },
+    ]);
+    if (entry) requestValidation(undefined, { changes: [{ entity: entityType, field }] });
 
     cancelEditing();
   };
@@ -165,6 +158,13 @@ export default function DataGrid({ rowData, entityType }: Props) {
     ];
   }, [rowData, entityType]);
 
+  const visibleColumns: ColumnDef[] = useMemo(() => {
+    if (!columns?.length) return columnDefs;
+    const picked = columns.map((f) => columnDefs.find((c) => c.field === f) ?? { field: f, header: f, width: 150 });
+    const pinned = columnDefs.filter((c) => c.pinned && !columns.includes(c.field));
+    return [...pinned, ...picked];
+  }, [columnDefs, columns]);
+
   // Cell renderer with validation
   const renderCell = (row: any, rowIdx: number, column: ColumnDef) => {
     const value = row?.[column.field];
@@ -314,7 +314,7 @@ export default function DataGrid({ rowData, entityType }: Props) {
           <Table.Thead>
             <Table.Tr>
               <Table.Th style={{ minWidth: 50 }}>#</Table.Th>
-              {columnDefs.map((col) => (
+              {visibleColumns.map((col) => (
                 <Table.Th key={col.field} style={{ minWidth: col.width ?? 150 }}>
                   <Group gap="xs">
                     {col.header}
@@ -355,7 +355,7 @@ export default function DataGrid({ rowData, entityType }: Props) {
                     </Group>
                   </Table.Td>
 
-                  {columnDefs.map((col) => (
+                  {visibleColumns.map((col) => (
                     <Table.Td key={`${rowIndex}-${col.field}`}>
                       {renderCell(row, rowIndex, col)}
                     </Table.Td>
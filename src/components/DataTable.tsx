@@ -1,6 +1,6 @@
 // Renders an editable AG Grid table for the given entity and rows.
-// On edit, it calls patchRow(entity, rowIndex, patch) so both the base
-// and (if visible) filtered views stay in sync.
+// On edit, it commits the cell through useHistoryStore so the change is undoable
+// and both the base and (if visible) filtered views stay in sync.
 
 'use client';
 import { useMemo, useRef } from 'react';
@@ -9,6 +9,8 @@ import type { ColDef, CellValueChangedEvent } from 'ag-grid-community';
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-alpine.css';
 import { useDataStore } from '@/store/useDataStore';
+import { useHistoryStore } from '@/store/useHistoryStore';
+import { requestValidation } from '@/utils/validationRunner';
 
 interface Props {
   entity: 'clients' | 'workers' | 'tasks';
@@ -16,7 +18,7 @@ interface Props {
 }
 
 export default function DataTable({ entity, rows }: Props) {
-  const patchRow = useDataStore((s) => s.patchRow);
+  const commit = useHistoryStore((s) => s.commit);
   const gridRef = useRef<AgGridReact>(null);
 
   // Build columns from the first row's keys
@@ -35,9 +37,14 @@ export default function DataTable({ entity, rows }: Props) {
   const defaultColDef: ColDef = useMemo(() => ({ sortable: true, flex: 1, minWidth: 120 }), []);
 
   function onCellValueChanged(e: CellValueChangedEvent<any>) {
-    const idx = e.node.rowIndex ?? 0;
     const field = e.colDef.field as string;
-    patchRow(entity, idx, { [field]: e.newValue });
+    // Display index differs from the base index once the grid is sorted/filtered
+    const base = useDataStore.getState()[entity] as any[];
+    const idx = base.indexOf(e.data);
+    if (idx < 0) return;
+    // AG Grid has already written newValue into e.data, so pass the old value explicitly
+    const entry = commit(`Edit ${field}`, [{ entity, rowIndex: idx, field, value: e.newValue, before: e.oldValue }]);
+    if (entry) requestValidation(undefined, { changes: [{ entity, field }] });
   }
 
   return (
@@ -0,0 +1,146 @@
+// src/components/DateSettingsPanel.tsx
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Group, Text, Stack, Select, TagsInput, TextInput, Button, ActionIcon, Badge, Paper } from '@mantine/core';
+import { IconTrash, IconPlus } from '@tabler/icons-react';
+import { useValidationProfileStore } from '@/store/useValidationProfileStore';
+import { DateColumn, TemporalType, formatDate, parseDuration, resolveDateSettings, resolveInstant } from '@/utils/dates';
+import type { DataEntity } from '@/utils/validatorRegistry';
+
+const EMPTY: DateColumn = { entity: 'clients', field: '', type: 'date' };
+
+// Zones offered in the picker; the runtime list when available
+const timezones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? ['Europe/London', 'Europe/Berlin', 'America/New_York', 'Asia/Kolkata'];
+  return ['UTC', 'local', ...zones.filter((z) => z !== 'UTC')];
+};
+
+export default function DateSettingsPanel() {
+  const dates = useValidationProfileStore((s) => s.profile.dates);
+  const setDates = useValidationProfileStore((s) => s.setDates);
+  const settings = resolveDateSettings(dates);
+  const columns = dates?.columns ?? [];
+  const zoneOptions = useMemo(timezones, []);
+
+  const [draft, setDraft] = useState<DateColumn>(EMPTY);
+  const isDuration = draft.type === 'duration';
+  // min / max must be a date, a relative instant or (duration columns) a duration
+  const boundError = (v?: string) =>
+    !v?.trim() ? null
+      : (isDuration ? parseDuration(v) : resolveInstant(v, settings)) === null
+        ? (isDuration ? 'Not a duration' : 'Not a date or relative date')
+        : null;
+  const canAdd = !!draft.field.trim() && !boundError(draft.min) && !boundError(draft.max);
+
+  const add = () => {
+    if (!canAdd) return;
+    setDates({ columns: [...columns.filter((c) => !(c.entity === draft.entity && c.field === draft.field.trim())), draft] });
+    setDraft(EMPTY);
+  };
+
+  return (
+    <Stack gap="xs" mt="md">
+      <div>
+        <Text size="sm" fw={600}>Dates and durations</Text>
+        <Text size="xs" c="dimmed">
+          Formats and timezone used by search, sorting and the date checks. Today is {formatDate(Date.now(), settings)} in {settings.timezone}.
+        </Text>
+      </div>
+
+      <Group align="flex-end" gap="sm">
+        <Select
+          size="xs"
+          w={200}
+          label="Timezone"
+          searchable
+          data={zoneOptions}
+          value={settings.timezone}
+          onChange={(tz) => tz && setDates({ timezone: tz })}
+        />
+        <TagsInput
+          size="xs"
+          style={{ flex: 1 }}
+          label="Date formats (first match wins; ISO always accepted)"
+          description="Tokens: YYYY MM M DD D, optionally followed by a time (HH:mm)"
+          value={settings.formats}
+          onChange={(formats) => setDates({ formats })}
+        />
+      </Group>
+
+      <Text size="xs" fw={500}>Date columns</Text>
+      {columns.length === 0 && (
+        <Text size="xs" c="dimmed">None configured. Date-like keys in AttributesJSON are still checked for valid dates.</Text>
+      )}
+      {columns.map((c) => (
+        <Paper key={`${c.entity}.${c.field}`} withBorder p={6}>
+          <Group justify="space-between" wrap="nowrap">
+            <Group gap="xs">
+              <Badge size="xs" variant="light">{c.entity}</Badge>
+              <Text size="sm" ff="monospace">{c.field}</Text>
+              <Badge size="xs" variant="outline" color="gray">{c.type}</Badge>
+              {(c.min || c.max) && (
+                <Text size="xs" c="dimmed">{c.min ?? '…'} → {c.max ?? '…'}</Text>
+              )}
+            </Group>
+            <ActionIcon
+              size="sm"
+              variant="subtle"
+              color="red"
+              aria-label={`Remove ${c.field}`}
+              onClick={() => setDates({ columns: columns.filter((x) => x !== c) })}
+            >
+              <IconTrash size={14} />
+            </ActionIcon>
+          </Group>
+        </Paper>
+      ))}
+
+      <Group align="flex-start" gap="xs">
+        <Select
+          size="xs"
+          w={110}
+          aria-label="Entity"
+          data={['clients', 'workers', 'tasks']}
+          value={draft.entity}
+          onChange={(e) => e && setDraft({ ...draft, entity: e as DataEntity })}
+        />
+        <TextInput
+          size="xs"
+          w={200}
+          placeholder="Column or AttributesJSON.key"
+          value={draft.field}
+          onChange={(e) => setDraft({ ...draft, field: e.currentTarget.value })}
+        />
+        <Select
+          size="xs"
+          w={110}
+          aria-label="Type"
+          data={['date', 'datetime', 'duration']}
+          value={draft.type}
+          onChange={(t) => t && setDraft({ ...draft, type: t as TemporalType })}
+        />
+        <TextInput
+          size="xs"
+          w={140}
+          placeholder={isDuration ? 'min, e.g. 1h' : 'min, e.g. 1 year ago'}
+          value={draft.min ?? ''}
+          error={boundError(draft.min)}
+          onChange={(e) => setDraft({ ...draft, min: e.currentTarget.value })}
+        />
+        <TextInput
+          size="xs"
+          w={140}
+          placeholder={isDuration ? 'max, e.g. 5 days' : 'max, e.g. today'}
+          value={draft.max ?? ''}
+          error={boundError(draft.max)}
+          onChange={(e) => setDraft({ ...draft, max: e.currentTarget.value })}
+        />
+        <Button size="xs" variant="light" leftSection={<IconPlus size={14} />} disabled={!canAdd} onClick={add}>
+          Add
+        </Button>
+      </Group>
+    </Stack>
+  );
+}
@@ -1,7 +1,7 @@
 // src/components/FileUploader.tsx
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import {
   Card,
   Group,
@@ -17,41 +17,100 @@ import {
 } from '@mantine/core';
 import { IconFileSpreadsheet, IconFiles, IconCheck, IconAlertTriangle, IconDownload } from '@tabler/icons-react';
 
-import { useDataStore } from '@/store/useDataStore';
+import { useDataStore, EntityKey } from '@/store/useDataStore';
+import { useAllocationStore } from '@/store/useAllocationStore';
+import { useHistoryStore } from '@/store/useHistoryStore';
 import { useValidationStore } from '@/store/useValidationStore';
-import { validateAllData } from '@/utils/validators';
-
-import type { ParsedData } from '@/utils/parseFile';
-import { parseAnyFile } from '@/utils/parseFile';
+import { useRulesStore } from '@/store/useRulesStore';
+import { useWorkspaceStore } from '@/store/useWorkspaceStore';
+import { RulesArray } from '@/rules/schema';
+import { requestValidation } from '@/utils/validationRunner';
+import { allocationToRows } from '@/utils/allocator';
+import { buildExportPackage } from '@/utils/exportPackage';
+import { ExportPolicy, applyExportPolicy } from '@/utils/exportPolicy';
+import { ExportTable, exportTable, tableToCsv } from '@/utils/exportSchema';
+
+import type { RawSheet } from '@/utils/parseFile';
+import { readRawSheets, finalizeSheets } from '@/utils/parseFile';
+import {
+  ColumnMapping,
+  guessEntity,
+  headerSignature,
+  isIdentityMapping,
+  proposeMapping,
+  sanitizeMapping,
+} from '@/utils/mapping';
+import { isPersistenceAvailable, getColumnMapping, saveColumnMapping } from '@/utils/workspaceDb';
+import ColumnMappingWizard, { MappingDraft } from '@/components/ColumnMappingWizard';
 
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 
 type Mode = 'single' | 'multiple';
-type ExportMode = 'workbook' | 'separate';
+type ExportMode = 'workbook' | 'separate' | 'package';
+
+// Export-ready tables: uploaded columns only, in source order (see utils/exportSchema)
+type Tables = Record<EntityKey, ExportTable>;
+interface ShapedExport {
+  data: Tables;
+  quarantine: Tables | null;
+}
+
+const ENTITY_KEYS: EntityKey[] = ['clients', 'workers', 'tasks'];
+const sheetName = (e: EntityKey) => e[0].toUpperCase() + e.slice(1);
+
+// An upload between reading and applying: one mapping slot per sheet, `review` = sheets shown in the wizard
+interface PendingUpload {
+  sheets: RawSheet[];
+  mappings: (ColumnMapping | null)[];
+  errors: string[];
+  notes: string[];
+  review: number[];
+  saved: number[];     // sheets whose mapping came from a remembered signature
+}
 
 export default function FileUploader() {
   // base setters
   const setClients = useDataStore((s) => s.setClients);
   const setWorkers = useDataStore((s) => s.setWorkers);
   const setTasks   = useDataStore((s) => s.setTasks);
+  const setColumns = useDataStore((s) => s.setColumns);
   const setFiltered = useDataStore((s) => s.setFiltered);
 
   // current data (for export)
   const clients = useDataStore((s) => s.clients);
   const workers = useDataStore((s) => s.workers);
   const tasks   = useDataStore((s) => s.tasks);
-
-  const { setErrors, setValidating } = useValidationStore();
+  const columns = useDataStore((s) => s.columns);
+
+  const allocation = useAllocationStore((s) => s.result);
+  const clearAllocation = useAllocationStore((s) => s.clear);
+  const clearHistory = useHistoryStore((s) => s.clear);
+  const startSession = useWorkspaceStore((s) => s.startSession);
+  const validationErrors = useValidationStore((s) => s.errors);
+  const validationSummary = useValidationStore((s) => s.summary);
+  const isValidating = useValidationStore((s) => s.isValidating);
+  const exportRules = useRulesStore((s) => s.exportRules);
+  const validateRules = useRulesStore((s) => s.validateRulesAgainstData);
 
   const [mode, setMode] = useState<Mode>('single');
   const [busy, setBusy] = useState(false);
   const [status, setStatus] = useState<string>('');
   const [warn, setWarn] = useState<string>('');
 
+  // column mapping
+  const [drafts, setDrafts] = useState<MappingDraft[]>([]);
+  const pending = useRef<PendingUpload | null>(null);
+  const lastUpload = useRef<PendingUpload | null>(null);
+  const canRemember = isPersistenceAvailable();
+
   // export controls
   const [exportMode, setExportMode] = useState<ExportMode>('workbook');
   const [includeRules, setIncludeRules] = useState<boolean>(false);
+  const [allowRuleErrors, setAllowRuleErrors] = useState<boolean>(false);
+  const [policy, setPolicy] = useState<ExportPolicy>('block');
+  const [includeAllocation, setIncludeAllocation] = useState<boolean>(false);
+  const [sourceNames, setSourceNames] = useState<boolean>(false);
 
   const clearViews = () => {
     (['clients', 'workers', 'tasks'] as const).forEach((e) => setFiltered(e, null));
@@ -63,65 +122,70 @@ export default function FileUploader() {
     setWorkers(w);
     setTasks(t);
     clearViews();
+    clearAllocation(); // schedule belongs to the previous dataset
+    clearHistory();    // row indices in old entries don't apply to the new data
+    startSession();    // drops a pending restore offer so it can't overwrite this upload
 
-    setTimeout(() => {
-      setValidating(true);
-      const errs = validateAllData(c, w, t);
-      setErrors(errs);
-      setValidating(false);
-    }, 0);
+    requestValidation({ clients: c, workers: w, tasks: t });
   };
 
-  /** Handle a single file (CSV or Excel workbook). */
-  const handleSingleFile = async (file: File | null) => {
-    if (!file) return;
-    setBusy(true); setWarn(''); setStatus('');
-
-    try {
-      const res = await parseAnyFile(file);
-      applyBaseAndValidate(res.clients, res.workers, res.tasks);
+  /** Apply the (mapped) sheets of an upload and report what was loaded. */
+  const finishUpload = (upload: PendingUpload, mappings: (ColumnMapping | null)[]) => {
+    const res = finalizeSheets(upload.sheets, mappings);
+    const notes = [...upload.errors, ...upload.notes, ...res.errors];
+    lastUpload.current = { ...upload, mappings };
 
-      const counts = `Loaded: ${res.clients.length} clients, ${res.workers.length} workers, ${res.tasks.length} tasks`;
-      setStatus(counts);
-
-      if (res.errors.length) setWarn(`Notes: ${res.errors.join(' • ')}`);
-    } catch (e: unknown) {
-      setWarn(e instanceof Error ? e.message : String(e));
-    } finally {
-      setBusy(false);
+    if (res.clients.length + res.workers.length + res.tasks.length === 0) {
+      setWarn('No recognizable data found. Ensure filenames or headers indicate Clients/Workers/Tasks.');
+      return;
     }
-  };
 
-  /** Handle multiple files (any mix of CSV/XLS/XLSX). */
-  const handleMultipleFiles = async (filesOrNull: File[] | File | null) => {
-    if (!filesOrNull) return;
-    const files = Array.isArray(filesOrNull) ? filesOrNull : [filesOrNull];
-    if (files.length === 0) return;
+    applyBaseAndValidate(res.clients, res.workers, res.tasks);
+    setColumns(res.columns ?? {});
+    setStatus(`Loaded: ${res.clients.length} clients, ${res.workers.length} workers, ${res.tasks.length} tasks`);
+    if (notes.length) setWarn(`Notes: ${notes.join(' • ')}`);
+  };
 
+  /** Read files, propose column mappings and open the wizard if any sheet needs one. */
+  const loadFiles = async (files: File[]) => {
     setBusy(true); setWarn(''); setStatus('');
 
-    const bucket: ParsedData = { clients: [], workers: [], tasks: [], errors: [] };
-
     try {
+      const upload: PendingUpload = { sheets: [], mappings: [], errors: [], notes: [], review: [], saved: [] };
       for (const f of files) {
-        const res = await parseAnyFile(f);
-        bucket.clients.push(...res.clients);
-        bucket.workers.push(...res.workers);
-        bucket.tasks.push(...res.tasks);
-        if (res.errors?.length) bucket.errors.push(...res.errors);
+        const res = await readRawSheets(f);
+        upload.sheets.push(...res.sheets);
+        upload.errors.push(...res.errors);
       }
 
-      if (bucket.clients.length + bucket.workers.length + bucket.tasks.length === 0) {
-        setWarn('No recognizable data found. Ensure filenames or headers indicate Clients/Workers/Tasks.');
-        return;
+      const drafts: MappingDraft[] = [];
+      for (const [i, sheet] of upload.sheets.entries()) {
+        const saved = canRemember
+          ? await getColumnMapping(headerSignature(sheet.headers)).catch(() => null)
+          : null;
+        if (saved) {
+          upload.mappings.push(sanitizeMapping(saved, sheet.headers));
+          upload.saved.push(i);
+          upload.notes.push(`used saved column mapping for ${sheet.source}`);
+          continue;
+        }
+
+        const entity = sheet.entity ?? guessEntity(sheet.headers);
+        const proposal = entity ? proposeMapping(sheet.headers, entity) : null;
+        if (sheet.entity && proposal && isIdentityMapping(proposal.mapping)) {
+          upload.mappings.push(null); // canonical headers, nothing to map
+          continue;
+        }
+        upload.mappings.push(proposal?.mapping ?? null);
+        upload.review.push(i);
+        drafts.push({ sheet, mapping: proposal?.mapping ?? null, scores: proposal?.scores ?? {}, remembered: false });
       }
 
-      applyBaseAndValidate(bucket.clients, bucket.workers, bucket.tasks);
-
-      const counts = `Loaded: ${bucket.clients.length} clients, ${bucket.workers.length} workers, ${bucket.tasks.length} tasks`;
-      setStatus(counts);
-
-      if (bucket.errors.length) setWarn(`Notes: ${bucket.errors.join(' • ')}`);
+      if (drafts.length === 0) finishUpload(upload, upload.mappings);
+      else {
+        pending.current = upload;
+        setDrafts(drafts);
+      }
     } catch (e: unknown) {
       setWarn(e instanceof Error ? e.message : String(e));
     } finally {
@@ -129,6 +193,59 @@ export default function FileUploader() {
     }
   };
 
+  /** Re-open the wizard for the last upload, including mappings that were applied automatically. */
+  const reviewLastMapping = () => {
+    const last = lastUpload.current;
+    if (!last) return;
+    const review = last.sheets.map((_, i) => i);
+    pending.current = { ...last, notes: [], review };
+    setDrafts(last.sheets.map((sheet, i) => {
+      const mapping = last.mappings[i] ?? (sheet.entity ? proposeMapping(sheet.headers, sheet.entity).mapping : null);
+      return { sheet, mapping, scores: {}, remembered: last.saved.includes(i) };
+    }));
+  };
+
+  const confirmMapping = async (reviewed: (ColumnMapping | null)[], remember: boolean) => {
+    const upload = pending.current;
+    pending.current = null;
+    setDrafts([]);
+    if (!upload) return;
+
+    const mappings = [...upload.mappings];
+    upload.review.forEach((sheetIndex, i) => { mappings[sheetIndex] = reviewed[i]; });
+    if (remember) {
+      await Promise.all(
+        upload.review.map((sheetIndex, i) => {
+          const m = reviewed[i];
+          return m
+            ? saveColumnMapping(headerSignature(upload.sheets[sheetIndex].headers), m).catch(() => undefined)
+            : undefined;
+        })
+      );
+    }
+    finishUpload(upload, mappings);
+  };
+
+  const cancelMapping = () => {
+    pending.current = null;
+    setDrafts([]);
+    setStatus('Upload cancelled.');
+  };
+
+  /** Handle a single file (CSV or Excel workbook). */
+  const handleSingleFile = async (file: File | null) => {
+    if (!file) return;
+    await loadFiles([file]);
+  };
+
+  /** Handle multiple files (any mix of CSV/XLS/XLSX). */
+  const handleMultipleFiles = async (filesOrNull: File[] | File | null) => {
+    if (!filesOrNull) return;
+    const files = Array.isArray(filesOrNull) ? filesOrNull : [filesOrNull];
+    if (files.length === 0) return;
+    await loadFiles(files);
+  };
+
   /* ----------------- EXPORTS ----------------- */
 
   const totalRows = useMemo(
@@ -147,49 +264,103 @@ export default function FileUploader() {
     URL.revokeObjectURL(url);
   };
 
-  const exportWorkbook = () => {
+  const exportWorkbook = ({ data, quarantine }: ShapedExport) => {
     const wb = XLSX.utils.book_new();
-    const wsClients = XLSX.utils.json_to_sheet(clients);
-    const wsWorkers = XLSX.utils.json_to_sheet(workers);
-    const wsTasks   = XLSX.utils.json_to_sheet(tasks);
-    XLSX.utils.book_append_sheet(wb, wsClients, 'Clients');
-    XLSX.utils.book_append_sheet(wb, wsWorkers, 'Workers');
-    XLSX.utils.book_append_sheet(wb, wsTasks,   'Tasks');
+    ENTITY_KEYS.forEach((e) =>
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(data[e].rows, { header: data[e].fields }), sheetName(e))
+    );
+    if (includeAllocation && allocation) {
+      const rows = allocationToRows(allocation);
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows.assignments), 'Allocation');
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows.unassigned), 'Unassigned');
+    }
 
     const buf = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
     downloadBlob('spreadsheet-alchemist-data.xlsx', buf, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    if (quarantine) exportQuarantine(quarantine, 'workbook');
   };
 
-  const exportSeparateCSVs = () => {
-    if (clients.length) {
-      const csv = Papa.unparse(clients as any); // data already normalized to validator-friendly strings
-      downloadBlob('clients.csv', csv, 'text/csv;charset=utf-8;');
+  const exportSeparateCSVs = ({ data, quarantine }: ShapedExport) => {
+    ENTITY_KEYS.forEach((e) => {
+      // data already normalized to validator-friendly strings
+      if (data[e].rows.length) downloadBlob(`${e}.csv`, tableToCsv(data[e]), 'text/csv;charset=utf-8;');
+    });
+    if (includeAllocation && allocation) {
+      const rows = allocationToRows(allocation);
+      downloadBlob('allocation.csv', Papa.unparse(rows.assignments), 'text/csv;charset=utf-8;');
+      downloadBlob('unassigned.csv', Papa.unparse(rows.unassigned), 'text/csv;charset=utf-8;');
     }
-    if (workers.length) {
-      const csv = Papa.unparse(workers as any);
-      downloadBlob('workers.csv', csv, 'text/csv;charset=utf-8;');
-    }
-    if (tasks.length) {
-      const csv = Papa.unparse(tasks as any);
-      downloadBlob('tasks.csv', csv, 'text/csv;charset=utf-8;');
+    if (quarantine) exportQuarantine(quarantine, 'separate');
+  };
+
+  // Rejected rows from the "clean rows only" policy, in the same shape as the main export
+  const exportQuarantine = (quarantine: Tables, shape: 'workbook' | 'separate') => {
+    const entities = ENTITY_KEYS.filter((e) => quarantine[e].rows.length);
+    if (!entities.length) return;
+    if (shape === 'separate') {
+      entities.forEach((e) => downloadBlob(`quarantine-${e}.csv`, tableToCsv(quarantine[e]), 'text/csv;charset=utf-8;'));
+      return;
     }
+    const wb = XLSX.utils.book_new();
+    entities.forEach((e) =>
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(quarantine[e].rows, { header: quarantine[e].fields }), sheetName(e))
+    );
+    const buf = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+    downloadBlob('spreadsheet-alchemist-quarantine.xlsx', buf, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
   };
 
-  const getRulesJSON = () => {
-    // Try to read from a global left by your RuleBuilder (optional). Fallback to a minimal placeholder.
-    if (typeof window !== 'undefined') {
-      const w = window as unknown as { rulesJSON?: unknown; __rules?: unknown };
-      if (w.rulesJSON) return w.rulesJSON;
-      if (w.__rules) return w.__rules;
+  /**
+   * Rules package from the rules store (rules, priority weights, validation profile).
+   * Schema failures always block; rules that don't fit the data block unless `allowRuleErrors`.
+   */
+  const prepareRules = (): { pack: ReturnType<typeof exportRules> | null; blocked: string[]; warnings: string[] } => {
+    const pack = exportRules();
+    const parsed = RulesArray.safeParse(pack.rules);
+    if (!parsed.success) {
+      const blocked = parsed.error.issues.map((i) => {
+        const idx = typeof i.path[0] === 'number' ? i.path[0] : -1;
+        const id = idx >= 0 ? (pack.rules[idx] as { id?: string })?.id : undefined;
+        const where = idx >= 0 ? `Rule ${idx + 1}${id ? ` (${id})` : ''}` : 'Rules';
+        return `${where}: ${i.path.slice(1).join('.') || 'rule'} ${i.message}`;
+      });
+      return { pack: null, blocked, warnings: [] };
     }
-    return { rules: [], note: 'No rules store found; placeholder generated.', generatedAt: new Date().toISOString() };
+
+    const issues = validateRules({ clients, workers, tasks });
+    const format = (i: (typeof issues)[number]) => (i.id ? `${i.id}: ${i.message}` : i.message);
+    const errors = issues.filter((i) => i.level === 'error').map(format);
+    const warnings = issues.filter((i) => i.level === 'warning').map(format);
+    if (errors.length && !allowRuleErrors) return { pack: null, blocked: errors, warnings };
+    return { pack: { ...pack, rules: parsed.data }, blocked: [], warnings: [...errors, ...warnings] };
   };
 
-  const exportRulesIfNeeded = () => {
-    if (!includeRules) return;
-    const rules = getRulesJSON();
-    const json = JSON.stringify(rules, null, 2);
-    downloadBlob('rules.json', json, 'application/json');
+  const listNote = (title: string, lines: string[]) =>
+    `${title}: ${lines.slice(0, 3).join('; ')}${lines.length > 3 ? ` (+${lines.length - 3} more)` : ''}`;
+
+
+  // One ZIP: data CSVs, rules.json, validation report and manifest (always includes the rules)
+  const exportPackage = async (rules: unknown, { data, quarantine }: ShapedExport) => {
+    setBusy(true);
+    try {
+      const { zip, manifest } = await buildExportPackage({
+        data,
+        quarantine,
+        policy,
+        rules,
+        errors: validationErrors,
+        summary: validationSummary,
+        allocation: includeAllocation && allocation ? allocationToRows(allocation) : null,
+      });
+      const stamp = manifest.generatedAt.slice(0, 19).replace(/[:T]/g, '-');
+      downloadBlob(`spreadsheet-alchemist-${stamp}.zip`, zip as BlobPart, 'application/zip');
+      const written = manifest.entities.clients + manifest.entities.workers + manifest.entities.tasks;
+      setStatus(`Exported package with ${manifest.files.length} files (${written} rows).`);
+    } catch (e) {
+      console.error('Package export failed:', e);
+      setWarn(`Package export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(false);
+    }
   };
 
   const handleDownload = () => {
@@ -197,9 +368,55 @@ export default function FileUploader() {
       setWarn('Nothing to download yet. Please upload or edit data first.');
       return;
     }
-    if (exportMode === 'workbook') exportWorkbook();
-    else exportSeparateCSVs();
-    exportRulesIfNeeded();
+    // Gating on the errors of a run still in flight could let a freshly broken row through
+    if (isValidating) {
+      setWarn('Validation is still running; download again once it finishes.');
+      return;
+    }
+    setWarn('');
+
+    // Rows still carrying errors: block, annotate or split them off, per the chosen policy
+    const gated = applyExportPolicy({ clients, workers, tasks }, validationErrors, policy);
+    const errorRows = gated.errorRows.clients + gated.errorRows.workers + gated.errorRows.tasks;
+    if (gated.blocked) {
+      // Errors without a row (e.g. a missing required column) are listed by name
+      const general = ENTITY_KEYS.flatMap((e) => gated.datasetErrors[e].map((i) => `${e}: ${i.message}`));
+      const reasons = [
+        errorRows ? `${errorRows} row${errorRows === 1 ? '' : 's'} still ha${errorRows === 1 ? 's' : 've'} validation errors` : '',
+        general.length ? listNote(`${general.length} issue${general.length === 1 ? '' : 's'} not tied to a row`, general) : '',
+      ].filter(Boolean).join('; ');
+      setWarn(
+        `Export blocked: ${reasons}` +
+        `${validationSummary.criticalIssues ? ` (${validationSummary.criticalIssues} critical)` : ''}. ` +
+        'Fix them, or choose to annotate issues or export clean rows only.'
+      );
+      return;
+    }
+
+    const shape = (rows: Record<EntityKey, Record<string, any>[]>): Tables => ({
+      clients: exportTable(rows.clients, 'clients', columns.clients, sourceNames),
+      workers: exportTable(rows.workers, 'workers', columns.workers, sourceNames),
+      tasks: exportTable(rows.tasks, 'tasks', columns.tasks, sourceNames),
+    });
+    const shaped: ShapedExport = { data: shape(gated.data), quarantine: gated.quarantine ? shape(gated.quarantine) : null };
+
+    // Rules are checked first so a blocked export writes nothing at all
+    const withRules = includeRules || exportMode === 'package';
+    const rules = withRules ? prepareRules() : null;
+    if (rules?.blocked.length) {
+      setWarn(listNote('Export blocked, fix the rules first', rules.blocked));
+      return;
+    }
+    if (rules?.warnings.length) setWarn(listNote('Rules exported with issues', rules.warnings));
+
+    if (exportMode === 'package') {
+      void exportPackage(rules!.pack, shaped);
+      return;
+    }
+    if (exportMode === 'workbook') exportWorkbook(shaped);
+    else exportSeparateCSVs(shaped);
+    if (gated.quarantine && errorRows) setStatus(`Exported clean rows; ${errorRows} rows with errors went to the quarantine file.`);
+    if (rules?.pack) downloadBlob('rules.json', JSON.stringify(rules.pack, null, 2), 'application/json');
   };
 
   return (
@@ -247,6 +464,11 @@ export default function FileUploader() {
           <Button variant="light" disabled={busy} onClick={() => { setStatus(''); setWarn(''); }}>
             Clear messages
           </Button>
+          {lastUpload.current?.mappings.some(Boolean) && (
+            <Button variant="subtle" disabled={busy} onClick={reviewLastMapping}>
+              Review column mapping
+            </Button>
+          )}
         </Group>
 
         {status && (
@@ -261,9 +483,17 @@ export default function FileUploader() {
         )}
 
         <Text size="xs" c="dimmed">
-          Auto-detects entity by filename (e.g., <i>clients.csv</i>) or headers (<code>ClientID</code>, <code>WorkerID</code>, <code>TaskID</code>). Validator runs right after upload.
+          Auto-detects entity by filename (e.g., <i>clients.csv</i>) or headers (<code>ClientID</code>, <code>WorkerID</code>, <code>TaskID</code>). Non-standard headers open a column-mapping step. Validator runs right after upload.
         </Text>
 
+        <ColumnMappingWizard
+          opened={drafts.length > 0}
+          drafts={drafts}
+          canRemember={canRemember}
+          onCancel={cancelMapping}
+          onConfirm={confirmMapping}
+        />
+
         {/* Export section */}
         <Divider my="sm" />
         <Group justify="space-between">
@@ -278,20 +508,61 @@ export default function FileUploader() {
             data={[
               { label: 'Single Excel (3 sheets)', value: 'workbook' },
               { label: 'Separate CSVs', value: 'separate' },
+              { label: 'ZIP package', value: 'package' },
             ]}
           />
         </Group>
 
-        <Group justify="space-between">
-          <Checkbox
-            checked={includeRules}
-            onChange={(e) => setIncludeRules(e.currentTarget.checked)}
-            label="Also download rules.json"
+        <Group gap="sm">
+          <Text size="sm">Rows with validation errors:</Text>
+          <SegmentedControl
+            size="xs"
+            value={policy}
+            onChange={(v) => setPolicy(v as ExportPolicy)}
+            data={[
+              { label: 'Block export', value: 'block' },
+              { label: 'Add _issues column', value: 'annotate' },
+              { label: 'Clean rows + quarantine', value: 'clean' },
+              { label: 'Export as is', value: 'allow' },
+            ]}
           />
+          {validationSummary.totalErrors > 0 && (
+            <Badge variant="light" color="red">{validationSummary.totalErrors} errors</Badge>
+          )}
+        </Group>
+
+        <Group justify="space-between">
+          <Group>
+            <Checkbox
+              checked={includeRules || exportMode === 'package'}
+              onChange={(e) => setIncludeRules(e.currentTarget.checked)}
+              disabled={exportMode === 'package'}
+              label={exportMode === 'package' ? 'rules.json, validation report and manifest included' : 'Also download rules.json'}
+            />
+            {(includeRules || exportMode === 'package') && (
+              <Checkbox
+                checked={allowRuleErrors}
+                onChange={(e) => setAllowRuleErrors(e.currentTarget.checked)}
+                label="Export even if rules have errors"
+              />
+            )}
+            <Checkbox
+              checked={sourceNames}
+              onChange={(e) => setSourceNames(e.currentTarget.checked)}
+              label="Use original column names"
+            />
+            <Checkbox
+              checked={includeAllocation}
+              onChange={(e) => setIncludeAllocation(e.currentTarget.checked)}
+              disabled={!allocation}
+              label="Include allocation"
+            />
+          </Group>
           <Button
             leftSection={<IconDownload size={16} />}
             onClick={handleDownload}
-            disabled={busy || totalRows === 0}
+            disabled={busy || isValidating || totalRows === 0}
+            loading={isValidating}
           >
             Download
           </Button>
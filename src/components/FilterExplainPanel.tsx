@@ -0,0 +1,123 @@
+// src/components/FilterExplainPanel.tsx
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Paper, Group, Text, Badge, Select, Stack, SegmentedControl, Alert, Box } from '@mantine/core';
+import { IconCircleCheck, IconCircleX, IconInfoCircle } from '@tabler/icons-react';
+import { EntityKey, ID_FIELD } from '@/store/useDataStore';
+import { explainFilter, exclusionReasons, ExplainNode, FilterContext, FilterNode } from '@/utils/dsl';
+import { formatFilter } from '@/utils/queryLang';
+
+type Props = {
+  entity: EntityKey;
+  rows: any[];
+  filter: FilterNode;
+  ctx: FilterContext;
+  /** The filter before the "matches nothing" softening retry, when that retry changed it. */
+  softenedFrom?: FilterNode | null;
+};
+
+const label = (n: FilterNode) =>
+  n.op === 'and' ? 'all of' : n.op === 'or' ? 'any of' : n.op === 'not' ? 'not' : formatFilter(n);
+
+export default function FilterExplainPanel({ entity, rows, filter, ctx, softenedFrom }: Props) {
+  const [which, setWhich] = useState<'applied' | 'original'>('applied');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const active = which === 'original' && softenedFrom ? softenedFrom : filter;
+  const ex = useMemo(() => explainFilter(rows, active, ctx), [rows, active, ctx]);
+
+  const matchedSet = useMemo(() => new Set(ex.matched), [ex]);
+  const options = useMemo(
+    () => rows.map((r, i) => ({
+      value: String(i),
+      label: `${r?.[ID_FIELD[entity]] ?? `row ${i + 1}`} ${matchedSet.has(r) ? '✓' : '✗'}`,
+    })),
+    [rows, entity, matchedSet]
+  );
+  const row = selected !== null ? rows[Number(selected)] : undefined;
+  const truth = row ? ex.results.get(row) : undefined;
+  const reasons = row ? exclusionReasons(ex, row) : [];
+  const reasonIds = new Set(reasons.map((r) => r.id));
+
+  const renderNode = (e: ExplainNode, depth: number) => {
+    const ok = truth?.[e.id];
+    const color = e.matched === ex.total ? 'teal' : e.matched === 0 ? 'red' : 'gray';
+    return (
+      <Box key={e.id}>
+        <Group
+          gap="xs"
+          wrap="nowrap"
+          pl={depth * 18}
+          py={2}
+          style={reasonIds.has(e.id) ? { background: 'var(--mantine-color-red-light)', borderRadius: 4 } : undefined}
+        >
+          {truth && (ok
+            ? <IconCircleCheck size={14} color="var(--mantine-color-teal-6)" />
+            : <IconCircleX size={14} color="var(--mantine-color-red-6)" />)}
+          <Text size="sm" ff={e.children.length || e.node.op === 'not' ? undefined : 'monospace'} fw={e.children.length ? 600 : 400}>
+            {label(e.node)}
+          </Text>
+          <Badge size="xs" variant="light" color={color}>{e.matched} / {ex.total}</Badge>
+        </Group>
+        {e.children.map((c) => renderNode(c, depth + 1))}
+      </Box>
+    );
+  };
+
+  return (
+    <Paper withBorder p="sm">
+      <Stack gap="xs">
+        <Group justify="space-between">
+          <Text size="sm" fw={600}>Why rows matched</Text>
+          <Text size="xs" c="dimmed">Counts show how many {entity} satisfy each clause on its own.</Text>
+        </Group>
+
+        {softenedFrom && (
+          <Alert variant="light" color="yellow" icon={<IconInfoCircle size={16} />} p="xs">
+            <Text size="xs">
+              The filter as understood matched nothing, so exact matches were loosened to “contains”.
+            </Text>
+            <SegmentedControl
+              size="xs"
+              mt={6}
+              value={which}
+              onChange={(v) => setWhich(v as 'applied' | 'original')}
+              data={[
+                { value: 'applied', label: 'Applied filter' },
+                { value: 'original', label: 'Before loosening' },
+              ]}
+            />
+          </Alert>
+        )}
+
+        <Box>{renderNode(ex.root, 0)}</Box>
+
+        <Group align="flex-end" gap="sm">
+          <Select
+            size="xs"
+            w={220}
+            label="Explain a row"
+            placeholder={`Pick a ${entity.slice(0, -1)}`}
+            searchable
+            clearable
+            limit={100}
+            data={options}
+            value={selected}
+            onChange={setSelected}
+          />
+          {row && (reasons.length === 0
+            ? <Badge color="teal" variant="light">Matched</Badge>
+            : (
+              <Stack gap={2}>
+                <Text size="xs" c="dimmed">Excluded by:</Text>
+                {reasons.map((r) => (
+                  <Text key={r.id} size="xs" ff="monospace" c="red">{formatFilter(r.node)}</Text>
+                ))}
+              </Stack>
+            ))}
+        </Group>
+      </Stack>
+    </Paper>
+  );
+}
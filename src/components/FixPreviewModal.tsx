@@ -0,0 +1,142 @@
+// src/components/FixPreviewModal.tsx
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Modal, Table, Checkbox, Select, Text, Group, Button, Badge, ScrollArea, Stack } from '@mantine/core';
+import { useDataStore } from '@/store/useDataStore';
+import type { ValidationError } from '@/store/useValidationStore';
+import { CellFix, groupFixes, locateRow } from '@/utils/fixCandidates';
+
+export interface ApprovedFix {
+  cell: CellFix;
+  value: string | number;
+}
+
+interface Props {
+  opened: boolean;
+  onClose: () => void;
+  /** e.g. "Fix All" or "Fix in ETL clients"; also the history label */
+  title: string;
+  errors: ValidationError[];
+  onApply: (fixes: ApprovedFix[]) => void;
+}
+
+const cellText = (v: unknown) => (v === undefined || v === null || v === '' ? '(empty)' : String(v));
+
+export default function FixPreviewModal({ opened, onClose, title, errors, onApply }: Props) {
+  const cells = useMemo(() => groupFixes(errors), [errors]);
+  const data = useDataStore();
+
+  // Every cell approved with its top candidate until the user says otherwise
+  const [approved, setApproved] = useState<Set<string>>(new Set());
+  const [choice, setChoice] = useState<Record<string, number>>({});
+  useEffect(() => {
+    if (!opened) return;
+    setApproved(new Set(cells.map((c) => c.key)));
+    setChoice({});
+  }, [opened, cells]);
+
+  const before = (c: CellFix) => {
+    const rows = data[c.entity] as any[];
+    const i = locateRow(rows, c);
+    return i >= 0 ? rows[i]?.[c.field] : undefined;
+  };
+
+  const toggle = (key: string) =>
+    setApproved((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+
+  const apply = () => {
+    onApply(
+      cells
+        .filter((c) => approved.has(c.key))
+        .map((c) => ({ cell: c, value: c.candidates[choice[c.key] ?? 0].value }))
+    );
+    onClose();
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={`${title}: review fixes`} size="xl">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Text size="sm" c="dimmed">
+            {cells.length} cell{cells.length === 1 ? '' : 's'} in {new Set(cells.map((c) => `${c.entity}:${c.entityId}`)).size} rows.
+            Pick a fix per cell or untick the ones to leave alone.
+          </Text>
+          <Group gap="xs">
+            <Button size="xs" variant="subtle" onClick={() => setApproved(new Set(cells.map((c) => c.key)))}>All</Button>
+            <Button size="xs" variant="subtle" color="gray" onClick={() => setApproved(new Set())}>None</Button>
+          </Group>
+        </Group>
+
+        <ScrollArea.Autosize mah={480}>
+          <Table striped verticalSpacing={6} fz="sm">
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th w={36} />
+                <Table.Th>Row</Table.Th>
+                <Table.Th>Field</Table.Th>
+                <Table.Th>Before</Table.Th>
+                <Table.Th>After</Table.Th>
+                <Table.Th>Why</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {cells.map((c) => {
+                const picked = c.candidates[choice[c.key] ?? 0];
+                const on = approved.has(c.key);
+                return (
+                  <Table.Tr key={c.key} style={{ opacity: on ? 1 : 0.5 }}>
+                    <Table.Td>
+                      <Checkbox checked={on} onChange={() => toggle(c.key)} aria-label={`Apply fix to ${c.entityId} ${c.field}`} />
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge size="xs" variant="light">{c.entity}</Badge> {c.entityId}
+                    </Table.Td>
+                    <Table.Td>{c.field}</Table.Td>
+                    <Table.Td>
+                      <Text size="xs" ff="monospace" c="red" td="line-through" maw={180} truncate title={cellText(before(c))}>
+                        {cellText(before(c))}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      {c.candidates.length > 1 ? (
+                        <Select
+                          size="xs"
+                          w={200}
+                          allowDeselect={false}
+                          value={String(choice[c.key] ?? 0)}
+                          onChange={(v) => v !== null && setChoice((prev) => ({ ...prev, [c.key]: Number(v) }))}
+                          data={c.candidates.map((x, i) => ({ value: String(i), label: cellText(x.label) }))}
+                          styles={{ input: { fontFamily: 'monospace', color: 'var(--mantine-color-teal-8)' } }}
+                        />
+                      ) : (
+                        <Text size="xs" ff="monospace" c="teal" maw={200} truncate title={cellText(picked.label)}>
+                          {cellText(picked.label)}
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="xs">{picked.rationale}</Text>
+                      {c.errorIds.length > 1 && <Text size="xs" c="dimmed">resolves {c.errorIds.length} issues</Text>}
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea.Autosize>
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose}>Cancel</Button>
+          <Button color="green" onClick={apply} disabled={approved.size === 0}>
+            Apply {approved.size} fix{approved.size === 1 ? '' : 'es'}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
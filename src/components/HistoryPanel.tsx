@@ -0,0 +1,79 @@
+// src/components/HistoryPanel.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { Card, Group, Text, Button, Badge, ScrollArea, Stack, Kbd } from '@mantine/core';
+import { IconArrowBackUp, IconArrowForwardUp } from '@tabler/icons-react';
+import { useHistoryStore, describeChange, HistoryEntry } from '@/store/useHistoryStore';
+
+const MAX_LINES = 3; // changes listed per entry before "+N more"
+
+function EntryRow({ entry, undone }: { entry: HistoryEntry; undone?: boolean }) {
+  return (
+    <div style={{ opacity: undone ? 0.5 : 1 }}>
+      <Group gap="xs">
+        <Text size="sm" fw={500} td={undone ? 'line-through' : undefined}>{entry.label}</Text>
+        <Badge size="xs" variant="light">{entry.changes.length} cell{entry.changes.length === 1 ? '' : 's'}</Badge>
+        <Text size="xs" c="dimmed">{new Date(entry.at).toLocaleTimeString()}</Text>
+      </Group>
+      {entry.changes.slice(0, MAX_LINES).map((c, i) => (
+        <Text key={i} size="xs" c="dimmed" ml="sm">{describeChange(c)}</Text>
+      ))}
+      {entry.changes.length > MAX_LINES && (
+        <Text size="xs" c="dimmed" ml="sm">+{entry.changes.length - MAX_LINES} more</Text>
+      )}
+    </div>
+  );
+}
+
+export default function HistoryPanel() {
+  const { past, future, undo, redo, clear } = useHistoryStore();
+
+  // Ctrl/Cmd+Z = undo, Ctrl/Cmd+Shift+Z or Ctrl+Y = redo. Text fields keep their native undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo]);
+
+  return (
+    <Card withBorder radius="md" p="md">
+      <Group justify="space-between">
+        <div>
+          <Text fw={600}>History</Text>
+          <Text size="sm" c="dimmed">
+            Edits and fixes, newest first. <Kbd size="xs">Ctrl</Kbd>+<Kbd size="xs">Z</Kbd> undo,{' '}
+            <Kbd size="xs">Ctrl</Kbd>+<Kbd size="xs">Shift</Kbd>+<Kbd size="xs">Z</Kbd> redo.
+          </Text>
+        </div>
+        <Group>
+          <Button variant="light" leftSection={<IconArrowBackUp size={16} />} disabled={!past.length} onClick={undo}>
+            Undo
+          </Button>
+          <Button variant="light" leftSection={<IconArrowForwardUp size={16} />} disabled={!future.length} onClick={redo}>
+            Redo
+          </Button>
+          <Button variant="subtle" color="gray" disabled={!past.length && !future.length} onClick={clear}>
+            Clear
+          </Button>
+        </Group>
+      </Group>
+
+      {past.length + future.length > 0 && (
+        <ScrollArea h={200} mt="md">
+          <Stack gap="xs">
+            {[...future].reverse().map((e) => <EntryRow key={e.id} entry={e} undone />)}
+            {[...past].reverse().map((e) => <EntryRow key={e.id} entry={e} />)}
+          </Stack>
+        </ScrollArea>
+      )}
+    </Card>
+  );
+}
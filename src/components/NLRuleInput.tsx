@@ -5,6 +5,15 @@ import { Card, Textarea, Button, Group, Text, Stack, Badge } from "@mantine/core
 import { useRulesStore } from "@/store/useRulesStore";
 import { Rule } from "@/rules/schema";
 
+const FALLBACK_LABELS: Record<string, string> = {
+  unavailable: "not configured or unreachable",
+  timeout: "timed out",
+  http_error: "request failed",
+  invalid_json: "unreadable answer",
+  schema_mismatch: "answer failed validation",
+  empty: "no rules returned",
+};
+
 type Props = {
   data: { clients: any[]; workers: any[]; tasks: any[] };
 };
@@ -13,6 +22,9 @@ export default function NLRuleInput({ data }: Props) {
   const [text, setText] = useState("");
   const [loading, setLoading] = useState(false);
   const [preview, setPreview] = useState<Rule[] | null>(null);
+  const [sources, setSources] = useState<string[]>([]);
+  const [unparsed, setUnparsed] = useState<string[]>([]);
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
   const addMany = useRulesStore((s) => s.addMany);
 
   async function convert() {
@@ -28,6 +40,9 @@ export default function NLRuleInput({ data }: Props) {
       const json = await res.json();
       if (!res.ok) throw new Error(json?.error || "Failed to convert");
       setPreview(json.rules as Rule[]);
+      setSources(Array.isArray(json.sources) ? json.sources : []);
+      setUnparsed(Array.isArray(json.unparsed) ? json.unparsed : []);
+      setFallbackReason(json.fallbackReason ?? null);
     } catch (e: any) {
       alert(e?.message ?? "Conversion failed");
     } finally {
@@ -39,6 +54,7 @@ export default function NLRuleInput({ data }: Props) {
     if (!preview?.length) return;
     addMany(preview);
     setPreview(null);
+    setUnparsed([]);
     setText("");
   }
 
@@ -66,18 +82,31 @@ export default function NLRuleInput({ data }: Props) {
         {preview && (
           <Stack gap="xs">
             <Text size="sm" fw={600}>Preview</Text>
+            {fallbackReason && (
+              <Text size="xs" c="dimmed">
+                AI answer not used ({FALLBACK_LABELS[fallbackReason] ?? fallbackReason}) — parsed offline instead.
+              </Text>
+            )}
             {preview.length === 0 && <Text size="sm">No rules recognized.</Text>}
-            {preview.map((r) => (
+            {preview.map((r, i) => (
               <Card key={r.id} withBorder padding="sm" radius="sm">
                 <Group gap="xs">
                   <Badge variant="light">{r.type}</Badge>
                   <Text size="sm">priority: {r.priority}</Text>
+                  {sources[i] && (
+                    <Badge variant="outline" size="sm" color={sources[i] === "grammar" ? "gray" : "violet"}>
+                      {sources[i] === "grammar" ? "offline parser" : `AI · ${sources[i]}`}
+                    </Badge>
+                  )}
                 </Group>
                 <Text size="sm" mt={6}>
                   {JSON.stringify(r)}
                 </Text>
               </Card>
             ))}
+            {unparsed.length > 0 && (
+              <Text size="xs" c="orange">Not understood: {unparsed.map((u) => `“${u}”`).join(", ")}</Text>
+            )}
           </Stack>
         )}
       </Stack>
@@ -2,18 +2,31 @@
 'use client';
 
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { Button, Group, Text, TextInput, Tooltip, Loader, Stack, Badge } from '@mantine/core';
+import { Button, Group, Text, TextInput, Textarea, Tooltip, Loader, Stack, Badge, Paper, Mark } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import { IconX } from '@tabler/icons-react';
+import { IconX, IconCode, IconListSearch } from '@tabler/icons-react';
 import { useDataStore, EntityKey } from '@/store/useDataStore';
-import { applyFilter, FilterNode } from '@/utils/dsl';
+import { useViewsStore } from '@/store/useViewsStore';
+import { useValidationProfileStore } from '@/store/useValidationProfileStore';
+import { applyFilter, isPlainFilter, resultRows, runQuery, FilterContext, Query, QueryResult } from '@/utils/dsl';
+import { formatFilter, parseQuery, unknownColumns } from '@/utils/queryLang';
+import { relationsFor } from '@/utils/relations';
 import { inferSchema } from '@/utils/schema';
+import { resolveDateSettings } from '@/utils/dates';
+import { profileColumns, profileSummary } from '@/utils/columnProfile';
 import { repairFilter as clientRepairFilter } from '@/utils/filterRepair';
 import { clientHeuristic } from '@/utils/nlClientHeuristic';
 import AiShimmer from './AiShimmer';
+import FilterExplainPanel from './FilterExplainPanel';
 
 // simple in-memory cache per session
-const aiCache = new Map<string, FilterNode>();
+const aiCache = new Map<string, Query>();
+
+// "12 matches" for row results, "4 groups" for grouped ones
+const describe = (r: QueryResult) =>
+  r.kind === 'rows'
+    ? `${r.rows.length} match${r.rows.length === 1 ? '' : 'es'}`
+    : `${r.groups.length} group${r.groups.length === 1 ? '' : 's'}`;
 
 type Props = {
   activeEntity: EntityKey;
@@ -30,11 +43,50 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
   const stepRef = useRef(0);
   const stepTimer = useRef<any>(null);
 
+  // Query editor: the compiled filter as text, editable and re-runnable
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [queryText, setQueryText] = useState('');
+  const [lastQuery, setLastQuery] = useState<Query | null>(null);
+  // Explain mode: per-clause match counts for the applied filter (and the pre-softening one, if any)
+  const [explainOpen, setExplainOpen] = useState(false);
+  const [softenedFrom, setSoftenedFrom] = useState<Query['filter'] | null>(null);
+
   const setFiltered = useDataStore((s) => s.setFiltered);
-  const baseRows = useDataStore((s) =>
-    activeEntity === 'clients' ? s.clients : activeEntity === 'workers' ? s.workers : s.tasks
+  const clients = useDataStore((s) => s.clients);
+  const workers = useDataStore((s) => s.workers);
+  const tasks = useDataStore((s) => s.tasks);
+  const baseRows = activeEntity === 'clients' ? clients : activeEntity === 'workers' ? workers : tasks;
+  const dateProfile = useValidationProfileStore((s) => s.profile.dates);
+  const dates = useMemo(() => resolveDateSettings(dateProfile), [dateProfile]);
+  const schema = useMemo(() => inferSchema(baseRows, 4, dates), [baseRows, dates]); // 4 samples → smaller prompt
+
+  // Relational ops (any/all) look at the other entities too
+  const ctx: FilterContext = useMemo(
+    () => ({ entity: activeEntity, data: { clients, workers, tasks } as FilterContext['data'], dates }),
+    [activeEntity, clients, workers, tasks, dates]
   );
-  const schema = useMemo(() => inferSchema(baseRows, 4), [baseRows]); // 4 samples → smaller prompt
+  // Null rates, ranges, frequent values and ID shapes: richer column context for the AI
+  const profile = useMemo(() => profileSummary(profileColumns(baseRows, { dates }), dates), [baseRows, dates]);
+  const related = useMemo(() => {
+    const out: Partial<Record<EntityKey, ReturnType<typeof inferSchema>>> = {};
+    relationsFor(activeEntity).forEach((r) => { out[r.to] ??= inferSchema(ctx.data[r.to], 4, dates); });
+    return out;
+  }, [activeEntity, ctx, dates]);
+
+  // A compiled query belongs to the entity it was built for
+  useEffect(() => {
+    setQueryText('');
+    setLastQuery(null);
+    setSoftenedFrom(null);
+  }, [activeEntity]);
+
+  // Opening a saved view puts its query in the editor
+  const currentView = useViewsStore((s) => s.current[activeEntity]);
+  useEffect(() => {
+    if (!currentView?.viewId) return;
+    setLastQuery(currentView.query);
+    setQueryText(currentView.query.filter ? formatFilter(currentView.query.filter) : '');
+  }, [currentView]);
 
   // Warm up AI once (loads model so first real call is faster)
   useEffect(() => {
@@ -56,6 +108,33 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
     return () => stepTimer.current && clearInterval(stepTimer.current);
   }, [loading]);
 
+  const parsed = useMemo(() => (queryText.trim() ? parseQuery(queryText) : null), [queryText]);
+  const unknownCols = useMemo(
+    () => (parsed?.ok ? unknownColumns(parsed.node, schema.map((s) => s.name)) : []),
+    [parsed, schema]
+  );
+
+  // Show what a query compiled to; sort / limit / grouping are kept when the text is re-run
+  function showCompiled(query: Query) {
+    setLastQuery(query);
+    setQueryText(query.filter ? formatFilter(query.filter) : '');
+    setEditorOpen(true);
+  }
+
+  function runEditor() {
+    if (!parsed?.ok) return;
+    if (!baseRows?.length) return pulse('🤖 Load some data first.', 'gray');
+    const query: Query = { ...(lastQuery ?? {}), filter: parsed.node };
+    const result = runQuery(baseRows as any[], query, ctx);
+    setLastQuery(query);
+    setSoftenedFrom(null);
+    setFiltered(activeEntity, resultRows(result));
+    setStatus(`Query: ${describe(result)}.`);
+    onApply?.(activeEntity, {
+      source: 'query', kind: isPlainFilter(query) ? 'filter' : 'query', filter: query.filter, query, result, rows: resultRows(result),
+    });
+  }
+
   function cacheKey(text: string) {
     const cols = schema.map((s) => s.name).join(',');
     return `${activeEntity}::${cols}::${text.trim().toLowerCase()}`;
@@ -67,23 +146,27 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
     if (!baseRows?.length) return pulse('🤖 Load some data first.', 'gray');
     if (!schema.length) return pulse('🤖 I couldn’t infer the schema yet.', 'gray');
 
+    setSoftenedFrom(null);
+
     // 0) Cache hit?
     const key = cacheKey(text);
     if (aiCache.has(key)) {
       const cached = aiCache.get(key)!;
-      const subset = applyFilter(baseRows as any[], cached);
-      setFiltered(activeEntity, subset);
-      popOk(`⚡ Instant (cached): ${subset.length} match${subset.length === 1 ? '' : 'es'}`);
-      setStatus(`🤖 Cached: ${subset.length} match${subset.length === 1 ? '' : 'es'}.`);
-      onApply?.(activeEntity, { source: 'cache', filter: cached });
+      const result = runQuery(baseRows as any[], cached, ctx);
+      setFiltered(activeEntity, resultRows(result));
+      popOk(`⚡ Instant (cached): ${describe(result)}`);
+      setStatus(`🤖 Cached: ${describe(result)}.`);
+      showCompiled(cached);
+      onApply?.(activeEntity, { source: 'cache', filter: cached.filter, query: cached, result, rows: resultRows(result) });
       return;
     }
 
     // 1) Instant preview with client heuristic (optimistic)
     const quick = clientHeuristic(activeEntity, text, schema as any);
     if (quick) {
-      const preview = applyFilter(baseRows as any[], quick);
+      const preview = applyFilter(baseRows as any[], quick, ctx);
       setFiltered(activeEntity, preview);
+      setLastQuery({ filter: quick as Query['filter'] });   // stays explainable if the AI call fails
       popInfo(`⚡ Instant preview: ${preview.length} match${preview.length === 1 ? '' : 'es'}`);
     }
 
@@ -93,7 +176,7 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
       const res = await fetch('/api/nl', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ entity: activeEntity, text, schema }),
+        body: JSON.stringify({ entity: activeEntity, text, schema, related, profile }),
       });
 
       const ct = res.headers.get('content-type') || '';
@@ -106,28 +189,29 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
         return;
       }
 
-      if (payload.kind !== 'filter' || !payload.filter) {
+      const query: Query | null = payload.query ?? (payload.filter ? { filter: payload.filter } : null);
+      if (!query || (payload.kind !== 'filter' && payload.kind !== 'query')) {
         if (!quick) pulse('🤖 I couldn’t shape a filter from that. Try something simpler.', 'red');
         return;
       }
 
-      // 3) Apply AI filter
-      let node: FilterNode = payload.filter;
-      let subset = applyFilter(baseRows as typeof baseRows, node);
-
-      // 4) Soft fallback if zero
-      if (subset.length === 0) {
-        const softened = clientRepairFilter(node as any, schema as any, { soften: true });
-        subset = applyFilter(baseRows as any[], softened);
-        node = softened;
+      // 3) Soft fallback if the filter matches nothing
+      if (query.filter && applyFilter(baseRows as any[], query.filter, ctx).length === 0) {
+        const original = query.filter;
+        query.filter = clientRepairFilter(query.filter as any, schema as any, {
+          soften: true, entity: activeEntity, related: related as any,
+        }) as Query['filter'];
+        if (JSON.stringify(original) !== JSON.stringify(query.filter)) setSoftenedFrom(original);
       }
 
-      // 5) Cache and show result
-      aiCache.set(key, node);
-      setFiltered(activeEntity, subset);
-      popOk(`🤖 AI found ${subset.length} match${subset.length === 1 ? '' : 'es'}`);
-      setStatus(`🤖 Done: ${subset.length} match${subset.length === 1 ? '' : 'es'}.`);
-      onApply?.(activeEntity, payload);
+      // 4) Sort / limit / group, cache and show result
+      const result = runQuery(baseRows as any[], query, ctx);
+      aiCache.set(key, query);
+      setFiltered(activeEntity, resultRows(result));
+      popOk(`🤖 AI found ${describe(result)}`);
+      setStatus(`🤖 Done: ${describe(result)}.`);
+      showCompiled(query);
+      onApply?.(activeEntity, { ...payload, query, result, rows: resultRows(result) });
     } catch {
       if (!quick) pulse('🤖 Network hiccup. Please try again.', 'red');
     } finally {
@@ -139,6 +223,9 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
     setFiltered(activeEntity, null);
     setQ('');
     setStatus(null);
+    setQueryText('');
+    setLastQuery(null);
+    setSoftenedFrom(null);
     notifications.hide('ai-info');
     notifications.hide('ai-ok');
   }
@@ -176,8 +263,76 @@ export default function NLSearchBar({ activeEntity, onApply, onClear }: Props) {
         <Button variant="light" color="gray" onClick={clear} leftSection={<IconX size={16} />}>
           Clear
         </Button>
+        <Tooltip label="Read or edit the filter as a query">
+          <Button
+            variant={editorOpen ? 'filled' : 'light'}
+            color="gray"
+            onClick={() => setEditorOpen((o) => !o)}
+            leftSection={<IconCode size={16} />}
+          >
+            Query
+          </Button>
+        </Tooltip>
+        <Tooltip label="Why did rows match or miss?">
+          <Button
+            variant={explainOpen ? 'filled' : 'light'}
+            color="gray"
+            onClick={() => setExplainOpen((o) => !o)}
+            leftSection={<IconListSearch size={16} />}
+          >
+            Explain
+          </Button>
+        </Tooltip>
       </Group>
 
+      {editorOpen && (
+        <Paper withBorder p="sm">
+          <Textarea
+            label="Query"
+            description='e.g. Duration >= 2 and RequiredSkills has "ml" — Ctrl+Enter to run'
+            placeholder={schema[0] ? `${schema[0].name} = "…"` : ''}
+            value={queryText}
+            onChange={(e) => setQueryText(e.currentTarget.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); runEditor(); }
+            }}
+            autosize
+            minRows={2}
+            styles={{ input: { fontFamily: 'monospace' } }}
+            error={parsed && !parsed.ok ? parsed.error.message : undefined}
+          />
+          {parsed && !parsed.ok && (
+            <Text size="sm" ff="monospace" mt={4} style={{ whiteSpace: 'pre-wrap' }}>
+              {queryText.slice(0, parsed.error.from)}
+              <Mark color="red">{queryText.slice(parsed.error.from, parsed.error.to) || ' '}</Mark>
+              {queryText.slice(parsed.error.to)}
+            </Text>
+          )}
+          {unknownCols.length > 0 && (
+            <Text size="xs" c="orange" mt={4}>Unknown column{unknownCols.length === 1 ? '' : 's'}: {unknownCols.join(', ')}</Text>
+          )}
+          {lastQuery && !isPlainFilter({ ...lastQuery, filter: undefined }) && (
+            <Text size="xs" c="dimmed" mt={4}>Sorting, limit and grouping from the last search are kept.</Text>
+          )}
+          <Group justify="flex-end" mt="xs">
+            <Button size="xs" onClick={runEditor} disabled={!parsed?.ok}>Run query</Button>
+          </Group>
+        </Paper>
+      )}
+
+      {explainOpen && (lastQuery?.filter ? (
+        <FilterExplainPanel
+          key={JSON.stringify([activeEntity, lastQuery.filter, softenedFrom])}
+          entity={activeEntity}
+          rows={baseRows as any[]}
+          filter={lastQuery.filter}
+          ctx={ctx}
+          softenedFrom={softenedFrom}
+        />
+      ) : (
+        <Text size="sm" c="dimmed">Run a search or a query to see how its filter matched each row.</Text>
+      ))}
+
       {loading && <AiShimmer />}
 
       {status && (
@@ -0,0 +1,130 @@
+// src/components/PrioritiesPanel.tsx
+'use client';
+
+import { useState } from 'react';
+import { Card, Group, Text, Stack, Slider, SegmentedControl, Select, Badge, Button, Paper, ScrollArea } from '@mantine/core';
+import { IconGripVertical } from '@tabler/icons-react';
+import { usePrioritiesStore, PRESETS, PresetKey, PriorityMode } from '@/store/usePrioritiesStore';
+import { OBJECTIVES, ObjectiveKey, normalizeWeights, pairKey } from '@/utils/scoring';
+
+const LABEL: Record<ObjectiveKey, string> = Object.fromEntries(OBJECTIVES.map((o) => [o.key, o.label])) as any;
+
+export default function PrioritiesPanel() {
+  const { weights, mode, preset, pairwise, ranking, setWeight, applyPreset, setMode, setPairwise, setRanking, reset } =
+    usePrioritiesStore();
+  const [dragKey, setDragKey] = useState<ObjectiveKey | null>(null);
+
+  const share = normalizeWeights(weights);
+
+  const pairs: [ObjectiveKey, ObjectiveKey][] = [];
+  OBJECTIVES.forEach((a, i) => OBJECTIVES.slice(i + 1).forEach((b) => pairs.push([a.key, b.key])));
+
+  const onDrop = (target: ObjectiveKey) => {
+    if (!dragKey || dragKey === target) return;
+    // Dragging down lands after the target, dragging up before it, so both ends are reachable
+    const down = ranking.indexOf(dragKey) < ranking.indexOf(target);
+    const next = ranking.filter((k) => k !== dragKey);
+    next.splice(next.indexOf(target) + (down ? 1 : 0), 0, dragKey);
+    setRanking(next);
+    setDragKey(null);
+  };
+
+  return (
+    <Card withBorder radius="md" p="md">
+      <Group justify="space-between">
+        <div>
+          <Text fw={600}>Priorities</Text>
+          <Text size="sm" c="dimmed">Weight the trade-offs the allocator and fix suggestions optimise for.</Text>
+        </div>
+        <Group>
+          <Select
+            placeholder="Preset…"
+            value={preset === 'custom' ? null : preset}
+            onChange={(v) => v && applyPreset(v as PresetKey)}
+            data={(Object.keys(PRESETS) as PresetKey[]).map((k) => ({ value: k, label: PRESETS[k].label }))}
+            w={220}
+          />
+          <SegmentedControl
+            value={mode}
+            onChange={(v) => setMode(v as PriorityMode)}
+            data={[
+              { label: 'Sliders', value: 'sliders' },
+              { label: 'Pairwise', value: 'pairwise' },
+              { label: 'Rank', value: 'rank' },
+            ]}
+          />
+          <Button variant="subtle" color="gray" onClick={reset}>Reset</Button>
+        </Group>
+      </Group>
+
+      <Stack gap="sm" mt="md">
+        {mode === 'sliders' &&
+          OBJECTIVES.map((o) => (
+            <div key={o.key}>
+              <Group justify="space-between">
+                <Text size="sm" fw={500} title={o.description}>{o.label}</Text>
+                <Badge variant="light">{Math.round(share[o.key] * 100)}%</Badge>
+              </Group>
+              <Slider value={weights[o.key]} onChange={(v) => setWeight(o.key, v)} min={0} max={100} step={5} />
+            </div>
+          ))}
+
+        {mode === 'pairwise' && (
+          <ScrollArea h={320}>
+            <Stack gap="md">
+              {pairs.map(([a, b]) => {
+                const direct = pairwise[pairKey(a, b)];
+                const inverse = pairwise[pairKey(b, a)];
+                const value = direct ?? (inverse !== undefined ? -inverse : 0);
+                return (
+                  <div key={`${a}-${b}`}>
+                    <Group justify="space-between">
+                      <Text size="xs" fw={value > 0 ? 600 : 400}>{LABEL[a]}</Text>
+                      <Text size="xs" fw={value < 0 ? 600 : 400}>{LABEL[b]}</Text>
+                    </Group>
+                    {/* left = a more important, right = b more important */}
+                    <Slider
+                      value={-value}
+                      onChange={(v) => setPairwise(a, b, -v)}
+                      min={-8}
+                      max={8}
+                      step={1}
+                      label={(v) => (v === 0 ? 'equal' : `${Math.abs(v) + 1}×`)}
+                    />
+                  </div>
+                );
+              })}
+            </Stack>
+          </ScrollArea>
+        )}
+
+        {mode === 'rank' && (
+          <Stack gap={6}>
+            <Text size="xs" c="dimmed">Drag to reorder — top is most important.</Text>
+            {ranking.map((k, i) => (
+              <Paper
+                key={k}
+                withBorder
+                p="xs"
+                draggable
+                onDragStart={() => setDragKey(k)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => onDrop(k)}
+                onDragEnd={() => setDragKey(null)}
+                style={{ cursor: 'grab', opacity: dragKey === k ? 0.5 : 1 }}
+              >
+                <Group justify="space-between">
+                  <Group gap="xs">
+                    <IconGripVertical size={14} />
+                    <Text size="sm">{i + 1}. {LABEL[k]}</Text>
+                  </Group>
+                  <Badge variant="light">{Math.round(share[k] * 100)}%</Badge>
+                </Group>
+              </Paper>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+// src/components/QueryResultView.tsx
+'use client';
+
+import { useState } from 'react';
+import { Paper, Table, Text, Group, Badge, Button, ScrollArea } from '@mantine/core';
+import type { QueryResult, QueryGroup } from '@/utils/dsl';
+
+type GroupedResult = Extract<QueryResult, { kind: 'groups' }>;
+
+interface Props {
+  result: GroupedResult;
+  /** Show only this group's rows in the grid (null = all groups). */
+  onSelectGroup?: (rows: any[] | null) => void;
+}
+
+const fmt = (v: unknown) => {
+  if (v === null || v === undefined || v === '') return '∅';
+  if (typeof v === 'number' && !Number.isInteger(v)) return v.toFixed(2);
+  return String(v);
+};
+
+export default function QueryResultView({ result, onSelectGroup }: Props) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const pick = (i: number, g: QueryGroup) => {
+    const next = selected === i ? null : i;
+    setSelected(next);
+    onSelectGroup?.(next === null ? null : g.rows);
+  };
+
+  return (
+    <Paper withBorder p="sm" mb="md">
+      <Group justify="space-between" mb="xs">
+        <Group gap="xs">
+          <Text fw={600} size="sm">Grouped result</Text>
+          <Badge variant="light">{result.groups.length} group{result.groups.length === 1 ? '' : 's'}</Badge>
+          {result.groupBy.length > 0 && (
+            <Text size="xs" c="dimmed">by {result.groupBy.join(', ')}</Text>
+          )}
+        </Group>
+        {selected !== null && (
+          <Button size="xs" variant="subtle" onClick={() => { setSelected(null); onSelectGroup?.(null); }}>
+            Show all groups
+          </Button>
+        )}
+      </Group>
+
+      <ScrollArea.Autosize mah={320}>
+        <Table striped highlightOnHover>
+          <Table.Thead>
+            <Table.Tr>
+              {result.groupBy.map((f) => <Table.Th key={f}>{f}</Table.Th>)}
+              {result.aggregates.map((a) => <Table.Th key={a}>{a}</Table.Th>)}
+              <Table.Th>Rows</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {result.groups.map((g, i) => (
+              <Table.Tr
+                key={i}
+                onClick={() => pick(i, g)}
+                style={{ cursor: 'pointer', backgroundColor: selected === i ? '#e7f5ff' : undefined }}
+              >
+                {result.groupBy.map((f) => <Table.Td key={f}>{fmt(g.key[f])}</Table.Td>)}
+                {result.aggregates.map((a) => <Table.Td key={a}>{fmt(g.values[a])}</Table.Td>)}
+                <Table.Td>{g.rows.length}</Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </ScrollArea.Autosize>
+
+      <Text size="xs" c="dimmed" mt="xs">Click a group to show its rows in the grid below.</Text>
+    </Paper>
+  );
+}
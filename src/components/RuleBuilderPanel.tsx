@@ -1,9 +1,13 @@
 "use client";
 
-import { Card, Group, Text, Button, Stack, List, ThemeIcon, Badge, Space } from "@mantine/core";
-import { IconCheck } from "@tabler/icons-react";
+import { useState } from "react";
+import { Card, Group, Text, Button, Stack, List, ThemeIcon, Badge, Space, SegmentedControl, FileButton } from "@mantine/core";
+import { IconCheck, IconUpload } from "@tabler/icons-react";
 import { useRulesStore } from "@/store/useRulesStore";
 import NLRuleInput from "@/components/NLRuleInput";
+import RulesImportModal from "@/components/RulesImportModal";
+import { patternMatchRows } from "@/rules/conditions";
+import { ParsedRules, RulesFormat, detectRulesFormat, parseRules, serializeRules } from "@/rules/serialize";
 
 type Props = {
   data: { clients: any[]; workers: any[]; tasks: any[] };
@@ -23,11 +27,21 @@ export default function RuleBuilderPanel({ data }: Props) {
   const remove = useRulesStore((s) => s.remove);
   const validate = useRulesStore((s) => s.validateRulesAgainstData);
 
+  const [format, setFormat] = useState<RulesFormat>("json");
+  const [imported, setImported] = useState<{ fileName: string; parsed: ParsedRules } | null>(null);
+
   const issues = validate(data);
 
   function onExport() {
     const pack = exportRules();
-    download("rules.json", JSON.stringify(pack, null, 2));
+    if (format === "yaml") download("rules.yaml", serializeRules(pack, "yaml"), "application/yaml");
+    else download("rules.json", serializeRules(pack, "json"));
+  }
+
+  async function onImportFile(file: File | null) {
+    if (!file) return;
+    const text = await file.text();
+    setImported({ fileName: file.name, parsed: parseRules(text, detectRulesFormat(text, file.name)) });
   }
 
   return (
@@ -44,6 +58,20 @@ export default function RuleBuilderPanel({ data }: Props) {
             <Badge color={issues.some(i => i.level === "error") ? "red" : "green"}>
               {issues.length} validation {issues.length === 1 ? "issue" : "issues"}
             </Badge>
+            <FileButton onChange={onImportFile} accept=".json,.yaml,.yml,application/json,application/yaml">
+              {(props) => (
+                <Button {...props} variant="subtle" leftSection={<IconUpload size={14} />}>Import rules</Button>
+              )}
+            </FileButton>
+            <SegmentedControl
+              size="xs"
+              value={format}
+              onChange={(v) => setFormat(v as RulesFormat)}
+              data={[
+                { value: "json", label: "JSON" },
+                { value: "yaml", label: "YAML" },
+              ]}
+            />
             <Button variant="light" onClick={onExport}>Generate Rules Config</Button>
           </Group>
         </Group>
@@ -57,11 +85,16 @@ export default function RuleBuilderPanel({ data }: Props) {
           }
         >
           {rules.map((r) => (
-            <List.Item key={r.id}>
+            <List.Item key={r.id} data-rule-id={r.id}>
               <Group justify="space-between" wrap="nowrap">
                 <div>
                   <Badge mr="xs" variant="light">{r.type}</Badge>
                   <Text component="span" fw={500}>priority {r.priority}</Text>
+                  {r.type === "patternMatch" && (
+                    <Badge ml="xs" size="sm" variant="outline" color="gray">
+                      applies to {patternMatchRows(r, data).length} {r.where?.entity ?? "tasks"}
+                    </Badge>
+                  )}
                   <Text size="sm" c="dimmed"> — {JSON.stringify(r)}</Text>
                 </div>
                 <Button size="xs" variant="subtle" color="red" onClick={() => remove(r.id)}>Remove</Button>
@@ -79,12 +112,23 @@ export default function RuleBuilderPanel({ data }: Props) {
               {issues.map((i, idx) => (
                 <List.Item key={idx} icon={<ThemeIcon color={i.level === "error" ? "red" : "yellow"} size={16} radius="xl" />}>
                   <Text size="sm" c={i.level === "error" ? "red" : "yellow"}>{i.message}</Text>
+                  {i.ruleIds && i.ruleIds.length > 1 && (
+                    <Group gap={4} mt={2}>
+                      {i.ruleIds.map((id) => <Badge key={id} size="xs" variant="outline">{id}</Badge>)}
+                    </Group>
+                  )}
                 </List.Item>
               ))}
             </List>
           </>
         )}
       </Card>
+
+      <RulesImportModal
+        fileName={imported?.fileName ?? ""}
+        parsed={imported?.parsed ?? null}
+        onClose={() => setImported(null)}
+      />
     </Stack>
   );
 }
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Modal, Stack, Text, Alert, Group, Badge, SegmentedControl, Select, Checkbox, Button, List, ScrollArea } from "@mantine/core";
+import { IconAlertTriangle } from "@tabler/icons-react";
+import { useRulesStore } from "@/store/useRulesStore";
+import { usePrioritiesStore } from "@/store/usePrioritiesStore";
+import { useValidationProfileStore } from "@/store/useValidationProfileStore";
+import { ConflictPolicy, ImportMode, ParsedRules, conflictingIds } from "@/rules/serialize";
+
+type Props = {
+  fileName: string;
+  parsed: ParsedRules | null;
+  onClose: () => void;
+};
+
+const CONFLICT_OPTIONS: { value: ConflictPolicy; label: string }[] = [
+  { value: "keep", label: "Keep current rule" },
+  { value: "overwrite", label: "Use imported rule" },
+  { value: "rename", label: "Import as a copy (new id)" },
+];
+
+export default function RulesImportModal({ fileName, parsed, onClose }: Props) {
+  const current = useRulesStore((s) => s.rules);
+  const importRules = useRulesStore((s) => s.importRules);
+  const importWeights = usePrioritiesStore((s) => s.importWeights);
+  const loadProfile = useValidationProfileStore((s) => s.loadProfile);
+
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [onConflict, setOnConflict] = useState<ConflictPolicy>("keep");
+  const [withPriorities, setWithPriorities] = useState(true);
+  const [withProfile, setWithProfile] = useState(true);
+
+  useEffect(() => {
+    if (!parsed) return;
+    setMode("merge");
+    setOnConflict("keep");
+    setWithPriorities(true);
+    setWithProfile(true);
+  }, [parsed]);
+
+  const conflicts = useMemo(() => (parsed ? conflictingIds(current, parsed.rules) : []), [current, parsed]);
+  const hasPriorities = !!parsed?.priorities;
+  const hasProfile = !!parsed?.validationProfile;
+  const settingsErrors = parsed?.settingsErrors ?? [];
+  // A malformed priorities / profile section blocks the whole import rather than applying part of it
+  const canImport = !!parsed && !parsed.fileError && !settingsErrors.length && (parsed.rules.length > 0 || mode === "replace");
+
+  function onImport() {
+    if (!parsed || !canImport) return;
+    importRules(parsed.rules, mode, onConflict);
+    if (hasPriorities && withPriorities) importWeights(parsed.priorities!);
+    if (hasProfile && withProfile) loadProfile(parsed.validationProfile!);
+    onClose();
+  }
+
+  return (
+    <Modal opened={parsed !== null} onClose={onClose} title={`Import rules from ${fileName}`} size="lg">
+      {parsed && (
+        <Stack gap="sm">
+          {parsed.fileError ? (
+            <Alert color="red" icon={<IconAlertTriangle size={16} />}>{parsed.fileError}</Alert>
+          ) : (
+            <>
+              <Group gap="xs">
+                <Badge color="green" variant="light">{parsed.rules.length} valid</Badge>
+                {parsed.errors.length > 0 && <Badge color="red" variant="light">{parsed.errors.length} rejected</Badge>}
+                {conflicts.length > 0 && <Badge color="yellow" variant="light">{conflicts.length} duplicate ids</Badge>}
+              </Group>
+
+              {settingsErrors.length > 0 && (
+                <Alert color="red" variant="light" title="Priorities or validation profile are malformed; fix the file to import it">
+                  <ScrollArea.Autosize mah={140}>
+                    <List size="sm" spacing={4}>
+                      {settingsErrors.map((m, i) => <List.Item key={i}><Text size="xs">{m}</Text></List.Item>)}
+                    </List>
+                  </ScrollArea.Autosize>
+                </Alert>
+              )}
+
+              {parsed.errors.length > 0 && (
+                <Alert color="red" variant="light" title="These rules will be skipped">
+                  <ScrollArea.Autosize mah={180}>
+                    <List size="sm" spacing={4}>
+                      {parsed.errors.map((e) => (
+                        <List.Item key={e.index}>
+                          <Text size="sm" fw={500}>Rule {e.index + 1}{e.id ? ` (${e.id})` : ""}</Text>
+                          {e.messages.map((m, i) => <Text key={i} size="xs" c="dimmed">{m}</Text>)}
+                        </List.Item>
+                      ))}
+                    </List>
+                  </ScrollArea.Autosize>
+                </Alert>
+              )}
+
+              <SegmentedControl
+                value={mode}
+                onChange={(v) => setMode(v as ImportMode)}
+                data={[
+                  { value: "merge", label: `Merge with current (${current.length})` },
+                  { value: "replace", label: "Replace current rules" },
+                ]}
+              />
+
+              {mode === "merge" && conflicts.length > 0 && (
+                <Group align="flex-end" gap="sm">
+                  <Select
+                    label="When an id already exists"
+                    w={240}
+                    allowDeselect={false}
+                    data={CONFLICT_OPTIONS}
+                    value={onConflict}
+                    onChange={(v) => v && setOnConflict(v as ConflictPolicy)}
+                  />
+                  <Text size="xs" c="dimmed" pb={6}>{conflicts.join(", ")}</Text>
+                </Group>
+              )}
+
+              {(hasPriorities || hasProfile) && (
+                <Group gap="lg">
+                  {hasPriorities && (
+                    <Checkbox
+                      label="Also load priority weights"
+                      checked={withPriorities}
+                      onChange={(e) => setWithPriorities(e.currentTarget.checked)}
+                    />
+                  )}
+                  {hasProfile && (
+                    <Checkbox
+                      label="Also load validation profile"
+                      checked={withProfile}
+                      onChange={(e) => setWithProfile(e.currentTarget.checked)}
+                    />
+                  )}
+                </Group>
+              )}
+            </>
+          )}
+
+          <Group justify="flex-end">
+            <Button variant="default" onClick={onClose}>Cancel</Button>
+            <Button onClick={onImport} disabled={!canImport}>
+              {mode === "replace" ? "Replace rules" : `Import ${parsed.rules.length} rules`}
+            </Button>
+          </Group>
+        </Stack>
+      )}
+    </Modal>
+  );
+}
@@ -13,6 +13,7 @@ import {
   Collapse,
   ActionIcon,
   Divider,
+  Progress,
 } from '@mantine/core';
 import {
   IconAlertTriangle,
@@ -22,42 +23,88 @@ import {
   IconLogicAnd,
   IconExternalLink,
 } from '@tabler/icons-react';
-import { useValidationStore } from '../store/useValidationStore';
-import { useDataStore } from '../store/useDataStore';
-import { validateAllData } from '../utils/validators';
+import { useValidationStore, ValidationError } from '../store/useValidationStore';
+import { useDataStore, ID_FIELD } from '../store/useDataStore';
+import { useHistoryStore, HistoryEdit } from '../store/useHistoryStore';
+import { requestValidation, cancelValidation } from '../utils/validationRunner';
+import { VALIDATOR_BY_CODE, FieldChange } from '../utils/validatorRegistry';
+import { locateRow } from '../utils/fixCandidates';
+import FixPreviewModal, { ApprovedFix } from './FixPreviewModal';
 import { useMemo, useState } from 'react';
 
 type Entity = 'clients' | 'workers' | 'tasks';
 
 interface ValidationPanelProps {
   onJumpToRow?: (entity: Entity, rowIndex: number) => void;
+  /** Scrolls to the rule that raised an error (errors with `ruleId`) */
+  onJumpToRule?: (ruleId: string) => void;
   /** Optional guards to prevent validate loops while applying fixes */
   onBeforeApplyFix?: () => void;
-  onAfterApplyFix?: () => void;
+  /** Receives the fields the fix touched, so only the affected checks need re-running */
+  onAfterApplyFix?: (changes: FieldChange[]) => void;
+  /** Rows of the current (saved or filtered) view; enables "Fix all in view" */
+  scope?: { entity: Entity; label: string; ids: Set<string> } | null;
 }
 
 /* ---------- Stable ID helpers ---------- */
 const getId = (row: any, ent: Entity): string => {
   if (!row) return '';
-  if (ent === 'clients') return String(row.ClientID ?? row.id ?? '');
-  if (ent === 'workers') return String(row.WorkerID ?? row.id ?? '');
-  return String(row.TaskID ?? row.id ?? '');
+  return String(row[ID_FIELD[ent]] ?? row.id ?? '');
 };
 
 const ensureString = (v: any) => (v == null ? '' : String(v));
 
+/* ---------- Ranked fix candidates for one issue ---------- */
+function FixOptions({ error, bg, color, onApply }: {
+  error: ValidationError;
+  bg: string;
+  color: string;
+  onApply: (value: string | number) => void;
+}) {
+  if (!error.fixes?.length) {
+    return (
+      <Paper p="xs" mt="xs" style={{ backgroundColor: bg }}>
+        <Text size="xs" c={color}>
+          🔧 <strong>Suggested fix:</strong> "{String(error.autoFixValue)}"
+        </Text>
+      </Paper>
+    );
+  }
+  return (
+    <Paper p="xs" mt="xs" style={{ backgroundColor: bg }}>
+      <Text size="xs" c={color} fw={600} mb={4}>🔧 Suggested fixes</Text>
+      <Stack gap={4}>
+        {error.fixes.slice(0, 3).map((f, i) => (
+          <Group key={i} gap="xs" wrap="nowrap" justify="space-between">
+            <div style={{ minWidth: 0 }}>
+              <Text size="xs" ff="monospace" truncate title={String(f.value)}>"{f.label}"</Text>
+              <Text size="xs" c="dimmed">{f.rationale} · {Math.round(f.confidence * 100)}%</Text>
+            </div>
+            <Button size="compact-xs" variant={i === 0 ? 'filled' : 'default'} color="green" onClick={() => onApply(f.value)}>
+              Use
+            </Button>
+          </Group>
+        ))}
+      </Stack>
+    </Paper>
+  );
+}
+
 export default function ValidationPanel({
   onJumpToRow,
+  onJumpToRule,
   onBeforeApplyFix,
   onAfterApplyFix,
+  scope,
 }: ValidationPanelProps) {
-  const { errors, summary, isValidating, setErrors, setValidating, removeError } = useValidationStore();
+  const { errors, summary, isValidating, progress, removeError } = useValidationStore();
   const { clients, workers, tasks } = useDataStore();
 
-  const setState = useDataStore.setState; // imperative setter for batched updates
-  const getState = useDataStore.getState; // read latest
+  const getState = useDataStore.getState; // read latest rows when building fixes
+  const commit = useHistoryStore((s) => s.commit);
 
   const [fixingErrors, setFixingErrors] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<{ title: string; errors: ValidationError[] } | null>(null);
   const [expandedSections, setExpandedSections] = useState<{ errors: boolean; warnings: boolean }>({
     errors: true,
     warnings: false,
@@ -90,23 +137,19 @@ export default function ValidationPanel({
   };
 
   /* ---------- Revalidation (with guard hooks) ---------- */
-  const revalidate = () => {
+  const revalidate = (changes: FieldChange[]) => {
     // If parent provided guards, let it handle revalidation
     if (onAfterApplyFix) {
-      onAfterApplyFix();
+      onAfterApplyFix(changes);
       return;
     }
     // Fallback: local revalidation
-    setValidating(true);
-    const s = getState();
-    const nextErrors = validateAllData(s.clients, s.workers, s.tasks);
-    setErrors(nextErrors);
-    setValidating(false);
+    requestValidation(undefined, { changes });
   };
 
-  /* ---------- Single Auto-Fix (ID-based, not rowIndex) ---------- */
-  const applyAutoFix = async (error: any) => {
-    if (error?.autoFixValue === undefined) return;
+  /* ---------- Single Auto-Fix (rowIndex while the ID still matches, else by ID) ---------- */
+  const applyAutoFix = async (error: ValidationError, value = error.autoFixValue) => {
+    if (value === undefined) return;
 
     setFixingErrors((prev) => new Set([...prev, error.id]));
     onBeforeApplyFix?.();
@@ -114,18 +157,13 @@ export default function ValidationPanel({
     try {
       const entity: Entity = error.entity;
       const field: string = ensureString(error.field);
-      // Prefer error.entityId; fallback to base row by provided rowIndex
-      const baseArr = entity === 'clients' ? clients : entity === 'workers' ? workers : tasks;
-      const id = ensureString(error.entityId) || getId(baseArr[error.rowIndex], entity);
-      if (!id) throw new Error('Cannot resolve stable entity ID for auto-fix');
-
-      // Apply patch immutably by ID to the BASE array
-      setState((s) => {
-        const key = entity;
-        const arr = (s as any)[key] as any[];
-        const next = arr.map((r) => (getId(r, entity) === id ? { ...r, [field]: error.autoFixValue } : r));
-        return { [key]: next } as any;
-      });
+      // Duplicate IDs make the ID alone ambiguous, so the error's own row wins while it still matches
+      const arr = getState()[entity] as any[];
+      const entityId = ensureString(error.entityId) || getId(arr[error.rowIndex], entity);
+      const rowIndex = locateRow(arr, { entity, entityId, rowIndex: error.rowIndex });
+      if (rowIndex < 0) throw new Error('Cannot resolve the row for auto-fix');
+
+      commit(`Auto-fix ${field}`, [{ entity, rowIndex, field, value }]);
 
       // Remove just this error; full revalidation will refresh rest
       removeError(error.id);
@@ -137,67 +175,35 @@ export default function ValidationPanel({
         n.delete(error.id);
         return n;
       });
-      revalidate();
+      revalidate([{ entity: error.entity, field: ensureString(error.field) }]);
     }
   };
 
-  /* ---------- Bulk Auto-Fix (batched, single render, single revalidate) ---------- */
-  const applyAllAutoFixes = async () => {
-    const fixable = errors.filter((e) => e.autoFixValue !== undefined);
-    if (fixable.length === 0) return;
+  /* ---------- Bulk Auto-Fix (approved in the preview; single render, single revalidate) ---------- */
+  const applyAllAutoFixes = async (fixes: ApprovedFix[], label = 'Fix All') => {
+    if (fixes.length === 0) return;
+    const errorIds = fixes.flatMap((f) => f.cell.errorIds);
 
     // Visually mark as fixing
-    setFixingErrors(new Set(fixable.map((e) => e.id)));
+    setFixingErrors(new Set(errorIds));
     onBeforeApplyFix?.();
 
     try {
-      // Aggregate patches as: { entity: { id: { field: value, ... } } }
-      const patches: Record<Entity, Record<string, Record<string, any>>> = {
-        clients: {},
-        workers: {},
-        tasks: {},
-      };
-
-      for (const e of fixable) {
-        const entity: Entity = e.entity;
-        const field: string = ensureString(e.field);
-        const baseArr = entity === 'clients' ? clients : entity === 'workers' ? workers : tasks;
-        const id = ensureString(e.entityId) || getId(baseArr[e.rowIndex], entity);
-        if (!id) continue;
-        if (!patches[entity][id]) patches[entity][id] = {};
-        patches[entity][id][field] = e.autoFixValue;
+      // One edit per approved cell, recorded as one history entry
+      const edits: HistoryEdit[] = [];
+      for (const { cell, value } of fixes) {
+        const rowIndex = locateRow(getState()[cell.entity] as any[], cell);
+        if (rowIndex < 0) continue;
+        edits.push({ entity: cell.entity, rowIndex, field: cell.field, value });
       }
-
-      // Single state update for all entities
-      setState((s) => {
-        const next: any = {};
-
-        (['clients', 'workers', 'tasks'] as Entity[]).forEach((ent) => {
-          const arr = (s as any)[ent] as any[];
-          const entPatches = patches[ent];
-          if (!entPatches || Object.keys(entPatches).length === 0) {
-            next[ent] = arr;
-            return;
-          }
-          next[ent] = arr.map((r) => {
-            const id = getId(r, ent);
-            const patch = entPatches[id];
-            return patch ? { ...r, ...patch } : r;
-          });
-        });
-
-        return next;
-      });
-
-      // Remove fixed errors locally to reduce flicker; full revalidation will reconcile
-      // (If your store recomputes errors from scratch, this is optional)
-      // Here we simply rely on revalidation to refresh everything.
+      commit(`${label} (${edits.length} fixes)`, edits);
+      errorIds.forEach(removeError);
     } catch (e) {
       console.error('Fix-all failed:', e);
     } finally {
       // Clear fixing flags
       setFixingErrors(new Set());
-      revalidate();
+      revalidate(fixes.map((f) => ({ entity: f.cell.entity, field: f.cell.field })));
     }
   };
 
@@ -205,10 +211,24 @@ export default function ValidationPanel({
   if (isValidating) {
     return (
       <Paper p="md" withBorder>
-        <Group>
-          <div className="animate-spin">⚙️</div>
-          <Text>Running comprehensive validation...</Text>
+        <Group justify="space-between">
+          <Group>
+            <div className="animate-spin">⚙️</div>
+            <Text>Running comprehensive validation...</Text>
+          </Group>
+          <Button size="xs" variant="subtle" color="gray" onClick={() => cancelValidation()}>
+            Cancel
+          </Button>
         </Group>
+        {progress && progress.total > 0 && (
+          <>
+            <Progress value={(progress.done / progress.total) * 100} mt="sm" animated />
+            <Text size="xs" c="dimmed" mt={4}>
+              {progress.done}/{progress.total} checks
+              {progress.code && ` • ${VALIDATOR_BY_CODE[progress.code].title}`}
+            </Text>
+          </>
+        )}
       </Paper>
     );
   }
@@ -232,6 +252,13 @@ export default function ValidationPanel({
   };
 
   const fixableErrorsCount = errors.filter((e) => e.autoFixValue !== undefined).length;
+  const scopedFixable = scope
+    ? errors.filter((e) => {
+        if (e.autoFixValue === undefined || e.entity !== scope.entity) return false;
+        const baseArr = e.entity === 'clients' ? clients : e.entity === 'workers' ? workers : tasks;
+        return scope.ids.has(ensureString(e.entityId) || getId(baseArr[e.rowIndex], e.entity));
+      })
+    : [];
 
   return (
     <Paper withBorder>
@@ -273,12 +300,23 @@ export default function ValidationPanel({
                   size="xs"
                   color="green"
                   leftSection={<IconLogicAnd size="0.8rem" />}
-                  onClick={applyAllAutoFixes}
+                  onClick={() => setPreview({ title: 'Fix All', errors: errors.filter((e) => e.autoFixValue !== undefined) })}
                   loading={fixingErrors.size > 0}
                 >
                   Fix All ({fixableErrorsCount})
                 </Button>
               )}
+              {scope && scopedFixable.length > 0 && scopedFixable.length < fixableErrorsCount && (
+                <Button
+                  size="xs"
+                  variant="light"
+                  color="green"
+                  onClick={() => setPreview({ title: `Fix in ${scope.label}`, errors: scopedFixable })}
+                  loading={fixingErrors.size > 0}
+                >
+                  Fix in {scope.label} ({scopedFixable.length})
+                </Button>
+              )}
             </Group>
           </Group>
 
@@ -323,6 +361,13 @@ export default function ValidationPanel({
                               {error.entityId} • Row {error.rowIndex + 1}
                             </Badge>
                             <Badge size="xs" variant="outline">{error.field}</Badge>
+                            {error.ruleId && (
+                              <Badge size="xs" variant="light" color="grape">
+                                {error.relatedRuleIds && error.relatedRuleIds.length > 1
+                                  ? `rules ${error.relatedRuleIds.join(', ')}`
+                                  : `rule ${error.ruleId}`}
+                              </Badge>
+                            )}
                           </Group>
                           <Text size="sm" fw={500} mb="xs">{error.message}</Text>
                           {error.suggestion && (
@@ -331,11 +376,7 @@ export default function ValidationPanel({
                             </Text>
                           )}
                           {error.autoFixValue !== undefined && (
-                            <Paper p="xs" style={{ backgroundColor: '#e7f5ff' }}>
-                              <Text size="xs" c="blue">
-                                🔧 <strong>Suggested fix:</strong> "{String(error.autoFixValue)}"
-                              </Text>
-                            </Paper>
+                            <FixOptions error={error} bg="#e7f5ff" color="blue" onApply={(v) => applyAutoFix(error, v)} />
                           )}
                         </div>
                         <Stack gap="xs" align="center" style={{ minWidth: 120 }}>
@@ -349,6 +390,18 @@ export default function ValidationPanel({
                           >
                             Jump to Row
                           </Button>
+                          {error.ruleId && onJumpToRule && (
+                            <Button
+                              size="xs"
+                              variant="light"
+                              color="grape"
+                              leftSection={<IconExternalLink size="0.7rem" />}
+                              onClick={() => onJumpToRule(error.ruleId!)}
+                              fullWidth
+                            >
+                              Jump to Rule
+                            </Button>
+                          )}
                           {error.autoFixValue !== undefined && (
                             <Button
                               size="xs"
@@ -405,17 +458,20 @@ export default function ValidationPanel({
                               {error.entityId} • Row {error.rowIndex + 1}
                             </Badge>
                             <Badge size="xs" variant="outline">{error.field}</Badge>
+                            {error.ruleId && (
+                              <Badge size="xs" variant="light" color="grape">
+                                {error.relatedRuleIds && error.relatedRuleIds.length > 1
+                                  ? `rules ${error.relatedRuleIds.join(', ')}`
+                                  : `rule ${error.ruleId}`}
+                              </Badge>
+                            )}
                           </Group>
                           <Text size="sm" fw={500} mb="xs">{error.message}</Text>
                           {error.suggestion && (
                             <Text size="xs" c="dimmed">💡 {error.suggestion}</Text>
                           )}
                           {error.autoFixValue !== undefined && (
-                            <Paper p="xs" mt="xs" style={{ backgroundColor: '#fff4e6' }}>
-                              <Text size="xs" c="orange">
-                                🔧 <strong>Suggested fix:</strong> "{String(error.autoFixValue)}"
-                              </Text>
-                            </Paper>
+                            <FixOptions error={error} bg="#fff4e6" color="orange" onApply={(v) => applyAutoFix(error, v)} />
                           )}
                         </div>
                         <Stack gap="xs" align="center" style={{ minWidth: 120 }}>
@@ -429,6 +485,18 @@ export default function ValidationPanel({
                           >
                             Jump to Row
                           </Button>
+                          {error.ruleId && onJumpToRule && (
+                            <Button
+                              size="xs"
+                              variant="light"
+                              color="grape"
+                              leftSection={<IconExternalLink size="0.7rem" />}
+                              onClick={() => onJumpToRule(error.ruleId!)}
+                              fullWidth
+                            >
+                              Jump to Rule
+                            </Button>
+                          )}
                           {error.autoFixValue !== undefined && (
                             <Button
                               size="xs"
@@ -456,7 +524,7 @@ export default function ValidationPanel({
         <Paper p="sm" style={{ backgroundColor: '#f8f9fa' }}>
           <Group justify="space-between">
             <Text size="xs" c="dimmed">
-              💡 <strong>How to fix issues:</strong> Use "Auto-fix" for automatic repairs,
+              💡 <strong>How to fix issues:</strong> Use "Auto-fix" for the top suggestion, "Fix All" to review every fix first,
               "Jump to Row" to navigate, or click highlighted cells to edit manually.
             </Text>
             {fixableErrorsCount > 0 && (
@@ -467,6 +535,14 @@ export default function ValidationPanel({
           </Group>
         </Paper>
       </Stack>
+
+      <FixPreviewModal
+        opened={preview !== null}
+        onClose={() => setPreview(null)}
+        title={preview?.title ?? ''}
+        errors={preview?.errors ?? []}
+        onApply={(fixes) => applyAllAutoFixes(fixes, preview?.title)}
+      />
     </Paper>
   );
 }
@@ -0,0 +1,97 @@
+// src/components/ValidationProfilePanel.tsx
+'use client';
+
+import { Card, Group, Text, Stack, Switch, Select, NumberInput, Badge, Button, TextInput, ScrollArea, Paper } from '@mantine/core';
+import { useValidationProfileStore } from '@/store/useValidationProfileStore';
+import { VALIDATORS, Severity } from '@/utils/validatorRegistry';
+import DateSettingsPanel from './DateSettingsPanel';
+
+export default function ValidationProfilePanel() {
+  const { profile, setName, setEnabled, setSeverity, setParam, resetValidator, reset, settings } =
+    useValidationProfileStore();
+
+  const overridden = Object.keys(profile.validators).length + (profile.dates ? 1 : 0);
+
+  return (
+    <Card withBorder radius="md" p="md">
+      <Group justify="space-between">
+        <div>
+          <Text fw={600}>Validation profile</Text>
+          <Text size="sm" c="dimmed">
+            Enable, re-level and tune each check. The profile is exported with the rules package.
+          </Text>
+        </div>
+        <Group>
+          <TextInput value={profile.name} onChange={(e) => setName(e.currentTarget.value)} w={200} aria-label="Profile name" />
+          {overridden > 0 && <Badge variant="light" color="grape">{overridden} customised</Badge>}
+          <Button variant="subtle" color="gray" onClick={reset}>Reset</Button>
+        </Group>
+      </Group>
+
+      <ScrollArea h={360} mt="md">
+        <Stack gap="xs">
+          {VALIDATORS.map((v) => {
+            const s = settings(v.code);
+            return (
+              <Paper key={v.code} withBorder p="xs" style={{ opacity: s.enabled ? 1 : 0.6 }}>
+                <Group justify="space-between" wrap="nowrap">
+                  <Group gap="xs" wrap="nowrap">
+                    <Switch checked={s.enabled} onChange={(e) => setEnabled(v.code, e.currentTarget.checked)} />
+                    <div>
+                      <Group gap={6}>
+                        <Text size="sm" fw={500}>{v.title}</Text>
+                        <Badge size="xs" variant="outline" color="gray">{v.code}</Badge>
+                        {v.critical && <Badge size="xs" color="red" variant="light">critical</Badge>}
+                      </Group>
+                      <Text size="xs" c="dimmed">{v.description}</Text>
+                    </div>
+                  </Group>
+                  <Group gap="xs" wrap="nowrap">
+                    <Select
+                      size="xs"
+                      w={140}
+                      value={s.severity}
+                      onChange={(val) => val && setSeverity(v.code, val as Severity | 'default')}
+                      data={[
+                        { value: 'default', label: `Default (${v.defaultSeverity})` },
+                        { value: 'error', label: 'Error' },
+                        { value: 'warning', label: 'Warning' },
+                      ]}
+                      disabled={!s.enabled}
+                    />
+                    <Button size="xs" variant="subtle" color="gray" onClick={() => resetValidator(v.code)}>
+                      Default
+                    </Button>
+                  </Group>
+                </Group>
+
+                {v.params.length > 0 && (
+                  <Group gap="sm" mt="xs" ml={52}>
+                    {v.params.map((p) => (
+                      <NumberInput
+                        key={p.key}
+                        size="xs"
+                        w={160}
+                        label={p.label}
+                        value={s.params[p.key]}
+                        min={p.min}
+                        max={p.max}
+                        disabled={!s.enabled}
+                        onChange={(val) => {
+                          const n = Number(val);
+                          if (val !== '' && Number.isFinite(n)) setParam(v.code, p.key, n);
+                        }}
+                      />
+                    ))}
+                  </Group>
+                )}
+              </Paper>
+            );
+          })}
+        </Stack>
+      </ScrollArea>
+
+      <DateSettingsPanel />
+    </Card>
+  );
+}
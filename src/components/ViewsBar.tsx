@@ -0,0 +1,145 @@
+// src/components/ViewsBar.tsx
+'use client';
+
+import { useState } from 'react';
+import { Group, Text, Button, ActionIcon, Menu, Popover, TextInput, Stack } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconDots, IconPin, IconPinnedOff, IconLink, IconDownload, IconTrash, IconDeviceFloppy,
+} from '@tabler/icons-react';
+import Papa from 'papaparse';
+import { useDataStore, EntityKey, ID_FIELD } from '@/store/useDataStore';
+import { useViewsStore } from '@/store/useViewsStore';
+import { useValidationProfileStore } from '@/store/useValidationProfileStore';
+import { resolveDateSettings } from '@/utils/dates';
+import { resultRows, runQuery } from '@/utils/dsl';
+import { SavedView, viewLink } from '@/utils/views';
+import { exportTable, tableToCsv } from '@/utils/exportSchema';
+
+interface Props {
+  entity: EntityKey;
+  /** Show the view's rows in the grid (the page owns the filtered view and query result). */
+  onApply: (view: SavedView) => void;
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ViewsBar({ entity, onApply }: Props) {
+  const views = useViewsStore((s) => s.views).filter((v) => v.entity === entity);
+  const current = useViewsStore((s) => s.current[entity]);
+  const { saveCurrent, togglePin, remove } = useViewsStore();
+  const hasFilter = useDataStore((s) => !!s.filtered[entity]);
+
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+
+  const activeId = hasFilter ? current?.viewId ?? null : null;
+  const canSave = hasFilter && !!current;
+
+  const save = () => {
+    const view = saveCurrent(entity, name);
+    if (!view) return;
+    setSaving(false);
+    setName('');
+    notifications.show({ message: `Saved view “${view.name}”`, color: 'teal', autoClose: 1500 });
+  };
+
+  const copyLink = async (view: SavedView) => {
+    try {
+      await navigator.clipboard.writeText(viewLink(view));
+      notifications.show({ message: 'Link copied', color: 'teal', autoClose: 1500 });
+    } catch {
+      notifications.show({ message: 'Could not access the clipboard', color: 'red', autoClose: 2000 });
+    }
+  };
+
+  // Re-runs the view against the current data; projected views keep their ID column first
+  const exportCsv = (view: SavedView) => {
+    const data = useDataStore.getState();
+    const dates = resolveDateSettings(useValidationProfileStore.getState().profile.dates);
+    const result = runQuery(data[entity] as any[], view.query, { entity, data, dates });
+    const rows = resultRows(result);
+    const select = view.query.select;
+    const columns = select?.length ? [ID_FIELD[entity], ...select.filter((c) => c !== ID_FIELD[entity])] : undefined;
+    // Whole rows (grouped views export their member rows) are written like the main export:
+    // uploaded columns in order, no UI helper fields
+    const csv = columns
+      ? Papa.unparse(rows as any[], { columns })
+      : tableToCsv(exportTable(rows, entity, data.columns[entity]));
+    downloadCsv(`${view.name.replace(/[^\w-]+/g, '_') || entity}.csv`, csv);
+  };
+
+  if (!views.length && !canSave) return null;
+
+  return (
+    <Group gap="xs" mb="sm">
+      <Text size="sm" c="dimmed">Views:</Text>
+      {views.map((v) => (
+        <Group key={v.id} gap={0} wrap="nowrap">
+          <Button
+            size="compact-sm"
+            variant={v.id === activeId ? 'filled' : 'light'}
+            leftSection={v.pinned ? <IconPin size={12} /> : undefined}
+            onClick={() => onApply(v)}
+          >
+            {v.name}
+          </Button>
+          <Menu position="bottom-end" withinPortal>
+            <Menu.Target>
+              <ActionIcon variant="subtle" size="sm" aria-label={`${v.name} options`}>
+                <IconDots size={14} />
+              </ActionIcon>
+            </Menu.Target>
+            <Menu.Dropdown>
+              <Menu.Item
+                leftSection={v.pinned ? <IconPinnedOff size={14} /> : <IconPin size={14} />}
+                onClick={() => togglePin(v.id)}
+              >
+                {v.pinned ? 'Unpin tab' : 'Pin as tab'}
+              </Menu.Item>
+              <Menu.Item leftSection={<IconLink size={14} />} onClick={() => copyLink(v)}>Copy link</Menu.Item>
+              <Menu.Item leftSection={<IconDownload size={14} />} onClick={() => exportCsv(v)}>Export CSV</Menu.Item>
+              <Menu.Divider />
+              <Menu.Item color="red" leftSection={<IconTrash size={14} />} onClick={() => remove(v.id)}>Delete</Menu.Item>
+            </Menu.Dropdown>
+          </Menu>
+        </Group>
+      ))}
+      {views.length === 0 && <Text size="sm" c="dimmed">none yet</Text>}
+
+      <Popover opened={saving} onChange={setSaving} position="bottom-start" withArrow trapFocus>
+        <Popover.Target>
+          <Button
+            size="compact-sm"
+            variant="subtle"
+            leftSection={<IconDeviceFloppy size={14} />}
+            disabled={!canSave}
+            onClick={() => setSaving((o) => !o)}
+          >
+            Save current view
+          </Button>
+        </Popover.Target>
+        <Popover.Dropdown>
+          <Stack gap="xs">
+            <TextInput
+              size="xs"
+              label="View name"
+              placeholder="e.g. ETL clients"
+              value={name}
+              onChange={(e) => setName(e.currentTarget.value)}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+            />
+            <Text size="xs" c="dimmed">Saves the filter, sorting and visible columns.</Text>
+            <Button size="xs" onClick={save} disabled={!name.trim()}>Save</Button>
+          </Stack>
+        </Popover.Dropdown>
+      </Popover>
+    </Group>
+  );
+}
@@ -0,0 +1,122 @@
+// src/components/WorkspacePanel.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, Group, Text, Button, Switch, Select, TextInput, Alert, Badge, Stack } from '@mantine/core';
+import { IconDeviceFloppy, IconRestore, IconTrash, IconHistory } from '@tabler/icons-react';
+import { useWorkspaceStore } from '@/store/useWorkspaceStore';
+
+const RETENTION_OPTIONS = [
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '1 day' },
+  { value: '168', label: '7 days' },
+  { value: '720', label: '30 days' },
+];
+
+export default function WorkspacePanel() {
+  const {
+    available, ready, prefs, current, workspaces, pendingRestore, lastSavedAt, autosavePaused, error,
+    init, setCurrent, save, restore, dismissRestore, remove, clearAll, setAutosave, setRetention,
+  } = useWorkspaceStore();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => { init(); }, [init]);
+
+  if (!ready || !available) return null;
+
+  return (
+    <Stack gap="sm">
+      {pendingRestore && (
+        <Alert color="blue" variant="light" icon={<IconHistory size={16} />} title="Restore last session?">
+          <Group justify="space-between">
+            <Text size="sm">
+              “{pendingRestore.name}” — {pendingRestore.rows} rows, {pendingRestore.rules} rules, saved{' '}
+              {new Date(pendingRestore.savedAt).toLocaleString()}.
+            </Text>
+            <Group gap="xs">
+              <Button size="xs" leftSection={<IconRestore size={14} />} onClick={() => restore(pendingRestore.name)}>
+                Restore
+              </Button>
+              <Button size="xs" variant="subtle" color="gray" onClick={dismissRestore}>Not now</Button>
+            </Group>
+          </Group>
+        </Alert>
+      )}
+
+      <Card withBorder radius="md" p="md">
+        <Group justify="space-between" align="flex-end">
+          <div>
+            <Text fw={600}>Workspace</Text>
+            <Text size="sm" c="dimmed">
+              Saved only in this browser (IndexedDB) and deleted automatically after the retention period.
+            </Text>
+          </div>
+          <Group gap="xs" align="flex-end">
+            <TextInput
+              label="Name"
+              value={current}
+              onChange={(e) => setCurrent(e.currentTarget.value)}
+              w={180}
+            />
+            <Button variant="light" leftSection={<IconDeviceFloppy size={16} />} onClick={() => save()}>
+              Save
+            </Button>
+            <Select
+              label="Saved workspaces"
+              placeholder={workspaces.length ? 'Pick…' : 'None saved'}
+              value={selected}
+              onChange={setSelected}
+              data={workspaces.map((w) => ({ value: w.name, label: `${w.name} (${w.rows} rows)` }))}
+              w={220}
+            />
+            <Button variant="light" disabled={!selected} onClick={() => selected && restore(selected)}>
+              Load
+            </Button>
+            <Button
+              variant="subtle"
+              color="red"
+              disabled={!selected}
+              onClick={() => { if (selected) { remove(selected); setSelected(null); } }}
+            >
+              Delete
+            </Button>
+          </Group>
+        </Group>
+
+        <Group mt="md" gap="lg">
+          <Switch
+            label="Autosave"
+            checked={prefs.autosave}
+            onChange={(e) => setAutosave(e.currentTarget.checked)}
+          />
+          <Select
+            size="xs"
+            label="Keep for"
+            value={String(prefs.retentionHours)}
+            onChange={(v) => v && setRetention(Number(v))}
+            data={RETENTION_OPTIONS}
+            w={120}
+          />
+          <Button
+            size="xs"
+            variant="subtle"
+            color="red"
+            leftSection={<IconTrash size={14} />}
+            disabled={!workspaces.length}
+            onClick={() => { clearAll(); setSelected(null); }}
+          >
+            Clear all saved data
+          </Button>
+          {prefs.autosave && autosavePaused && (
+            <Badge variant="light" color="yellow">Autosave paused until new data is uploaded</Badge>
+          )}
+          {lastSavedAt && (
+            <Badge variant="light" color="gray">Saved {new Date(lastSavedAt).toLocaleTimeString()}</Badge>
+          )}
+        </Group>
+
+        {error && <Text size="xs" c="red" mt="xs">{error}</Text>}
+      </Card>
+    </Stack>
+  );
+}
@@ -0,0 +1,48 @@
+import { applyFilter } from "../utils/dsl";
+import { findRelation } from "../utils/relations";
+import type { Rule, RuleCondition } from "./schema";
+import { ID_FIELD } from "../store/useDataStore";
+
+type PatternMatchRule = Extract<Rule, { type: "patternMatch" }>;
+type Data = { clients: any[]; workers: any[]; tasks: any[] };
+
+/** Rows a condition selects; relational ops resolve against the whole data set. */
+export function conditionRows(cond: RuleCondition, data: Data): any[] {
+  return applyFilter(data[cond.entity] ?? [], cond.filter, { entity: cond.entity, data });
+}
+
+/**
+ * Rows a patternMatch rule applies to: IDs matching `regex` (tasks unless `where` names
+ * another entity) that also satisfy `where`. An invalid regex matches nothing.
+ */
+export function patternMatchRows(rule: PatternMatchRule, data: Data): any[] {
+  const entity = rule.where?.entity ?? "tasks";
+  let re: RegExp;
+  try {
+    re = new RegExp(rule.regex, "i");
+  } catch {
+    return [];
+  }
+  const candidates = rule.where ? conditionRows(rule.where, data) : data[entity] ?? [];
+  return candidates.filter((row) => re.test(String(row?.[ID_FIELD[entity]] ?? "")));
+}
+
+/** Relation names in a condition that its entity (or the related entity, when nested) doesn't declare. */
+export function unknownRelations(cond: RuleCondition): string[] {
+  const out: string[] = [];
+  const walk = (n: any, entity: RuleCondition["entity"]) => {
+    if (!n || typeof n !== "object") return;
+    if (n.op === "any" || n.op === "all") {
+      const rel = findRelation(entity, n.relation);
+      if (!rel) {
+        out.push(String(n.relation ?? "(missing)"));
+        return;
+      }
+      (n.children ?? []).forEach((c: any) => walk(c, rel.to));
+      return;
+    }
+    (n.children ?? []).forEach((c: any) => walk(c, entity));
+  };
+  walk(cond.filter, cond.entity);
+  return out;
+}
@@ -0,0 +1,230 @@
+import { Rule } from "./schema";
+
+// ---- Rule graph ----
+// Bipartite graph: coRun rules <-> TaskIDs. A path task–rule–task means "must run together",
+// so connected components are the transitive co-run groups, and a loop through two or more
+// rules is a co-run cycle. phaseWindow rules hang off task nodes; precedenceOverride rules
+// point at other rules by id.
+
+export type RuleConflictKind =
+  | "coRunCycle"            // co-run rules chain back to where they started
+  | "disjointPhaseWindows"  // a transitive co-run group has no phase allowed by all its windows
+  | "danglingOverride"      // precedenceOverride.ruleId points at a rule that no longer exists
+  | "overrideCycle";        // overrides re-rank each other in a loop
+
+export type RuleConflict = {
+  kind: RuleConflictKind;
+  level: "error" | "warning";
+  message: string;
+  ruleIds: string[];   // minimal set of rules to edit
+  taskIds: string[];
+};
+
+export type RuleGraphAnalysis = {
+  coRunGroups: string[][];   // transitive co-run groups (TaskIDs), size >= 2
+  conflicts: RuleConflict[];
+};
+
+type CoRun = Extract<Rule, { type: "coRun" }>;
+type PhaseWindow = Extract<Rule, { type: "phaseWindow" }>;
+type Override = Extract<Rule, { type: "precedenceOverride" }>;
+
+const T = (id: string) => `t:${id}`;
+const R = (id: string) => `r:${id}`;
+
+export function analyzeRuleGraph(rules: Rule[]): RuleGraphAnalysis {
+  const coRuns = rules.filter((r): r is CoRun => r.type === "coRun");
+  const windows = rules.filter((r): r is PhaseWindow => r.type === "phaseWindow");
+  const overrides = rules.filter((r): r is Override => r.type === "precedenceOverride");
+
+  // adjacency over "t:<TaskID>" and "r:<ruleId>" nodes
+  const adj = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!adj.has(a)) adj.set(a, new Set());
+    if (!adj.has(b)) adj.set(b, new Set());
+    adj.get(a)!.add(b);
+    adj.get(b)!.add(a);
+  };
+  coRuns.forEach((r) => [...new Set(r.tasks)].forEach((tid) => link(R(r.id), T(tid))));
+
+  const conflicts: RuleConflict[] = [];
+  conflicts.push(...findCoRunCycles(adj));
+
+  // ---- Transitive co-run groups ----
+  const components = connectedComponents(adj);
+  const coRunGroups = components
+    .map((c) => c.filter((n) => n.startsWith("t:")).map((n) => n.slice(2)).sort())
+    .filter((g) => g.length >= 2);
+
+  // ---- Phase windows per group (singleton tasks included: two windows on one task can clash too) ----
+  const grouped = new Set(coRunGroups.flat());
+  const singles = [...new Set(windows.map((w) => w.taskId))].filter((tid) => !grouped.has(tid)).map((tid) => [tid]);
+  for (const group of [...coRunGroups, ...singles]) {
+    const groupWindows = windows.filter((w) => group.includes(w.taskId));
+    if (groupWindows.length < 2 || intersect(groupWindows).length > 0) continue;
+
+    // Deletion filter: drop windows while the remainder still has an empty intersection
+    let minimal = [...groupWindows];
+    for (const w of groupWindows) {
+      const without = minimal.filter((x) => x !== w);
+      if (without.length >= 2 && intersect(without).length === 0) minimal = without;
+    }
+
+    // Co-run rules that tie the clashing tasks together
+    const tasks = [...new Set(minimal.map((w) => w.taskId))];
+    const linking = new Set<string>();
+    for (let i = 1; i < tasks.length; i++) {
+      shortestPath(adj, T(tasks[0]), T(tasks[i]))
+        .filter((n) => n.startsWith("r:"))
+        .forEach((n) => linking.add(n.slice(2)));
+    }
+
+    const ruleIds = [...minimal.map((w) => w.id), ...linking];
+    conflicts.push({
+      kind: "disjointPhaseWindows",
+      level: "error",
+      message:
+        tasks.length > 1
+          ? `Co-run tasks ${tasks.join(", ")} have phase windows with no common phase (${minimal.map((w) => `${w.taskId}:[${w.allowedPhases.join(",")}]`).join(" vs ")})`
+          : `Task ${tasks[0]} has phase windows with no common phase (${minimal.map((w) => `[${w.allowedPhases.join(",")}]`).join(" vs ")})`,
+      ruleIds,
+      taskIds: tasks,
+    });
+  }
+
+  // ---- precedenceOverride targets ----
+  const ids = new Set(rules.map((r) => r.id));
+  const overrideTarget = new Map<string, string>();
+  for (const o of overrides) {
+    if (!o.ruleId) continue;
+    if (!ids.has(o.ruleId)) {
+      conflicts.push({
+        kind: "danglingOverride",
+        level: "warning",
+        message: `precedenceOverride ${o.id} targets deleted rule ${o.ruleId}`,
+        ruleIds: [o.id],
+        taskIds: o.taskId ? [o.taskId] : [],
+      });
+      continue;
+    }
+    overrideTarget.set(o.id, o.ruleId);
+  }
+  conflicts.push(...findOverrideCycles(overrideTarget));
+
+  return { coRunGroups, conflicts };
+}
+
+// --- helpers ---
+
+// Each non-tree edge of a spanning forest closes exactly one cycle; report its rule nodes.
+function findCoRunCycles(adj: Map<string, Set<string>>): RuleConflict[] {
+  const out: RuleConflict[] = [];
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+  const parent = new Map<string, string | null>();
+  const depth = new Map<string, number>();
+
+  for (const root of [...adj.keys()].sort()) {
+    if (seen.has(root)) continue;
+    const stack: [string, string | null][] = [[root, null]];
+    while (stack.length) {
+      const [node, from] = stack.pop()!;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      parent.set(node, from);
+      depth.set(node, from ? depth.get(from)! + 1 : 0);
+
+      for (const next of [...adj.get(node)!].sort()) {
+        if (next === from) continue;
+        // unseen -> tree edge; seen -> non-tree edge, found once from its later-visited end
+        if (!seen.has(next)) { stack.push([next, node]); continue; }
+
+        // walk both ends up to the common ancestor
+        const a: string[] = [node];
+        const b: string[] = [next];
+        while (a[a.length - 1] !== b[b.length - 1]) {
+          const ta = a[a.length - 1], tb = b[b.length - 1];
+          if (depth.get(ta)! >= depth.get(tb)!) a.push(parent.get(ta)!);
+          else b.push(parent.get(tb)!);
+        }
+        const cycle = [...a, ...b.slice(0, -1).reverse()];
+        const ruleIds = cycle.filter((n) => n.startsWith("r:")).map((n) => n.slice(2)).sort();
+        const taskIds = cycle.filter((n) => n.startsWith("t:")).map((n) => n.slice(2)).sort();
+        const key = ruleIds.join("|");
+        if (ruleIds.length < 2 || reported.has(key)) continue;
+        reported.add(key);
+        out.push({
+          kind: "coRunCycle",
+          level: "warning",
+          message: `Co-run rules ${ruleIds.join(", ")} form a cycle through tasks ${taskIds.join(", ")}`,
+          ruleIds,
+          taskIds,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+function findOverrideCycles(target: Map<string, string>): RuleConflict[] {
+  const out: RuleConflict[] = [];
+  const done = new Set<string>();
+  for (const start of [...target.keys()].sort()) {
+    const path: string[] = [];
+    let cur: string | undefined = start;
+    while (cur && !done.has(cur) && !path.includes(cur)) {
+      path.push(cur);
+      cur = target.get(cur);
+    }
+    if (cur && path.includes(cur)) {
+      const cycle = path.slice(path.indexOf(cur));
+      out.push({
+        kind: "overrideCycle",
+        level: "error",
+        message: `precedenceOverride rules ${cycle.join(" → ")} → ${cur} override each other in a loop`,
+        ruleIds: cycle,
+        taskIds: [],
+      });
+    }
+    path.forEach((p) => done.add(p));
+  }
+  return out;
+}
+
+function connectedComponents(adj: Map<string, Set<string>>): string[][] {
+  const seen = new Set<string>();
+  const out: string[][] = [];
+  for (const start of adj.keys()) {
+    if (seen.has(start)) continue;
+    const comp: string[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length) {
+      const n = queue.shift()!;
+      comp.push(n);
+      adj.get(n)!.forEach((m) => { if (!seen.has(m)) { seen.add(m); queue.push(m); } });
+    }
+    out.push(comp);
+  }
+  return out;
+}
+
+function shortestPath(adj: Map<string, Set<string>>, from: string, to: string): string[] {
+  if (from === to || !adj.has(from)) return [from];
+  const prev = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length) {
+    const n = queue.shift()!;
+    if (n === to) break;
+    [...adj.get(n)!].sort().forEach((m) => { if (!prev.has(m)) { prev.set(m, n); queue.push(m); } });
+  }
+  if (!prev.has(to)) return [];
+  const path = [to];
+  while (path[path.length - 1] !== from) path.push(prev.get(path[path.length - 1])!);
+  return path.reverse();
+}
+
+function intersect(windows: PhaseWindow[]): number[] {
+  if (windows.length === 0) return [];
+  return windows[0].allowedPhases.filter((p) => windows.every((w) => w.allowedPhases.includes(p)));
+}
@@ -0,0 +1,170 @@
+import { Rule, RulesArray, makeRuleId } from "./schema";
+
+// ---- Offline NL → Rule parser ----
+// Deterministic, pattern-based fallback for /api/nl2rule when no AI is available or its
+// output fails validation. Text is split into clauses; each clause yields at most one
+// rule kind (phaseWindow may expand to one rule per task). Clauses nothing matches are
+// returned in `unparsed` so the UI can say what was ignored.
+//
+// Recognised shapes (case-insensitive, IDs/groups resolved against the loaded data):
+//   "T1 and T3 must run together" / "co-run T1, T2"           → coRun
+//   "GroupA workers at most 2 slots per phase"                → loadLimit
+//   "GroupA clients need at least 2 common slots"             → slotRestriction
+//   "T7 only in phases 1-3" / "T7 in phase 2 or 4"            → phaseWindow
+//   "T3 takes precedence" / "override rule r_abc"             → precedenceOverride
+//   "tasks matching /^T1/ use template rush"                  → patternMatch
+// "priority N" anywhere in a clause sets the rule priority.
+
+export type GrammarContext = {
+  taskIds: string[];
+  workerGroups: string[];
+  clientGroups: string[];
+};
+
+export type GrammarResult = {
+  rules: Rule[];
+  unparsed: string[];
+};
+
+const CO_RUN = /\b(co-?run|run together|together|same time|concurrent(ly)?|in parallel|alongside)\b/i;
+const PHASE = /\bphases?\b/i;
+const PER_PHASE = /\b(per|each|a|every)\s+phase\b/i;
+const MAX_N = /\b(?:at most|max(?:imum)?(?:\s+of)?|no more than|up to|limit(?:ed)?(?:\s+\S+)*?\s+to|cap(?:ped)?\s+at)\s+(\d+)/i;
+const MIN_N = /\b(?:at least|min(?:imum)?(?:\s+of)?|no fewer than)\s+(\d+)/i;
+const OVERRIDE = /\b(precedence|override|overrides|takes priority|highest priority|wins)\b/i;
+const PRIORITY = /\bpriority\s*(?:of\s*|=\s*|:\s*)?(\d+)\b/i;
+const FALLBACK_TASK = /\b[A-Z]{1,3}-?\d+\b/gi;
+
+// Clause breaks: sentence ends (not dots inside a regex), semicolons, newlines, ", and" / "and also"
+const splitClauses = (text: string) =>
+  text
+    .split(/\.(?=\s|$)|[;\n]+|,\s*(?:and|also|then)\s+|\s+and also\s+/i)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Known names mentioned as whole words, in order of appearance (case-insensitive, canonical casing). */
+function findNames(clause: string, names: string[]): string[] {
+  const hits: { name: string; at: number }[] = [];
+  for (const name of names) {
+    if (!name) continue;
+    const m = new RegExp(`(^|[^\\w-])${escapeRe(name)}(?![\\w-])`, "i").exec(clause);
+    if (m) hits.push({ name, at: m.index });
+  }
+  return hits.sort((a, b) => a.at - b.at).map((h) => h.name);
+}
+
+function findTasks(clause: string, ctx: GrammarContext): string[] {
+  if (ctx.taskIds.length) return findNames(clause, ctx.taskIds);
+  return [...new Set((clause.match(FALLBACK_TASK) ?? []).map((t) => t.toUpperCase()))];
+}
+
+/** Groups from the data, or the word before "workers"/"clients" / after "group" when there is no data. */
+function findGroups(clause: string, known: string[], noun: "workers" | "clients"): string[] {
+  const hits = findNames(clause, known);
+  if (hits.length || known.length) return hits;
+  const m =
+    new RegExp(`\\b([\\w-]+)\\s+${noun}\\b`, "i").exec(clause) ??
+    /\bgroups?\s+([\w-]+)/i.exec(clause);
+  const name = m?.[1];
+  return name && !/^(all|the|any|each|every|group)$/i.test(name) ? [name] : [];
+}
+
+/** "1-3", "1 to 3", "1, 2 and 4", "[1,2]", "between 1 and 3" → sorted unique phases. */
+export function parsePhaseSpec(clause: string): number[] {
+  const after = clause.slice(clause.search(PHASE));
+  const spec = after.replace(PHASE, " ");
+  const between = /\bbetween\b/i.test(clause);
+  const out = new Set<number>();
+
+  const range = /(\d+)\s*(?:-|–|to|through|\.\.)\s*(\d+)/i.exec(spec) ?? (between ? /(\d+)\s+and\s+(\d+)/i.exec(spec) : null);
+  if (range) {
+    const [a, b] = [Number(range[1]), Number(range[2])].sort((x, y) => x - y);
+    for (let p = a; p <= b && p - a < 100; p++) out.add(p);
+  }
+  for (const n of spec.match(/\d+/g) ?? []) {
+    if (!range) out.add(Number(n));
+  }
+  return [...out].filter((p) => Number.isInteger(p) && p >= 1).sort((a, b) => a - b);
+}
+
+function parseClause(clause: string, ctx: GrammarContext): Rule[] {
+  const priorityMatch = PRIORITY.exec(clause);
+  const priority = priorityMatch ? Number(priorityMatch[1]) : undefined;
+  const body = priorityMatch ? clause.replace(priorityMatch[0], " ") : clause;
+  const tasks = findTasks(body, ctx);
+
+  // patternMatch: needs an explicit regex
+  const pattern = /\bmatch(?:ing|es)?\s+(?:regex\s+)?(?:\/(.+?)\/|"([^"]+)"|'([^']+)')/i.exec(body);
+  if (pattern) {
+    const template = /\b(?:use|apply|with)\s+(?:the\s+)?(?:template\s+)?["']?([\w-]+)/i.exec(body)?.[1] ?? "custom";
+    return [{ id: makeRuleId(), type: "patternMatch", regex: pattern[1] ?? pattern[2] ?? pattern[3], template, priority: priority ?? 100 }];
+  }
+
+  // loadLimit: worker group + max N per phase
+  const max = MAX_N.exec(body);
+  if (max && PER_PHASE.test(body)) {
+    const groupIds = findGroups(body, ctx.workerGroups, "workers");
+    if (groupIds.length) {
+      return [{ id: makeRuleId(), type: "loadLimit", groupType: "WorkerGroup", groupIds, maxSlotsPerPhase: Number(max[1]), priority: priority ?? 100 }];
+    }
+  }
+
+  // slotRestriction: group + at least N (common) slots
+  const min = MIN_N.exec(body);
+  if (min && /\bslots?\b/i.test(body)) {
+    const clientSide = /\bclients?\b/i.test(body) || (findNames(body, ctx.clientGroups).length > 0 && !/\bworkers?\b/i.test(body));
+    const groupIds = clientSide
+      ? findGroups(body, ctx.clientGroups, "clients")
+      : findGroups(body, ctx.workerGroups, "workers");
+    if (groupIds.length) {
+      return [{
+        id: makeRuleId(),
+        type: "slotRestriction",
+        groupType: clientSide ? "ClientGroup" : "WorkerGroup",
+        groupIds,
+        minCommonSlots: Number(min[1]),
+        priority: priority ?? 100,
+      }];
+    }
+  }
+
+  // phaseWindow: task(s) + phase list
+  if (tasks.length && PHASE.test(body) && !PER_PHASE.test(body)) {
+    const allowedPhases = parsePhaseSpec(body);
+    if (allowedPhases.length) {
+      return tasks.map((taskId) => ({ id: makeRuleId(), type: "phaseWindow" as const, taskId, allowedPhases, priority: priority ?? 100 }));
+    }
+  }
+
+  // coRun: 2+ tasks and a "together" phrase
+  if (tasks.length >= 2 && CO_RUN.test(body)) {
+    return [{ id: makeRuleId(), type: "coRun", tasks, priority: priority ?? 100 }];
+  }
+
+  // precedenceOverride: a task or rule id that should win
+  if (OVERRIDE.test(body)) {
+    const ruleId = /\brule\s+([\w-]+)/i.exec(body)?.[1];
+    if (ruleId) return [{ id: makeRuleId(), type: "precedenceOverride", global: false, ruleId, priority: priority ?? 50 }];
+    if (tasks.length === 1) return [{ id: makeRuleId(), type: "precedenceOverride", global: false, taskId: tasks[0], priority: priority ?? 50 }];
+    if (/\b(global(ly)?|all|everything)\b/i.test(body)) {
+      return [{ id: makeRuleId(), type: "precedenceOverride", global: true, priority: priority ?? 50 }];
+    }
+  }
+
+  return [];
+}
+
+export function parseRulesFromText(text: string, ctx: GrammarContext): GrammarResult {
+  const rules: Rule[] = [];
+  const unparsed: string[] = [];
+  for (const clause of splitClauses(text)) {
+    const found = parseClause(clause, ctx);
+    if (found.length) rules.push(...found);
+    else unparsed.push(clause);
+  }
+  // Everything emitted must satisfy the same schema as AI output
+  const checked = RulesArray.safeParse(rules);
+  return checked.success ? { rules: checked.data, unparsed } : { rules: [], unparsed: splitClauses(text) };
+}
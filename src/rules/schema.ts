@@ -1,4 +1,14 @@
 import { z } from "zod";
+import { FilterNode } from "../utils/dsl";
+
+// ---- Rule conditions ----
+// A filter over one entity; relational ops (any/all over utils/relations.ts) are allowed,
+// e.g. tasks that some client in GroupA requested.
+export const RuleCondition = z.object({
+  entity: z.enum(["clients", "workers", "tasks"]),
+  filter: FilterNode,
+});
+export type RuleCondition = z.infer<typeof RuleCondition>;
 
 // ---- Core Rule Types ----
 export const CoRunRule = z.object({
@@ -40,6 +50,7 @@ export const PatternMatchRule = z.object({
   regex: z.string().min(1),
   template: z.string().min(1), // name of your rule template
   params: z.record(z.string(), z.any()).optional(),
+  where: RuleCondition.optional(), // rows must also satisfy this; regex is tested against the entity's ID
   priority: z.number().int().min(0).default(100),
 });
 
@@ -0,0 +1,172 @@
+import YAML from "yaml";
+import { z } from "zod";
+import { Rule, makeRuleId } from "./schema";
+import type { PrioritiesExport } from "@/store/usePrioritiesStore";
+import type { ValidationProfile } from "@/utils/validatorRegistry";
+
+// ---- Rules package files (JSON or YAML) ----
+// Export writes the whole package (rules, priority weights, validation profile);
+// import also accepts a bare list of rules. Rules are checked one by one so a single
+// bad entry is reported with its position instead of rejecting the file.
+// Priorities and the validation profile are checked as a whole; if either is malformed
+// the import is refused, so nothing is applied half-way.
+
+export type RulesFormat = "json" | "yaml";
+
+export type RulesPackage = {
+  rules: Rule[];
+  priorities?: PrioritiesExport;
+  validationProfile?: ValidationProfile;
+  generatedAt?: string;
+  version?: number;
+};
+
+export type RuleImportError = { index: number; id?: string; messages: string[] };
+
+// Shapes the stores read on import; unknown objectives / validator codes are tolerated and dropped there
+const PrioritiesSection = z.object({
+  mode: z.enum(["sliders", "pairwise", "rank"]).optional(),
+  preset: z.string().optional(),
+  weights: z.record(z.string(), z.number()),
+  ranking: z.array(z.string()).optional(),
+  pairwise: z.record(z.string(), z.number()).optional(),
+});
+
+const ValidationProfileSection = z.object({
+  name: z.string().optional(),
+  validators: z.record(z.string(), z.object({
+    enabled: z.boolean().optional(),
+    severity: z.enum(["error", "warning", "default"]).optional(),
+    params: z.record(z.string(), z.number()).optional(),
+  })).optional(),
+  dates: z.object({
+    formats: z.array(z.string()).optional(),
+    timezone: z.string().optional(),
+    columns: z.array(z.object({
+      entity: z.enum(["clients", "workers", "tasks"]),
+      field: z.string(),
+      type: z.enum(["date", "datetime", "duration"]),
+      min: z.string().optional(),
+      max: z.string().optional(),
+    })).optional(),
+  }).optional(),
+});
+
+const issueMessages = (error: z.ZodError, prefix = "") =>
+  error.issues.map((i) => {
+    const path = [prefix, ...i.path.map(String)].filter(Boolean).join(".");
+    return path ? `${path}: ${i.message}` : i.message;
+  });
+
+export type ParsedRules = {
+  rules: Rule[];
+  errors: RuleImportError[];
+  priorities?: PrioritiesExport;
+  validationProfile?: ValidationProfile;
+  /** Problems in the priorities / validationProfile sections; the file must not be imported while set */
+  settingsErrors?: string[];
+  /** Set when the file itself could not be read; nothing else is filled in then */
+  fileError?: string;
+};
+
+export type ImportMode = "merge" | "replace";
+export type ConflictPolicy = "keep" | "overwrite" | "rename";
+
+export function serializeRules(pack: RulesPackage, format: RulesFormat): string {
+  if (format === "json") return JSON.stringify(pack, null, 2);
+  // Plain YAML; filters stay nested maps rather than inline JSON
+  return YAML.stringify(pack, { aliasDuplicateObjects: false, lineWidth: 0 });
+}
+
+/** Format from the file name, falling back to sniffing the text. */
+export function detectRulesFormat(text: string, fileName = ""): RulesFormat {
+  if (/\.ya?ml$/i.test(fileName)) return "yaml";
+  if (/\.json$/i.test(fileName)) return "json";
+  return /^\s*[[{]/.test(text) ? "json" : "yaml";
+}
+
+export function parseRules(text: string, format: RulesFormat): ParsedRules {
+  let doc: unknown;
+  try {
+    doc = format === "json" ? JSON.parse(text) : YAML.parse(text);
+  } catch (e) {
+    return { rules: [], errors: [], fileError: `Not valid ${format.toUpperCase()}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const pack = Array.isArray(doc) ? { rules: doc } : (doc as Record<string, unknown> | null);
+  if (!pack || typeof pack !== "object" || !Array.isArray(pack.rules)) {
+    return { rules: [], errors: [], fileError: "Expected a list of rules or an object with a \"rules\" list" };
+  }
+
+  const rules: Rule[] = [];
+  const errors: RuleImportError[] = [];
+  pack.rules.forEach((raw: unknown, index: number) => {
+    const id = raw && typeof raw === "object" && typeof (raw as { id?: unknown }).id === "string"
+      ? (raw as { id: string }).id
+      : undefined;
+    const parsed = Rule.safeParse(raw);
+    if (parsed.success) rules.push(parsed.data);
+    else {
+      errors.push({
+        index,
+        id,
+        messages: issueMessages(parsed.error),
+      });
+    }
+  });
+
+  const settingsErrors: string[] = [];
+  const section = <T>(key: "priorities" | "validationProfile", schema: z.ZodType<T>): T | undefined => {
+    if (pack[key] == null) return undefined;
+    const parsed = schema.safeParse(pack[key]);
+    if (parsed.success) return parsed.data;
+    settingsErrors.push(...issueMessages(parsed.error, key));
+    return undefined;
+  };
+  // The stores fill in missing objectives / defaults, so the partial shapes are enough
+  const priorities = section("priorities", PrioritiesSection) as PrioritiesExport | undefined;
+  const validationProfile = section("validationProfile", ValidationProfileSection) as ValidationProfile | undefined;
+
+  return {
+    rules,
+    errors,
+    ...(priorities ? { priorities } : {}),
+    ...(validationProfile ? { validationProfile } : {}),
+    ...(settingsErrors.length ? { settingsErrors } : {}),
+  };
+}
+
+/** Ids present in both the current and the incoming rules. */
+export function conflictingIds(current: Rule[], incoming: Rule[]): string[] {
+  const have = new Set(current.map((r) => r.id));
+  return [...new Set(incoming.map((r) => r.id).filter((id) => have.has(id)))];
+}
+
+/**
+ * Combine imported rules with the current ones.
+ * replace: incoming only. merge: duplicate ids keep the current rule, take the incoming one
+ * in place, or import it under a fresh id (precedenceOverride targets are not rewritten).
+ */
+export function mergeRules(current: Rule[], incoming: Rule[], mode: ImportMode, onConflict: ConflictPolicy): Rule[] {
+  if (mode === "replace") return dedupeById(incoming);
+
+  const byId = new Map(incoming.map((r) => [r.id, r]));
+  const out = current.map((r) => (onConflict === "overwrite" && byId.has(r.id) ? byId.get(r.id)! : r));
+  const taken = new Set(out.map((r) => r.id));
+  for (const r of dedupeById(incoming)) {
+    if (!taken.has(r.id)) { out.push(r); taken.add(r.id); continue; }
+    if (onConflict === "rename") {
+      const copy = { ...r, id: makeRuleId() } as Rule;
+      out.push(copy);
+      taken.add(copy.id);
+    }
+  }
+  return out;
+}
+
+// Later duplicates inside one file win, like later keys in an object
+function dedupeById(rules: Rule[]): Rule[] {
+  const m = new Map<string, Rule>();
+  rules.forEach((r) => { m.delete(r.id); m.set(r.id, r); });
+  return [...m.values()];
+}
@@ -0,0 +1,22 @@
+// src/store/useAllocationStore.ts
+// Holds the latest allocation run so the panel and the exporter see the same schedule.
+
+import { create } from 'zustand';
+import type { AllocationResult } from '../utils/allocator';
+
+interface AllocationState {
+  result: AllocationResult | null;
+  isAllocating: boolean;
+  setResult: (result: AllocationResult | null) => void;
+  setAllocating: (allocating: boolean) => void;
+  clear: () => void;
+}
+
+export const useAllocationStore = create<AllocationState>((set) => ({
+  result: null,
+  isAllocating: false,
+
+  setResult: (result) => set({ result }),
+  setAllocating: (isAllocating) => set({ isAllocating }),
+  clear: () => set({ result: null, isAllocating: false }),
+}));
@@ -3,8 +3,11 @@
 // - `filtered` holds per-entity filtered subsets (for NL search).
 // - `setFiltered(entity, rows|null)` sets/clears the filtered view.
 // - `patchRow(entity, rowIndex, patch)` updates a row and mirrors the change in the filtered view if visible.
+// - `applyCellWrites(writes)` sets many cells at once by base row index (used by useHistoryStore for undo/redo).
+// - `columns` records each entity's uploaded columns (order, source header) for exports.
 
 import { create } from 'zustand';
+import type { ExportSchema } from '../utils/exportSchema';
 
 export interface Client {
   ClientID: string;
@@ -37,8 +40,18 @@ export interface Task {
 
 // Entity helper types
 export type EntityKey = 'clients' | 'workers' | 'tasks';
+
+/** Column holding each entity's ID */
+export const ID_FIELD: Record<EntityKey, string> = { clients: 'ClientID', workers: 'WorkerID', tasks: 'TaskID' };
 type AnyRow = Client | Worker | Task;
 
+export interface CellWrite {
+  entity: EntityKey;
+  rowIndex: number;   // index into the BASE array, not a filtered view
+  field: string;
+  value: unknown;
+}
+
 interface DataState {
   clients: Client[];
   workers: Worker[];
@@ -47,10 +60,14 @@ interface DataState {
   // Non-destructive filtered views: if present, UI should render these instead of base arrays
   filtered: Partial<Record<EntityKey, AnyRow[]>>;
 
+  // Uploaded columns per entity, in source order (see utils/exportSchema)
+  columns: ExportSchema;
+
   // Base setters (used on upload/replace)
   setClients: (data: Client[]) => void;
   setWorkers: (data: Worker[]) => void;
   setTasks: (data: Task[]) => void;
+  setColumns: (columns: ExportSchema) => void;
 
   // Set/clear a filtered view for an entity
   setFiltered: (key: EntityKey, rows: AnyRow[] | null) => void;
@@ -58,6 +75,9 @@ interface DataState {
   // Patch a single row (used by inline edits). Mirrors into filtered view if it exists.
   patchRow: (key: EntityKey, rowIndex: number, patch: Partial<AnyRow>) => void;
 
+  // Write many cells in one update. Filtered views holding the same row objects are kept in sync.
+  applyCellWrites: (writes: CellWrite[]) => void;
+
   // Reset everything
   reset: () => void;
 }
@@ -67,10 +87,12 @@ export const useDataStore = create<DataState>((set, get) => ({
   workers: [],
   tasks: [],
   filtered: {},
+  columns: {},
 
   setClients: (data) => set({ clients: data }),
   setWorkers: (data) => set({ workers: data }),
   setTasks:  (data) => set({ tasks:  data }),
+  setColumns: (columns) => set({ columns }),
 
   setFiltered: (key, rows) =>
     set((s) => {
@@ -104,5 +126,32 @@ export const useDataStore = create<DataState>((set, get) => ({
       };
     }),
 
-  reset: () => set({ clients: [], workers: [], tasks: [], filtered: {} }),
+  applyCellWrites: (writes) =>
+    set((s) => {
+      const next: Partial<Record<EntityKey, AnyRow[]>> = {};
+      const replaced = new Map<AnyRow, AnyRow>(); // row object before the batch -> patched row
+      const origin = new Map<AnyRow, AnyRow>();   // patched row -> row object before the batch
+
+      writes.forEach(({ entity, rowIndex, field, value }) => {
+        const arr = (next[entity] ??= [...(s[entity] as AnyRow[])]);
+        const row = arr[rowIndex];
+        if (!row) return; // out of bounds safeguard
+        const patched = { ...row, [field]: value } as AnyRow;
+        arr[rowIndex] = patched;
+        // several writes to one row chain back to the same original object
+        const original = origin.get(row) ?? row;
+        origin.set(patched, original);
+        replaced.set(original, patched);
+      });
+
+      const filtered = { ...s.filtered };
+      (Object.keys(next) as EntityKey[]).forEach((key) => {
+        const view = filtered[key];
+        if (view) filtered[key] = view.map((r) => replaced.get(r) ?? r);
+      });
+
+      return { ...s, ...(next as Partial<DataState>), filtered };
+    }),
+
+  reset: () => set({ clients: [], workers: [], tasks: [], filtered: {}, columns: {} }),
 }));
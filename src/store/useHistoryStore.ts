@@ -0,0 +1,103 @@
+// src/store/useHistoryStore.ts
+// Command-based undo/redo on top of useDataStore.
+// - Every data edit goes through `commit(label, edits)`; one commit = one undoable step (Fix All included).
+// - Entries store before/after per cell, so undo/redo replay writes instead of snapshotting whole arrays.
+// - Undo/redo re-validate only the checks that read the touched fields.
+// - A new upload clears the history (see FileUploader).
+
+import { create } from 'zustand';
+import { useDataStore, EntityKey, CellWrite, ID_FIELD } from './useDataStore';
+import { requestValidation } from '../utils/validationRunner';
+
+export interface CellChange {
+  entity: EntityKey;
+  rowIndex: number;   // base array index
+  entityId: string;   // ClientID / WorkerID / TaskID at the time of the edit (for display)
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  changes: CellChange[];
+  at: number;
+}
+
+/** A requested edit; `before` overrides the store value when the caller already mutated it (e.g. AG Grid). */
+export type HistoryEdit = CellWrite & { before?: unknown };
+
+const MAX_ENTRIES = 100;
+
+interface HistoryState {
+  past: HistoryEntry[];     // oldest first
+  future: HistoryEntry[];   // next redo first
+
+  commit: (label: string, edits: HistoryEdit[]) => HistoryEntry | null;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+}
+
+let seq = 0;
+
+const replay = (changes: CellChange[], side: 'before' | 'after') => {
+  const ordered = side === 'before' ? [...changes].reverse() : changes;
+  useDataStore.getState().applyCellWrites(
+    ordered.map((c) => ({ entity: c.entity, rowIndex: c.rowIndex, field: c.field, value: c[side] }))
+  );
+  requestValidation(undefined, { changes: changes.map((c) => ({ entity: c.entity, field: c.field })) });
+};
+
+/** "clients C1 · PriorityLevel: 7 → 3" */
+export function describeChange(c: CellChange): string {
+  const show = (v: unknown) => (v === undefined || v === null || v === '' ? '∅' : String(v));
+  return `${c.entity} ${c.entityId || `#${c.rowIndex + 1}`} · ${c.field}: ${show(c.before)} → ${show(c.after)}`;
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  past: [],
+  future: [],
+
+  commit: (label, edits) => {
+    const data = useDataStore.getState();
+    const changes: CellChange[] = [];
+    edits.forEach((e) => {
+      const row = (data[e.entity] as any[])[e.rowIndex];
+      if (!row) return;
+      const before = 'before' in e ? e.before : row[e.field];
+      if (Object.is(before, e.value)) return; // no-op edit
+      changes.push({
+        entity: e.entity,
+        rowIndex: e.rowIndex,
+        entityId: String(row[ID_FIELD[e.entity]] ?? ''),
+        field: e.field,
+        before,
+        after: e.value,
+      });
+    });
+    if (changes.length === 0) return null;
+
+    data.applyCellWrites(changes.map((c) => ({ entity: c.entity, rowIndex: c.rowIndex, field: c.field, value: c.after })));
+    const entry: HistoryEntry = { id: ++seq, label, changes, at: Date.now() };
+    set((s) => ({ past: [...s.past, entry].slice(-MAX_ENTRIES), future: [] }));
+    return entry;
+  },
+
+  undo: () => {
+    const entry = get().past[get().past.length - 1];
+    if (!entry) return;
+    set((s) => ({ past: s.past.slice(0, -1), future: [entry, ...s.future] }));
+    replay(entry.changes, 'before');
+  },
+
+  redo: () => {
+    const entry = get().future[0];
+    if (!entry) return;
+    set((s) => ({ past: [...s.past, entry], future: s.future.slice(1) }));
+    replay(entry.changes, 'after');
+  },
+
+  clear: () => set({ past: [], future: [] }),
+}));
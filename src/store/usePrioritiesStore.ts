@@ -0,0 +1,150 @@
+// src/store/usePrioritiesStore.ts
+// Objective weights for allocation/fix trade-offs.
+// - `weights` are slider values (0–100); `normalized()` turns them into fractions summing to 1.
+// - Pairwise and drag-to-rank modes derive `weights` from their own inputs, so the sliders always reflect the active mode.
+
+import { create } from 'zustand';
+import {
+  ObjectiveKey,
+  ObjectiveWeights,
+  OBJECTIVE_KEYS,
+  DEFAULT_WEIGHTS,
+  normalizeWeights,
+  weightsFromPairwise,
+  weightsFromRanking,
+  pairKey,
+} from '../utils/scoring';
+
+export type PriorityMode = 'sliders' | 'pairwise' | 'rank';
+
+export type PresetKey = 'maximiseFulfilment' | 'fairDistribution' | 'priorityFirst' | 'fastDelivery';
+
+export const PRESETS: Record<PresetKey, { label: string; weights: ObjectiveWeights }> = {
+  maximiseFulfilment: {
+    label: 'Maximise fulfilment',
+    weights: { priorityFulfilment: 30, requestFulfilment: 100, fairness: 20, preferredPhases: 40, earliness: 30, qualification: 10 },
+  },
+  fairDistribution: {
+    label: 'Fair distribution',
+    weights: { priorityFulfilment: 30, requestFulfilment: 40, fairness: 100, preferredPhases: 70, earliness: 20, qualification: 10 },
+  },
+  priorityFirst: {
+    label: 'High-priority clients first',
+    weights: { priorityFulfilment: 100, requestFulfilment: 30, fairness: 20, preferredPhases: 80, earliness: 40, qualification: 20 },
+  },
+  fastDelivery: {
+    label: 'Finish quickly',
+    weights: { priorityFulfilment: 40, requestFulfilment: 50, fairness: 10, preferredPhases: 60, earliness: 100, qualification: 10 },
+  },
+};
+
+export interface PrioritiesExport {
+  mode: PriorityMode;
+  preset: PresetKey | 'custom';
+  weights: ObjectiveWeights;      // normalised, sums to 1
+  ranking?: ObjectiveKey[];
+  pairwise?: Record<string, number>;
+}
+
+interface PrioritiesState {
+  weights: ObjectiveWeights;
+  mode: PriorityMode;
+  preset: PresetKey | 'custom';
+  pairwise: Record<string, number>;   // "a|b" -> -8..8 (see weightsFromPairwise)
+  ranking: ObjectiveKey[];
+
+  setWeight: (key: ObjectiveKey, value: number) => void;
+  applyPreset: (preset: PresetKey) => void;
+  setMode: (mode: PriorityMode) => void;
+  setPairwise: (a: ObjectiveKey, b: ObjectiveKey, value: number) => void;
+  setRanking: (order: ObjectiveKey[]) => void;
+  reset: () => void;
+
+  normalized: () => ObjectiveWeights;
+  exportWeights: () => PrioritiesExport;
+  importWeights: (p: PrioritiesExport) => void;
+}
+
+// Fractions -> slider scale, strongest objective pinned at 100
+const toSliderScale = (w: ObjectiveWeights): ObjectiveWeights => {
+  const max = Math.max(...OBJECTIVE_KEYS.map((k) => w[k]));
+  const out = {} as ObjectiveWeights;
+  OBJECTIVE_KEYS.forEach((k) => { out[k] = max > 0 ? Math.round((w[k] / max) * 100) : 0; });
+  return out;
+};
+
+const rankingFromWeights = (w: ObjectiveWeights): ObjectiveKey[] =>
+  [...OBJECTIVE_KEYS].sort((a, b) => w[b] - w[a]);
+
+export const usePrioritiesStore = create<PrioritiesState>((set, get) => ({
+  weights: DEFAULT_WEIGHTS,
+  mode: 'sliders',
+  preset: 'custom',
+  pairwise: {},
+  ranking: rankingFromWeights(DEFAULT_WEIGHTS),
+
+  setWeight: (key, value) =>
+    set((s) => ({
+      weights: { ...s.weights, [key]: Math.min(100, Math.max(0, Math.round(value))) },
+      preset: 'custom',
+      mode: 'sliders',
+    })),
+
+  applyPreset: (preset) =>
+    set({
+      weights: { ...PRESETS[preset].weights },
+      preset,
+      mode: 'sliders',
+      ranking: rankingFromWeights(PRESETS[preset].weights),
+      pairwise: {},
+    }),
+
+  setMode: (mode) =>
+    set((s) => {
+      if (mode === 'rank') return { mode, weights: toSliderScale(weightsFromRanking(s.ranking)), preset: 'custom' };
+      if (mode === 'pairwise') return { mode, weights: toSliderScale(weightsFromPairwise(s.pairwise)), preset: 'custom' };
+      return { mode };
+    }),
+
+  setPairwise: (a, b, value) =>
+    set((s) => {
+      const pairwise = { ...s.pairwise };
+      delete pairwise[pairKey(b, a)];
+      pairwise[pairKey(a, b)] = value;
+      return { pairwise, weights: toSliderScale(weightsFromPairwise(pairwise)), preset: 'custom', mode: 'pairwise' };
+    }),
+
+  setRanking: (order) =>
+    set({ ranking: order, weights: toSliderScale(weightsFromRanking(order)), preset: 'custom', mode: 'rank' }),
+
+  reset: () =>
+    set({ weights: DEFAULT_WEIGHTS, mode: 'sliders', preset: 'custom', pairwise: {}, ranking: rankingFromWeights(DEFAULT_WEIGHTS) }),
+
+  normalized: () => normalizeWeights(get().weights),
+
+  exportWeights: () => {
+    const s = get();
+    return {
+      mode: s.mode,
+      preset: s.preset,
+      weights: normalizeWeights(s.weights),
+      ...(s.mode === 'rank' ? { ranking: s.ranking } : {}),
+      ...(s.mode === 'pairwise' ? { pairwise: s.pairwise } : {}),
+    };
+  },
+
+  // Inverse of exportWeights; unknown objectives are ignored, missing ones fall back to the defaults
+  importWeights: (p) => {
+    const weights = { ...normalizeWeights(DEFAULT_WEIGHTS) };
+    OBJECTIVE_KEYS.forEach((k) => { if (Number.isFinite(p?.weights?.[k])) weights[k] = Number(p.weights[k]); });
+    const ranking = p?.ranking?.filter((k) => OBJECTIVE_KEYS.includes(k));
+    const mode: PriorityMode = p?.mode === 'rank' || p?.mode === 'pairwise' ? p.mode : 'sliders';
+    set({
+      weights: toSliderScale(weights),
+      mode,
+      preset: p?.preset && p.preset in PRESETS ? p.preset : 'custom',
+      pairwise: p?.pairwise ?? {},
+      ranking: ranking?.length === OBJECTIVE_KEYS.length ? ranking : rankingFromWeights(weights),
+    });
+  },
+}));
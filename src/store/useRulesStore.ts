@@ -1,7 +1,13 @@
 import { create } from "zustand";
 import { Rule, RulesArray, makeRuleId } from "@/rules/schema";
+import { analyzeRuleGraph } from "@/rules/graph";
+import { ConflictPolicy, ImportMode, mergeRules } from "@/rules/serialize";
+import { patternMatchRows, unknownRelations } from "@/rules/conditions";
+import { usePrioritiesStore, PrioritiesExport } from "@/store/usePrioritiesStore";
+import { useValidationProfileStore } from "@/store/useValidationProfileStore";
+import type { ValidationProfile } from "@/utils/validatorRegistry";
 
-type RuleIssue = { id?: string; message: string; level: "error" | "warning" };
+type RuleIssue = { id?: string; ruleIds?: string[]; message: string; level: "error" | "warning" };
 
 type RulesState = {
   rules: Rule[];
@@ -10,7 +16,14 @@ type RulesState = {
   remove: (id: string) => void;
   clear: () => void;
   update: (id: string, patch: Partial<Rule>) => void;
-  exportRules: () => { rules: Rule[]; generatedAt: string, version: number };
+  importRules: (incoming: Rule[], mode: ImportMode, onConflict: ConflictPolicy) => void;
+  exportRules: () => {
+    rules: Rule[];
+    priorities: PrioritiesExport;
+    validationProfile: ValidationProfile;
+    generatedAt: string;
+    version: number;
+  };
   validateRulesAgainstData: (data: { tasks: any[]; workers: any[]; clients: any[] }) => RuleIssue[];
 };
 
@@ -42,8 +55,13 @@ export const useRulesStore = create<RulesState>((set, get) => ({
       rules: s.rules.map((r) => (r.id === id ? ({ ...r, ...patch } as Rule) : r)),
     })),
 
+  importRules: (incoming, mode, onConflict) =>
+    set((s) => ({ rules: mergeRules(s.rules, incoming, mode, onConflict) })),
+
   exportRules: () => ({
     rules: get().rules,
+    priorities: usePrioritiesStore.getState().exportWeights(),
+    validationProfile: useValidationProfileStore.getState().exportProfile(),
     generatedAt: new Date().toISOString(),
     version: 1,
   }),
@@ -77,12 +95,25 @@ export const useRulesStore = create<RulesState>((set, get) => ({
         });
       }
 
-      // Edge cases you might expand later (cycles/conflicts etc.)
+      if (r.type === "patternMatch" && r.where) {
+        const unknown = unknownRelations(r.where);
+        if (unknown.length) {
+          issues.push({ level: "error", message: `patternMatch condition uses unknown relation(s): ${unknown.join(", ")}`, id: r.id });
+        } else if (patternMatchRows(r, { tasks, workers, clients }).length === 0) {
+          issues.push({ level: "warning", message: `patternMatch condition matches no ${r.where.entity}`, id: r.id });
+        }
+      }
+
       if (r.type === "precedenceOverride" && !r.global && !r.taskId && !r.ruleId) {
         issues.push({ level: "warning", message: "precedenceOverride should target a taskId or ruleId if not global", id: r.id });
       }
     }
 
+    // Cross-rule conflicts: co-run cycles, disjoint phase windows, dangling/looping overrides
+    for (const c of analyzeRuleGraph(get().rules).conflicts) {
+      issues.push({ level: c.level, message: c.message, id: c.ruleIds[0], ruleIds: c.ruleIds });
+    }
+
     // Validate shape strictly
     const parsed = RulesArray.safeParse(get().rules);
     if (!parsed.success) {
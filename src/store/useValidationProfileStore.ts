@@ -0,0 +1,123 @@
+// src/store/useValidationProfileStore.ts
+// Active validation profile: per-validator enable / severity / params on top of the registry defaults.
+// Only overrides are stored, so exported profiles stay small and pick up new registry defaults.
+// `dates` (formats / timezone / date columns) is stored the same way: only what differs from the defaults.
+
+import { create } from 'zustand';
+import {
+  ValidatorCode,
+  ValidatorSettings,
+  ValidationProfile,
+  Severity,
+  DEFAULT_PROFILE,
+  VALIDATOR_BY_CODE,
+  resolveSettings,
+} from '../utils/validatorRegistry';
+import { DateColumn, DateProfile, DEFAULT_DATE_SETTINGS } from '../utils/dates';
+
+interface ValidationProfileState {
+  profile: ValidationProfile;
+
+  setName: (name: string) => void;
+  setEnabled: (code: ValidatorCode, enabled: boolean) => void;
+  setSeverity: (code: ValidatorCode, severity: Severity | 'default') => void;
+  setParam: (code: ValidatorCode, key: string, value: number) => void;
+  resetValidator: (code: ValidatorCode) => void;
+  reset: () => void;
+  loadProfile: (profile: ValidationProfile) => void;
+  setDates: (change: Partial<DateProfile>) => void;
+
+  settings: (code: ValidatorCode) => ValidatorSettings;
+  exportProfile: () => ValidationProfile;
+}
+
+// Drop overrides that equal the registry default
+const prune = (code: ValidatorCode, o: Partial<ValidatorSettings>): Partial<ValidatorSettings> | undefined => {
+  const def = VALIDATOR_BY_CODE[code];
+  const out: Partial<ValidatorSettings> = {};
+  if (o.enabled === false) out.enabled = false;
+  if (o.severity && o.severity !== 'default') out.severity = o.severity;
+  const params = Object.fromEntries(
+    Object.entries(o.params ?? {}).filter(([k, v]) => {
+      const p = def.params.find((x) => x.key === k);
+      return p && Number.isFinite(v) && v !== p.default;
+    })
+  );
+  if (Object.keys(params).length) out.params = params;
+  return Object.keys(out).length ? out : undefined;
+};
+
+const DATE_ENTITIES = ['clients', 'workers', 'tasks'];
+const DATE_TYPES = ['date', 'datetime', 'duration'];
+
+// Drop default formats / timezone and malformed columns (hand-edited or older exports)
+const pruneDates = (d: DateProfile | undefined): DateProfile | undefined => {
+  const out: DateProfile = {};
+  const formats = (Array.isArray(d?.formats) ? d!.formats : []).map((f) => String(f).trim()).filter(Boolean);
+  if (formats.length && JSON.stringify(formats) !== JSON.stringify(DEFAULT_DATE_SETTINGS.formats)) out.formats = formats;
+  if (d?.timezone && d.timezone !== DEFAULT_DATE_SETTINGS.timezone) out.timezone = String(d.timezone);
+  const columns = (Array.isArray(d?.columns) ? d!.columns : [])
+    .filter((c) => c && DATE_ENTITIES.includes(c.entity) && DATE_TYPES.includes(c.type) && String(c.field ?? '').trim())
+    .map((c): DateColumn => ({
+      entity: c.entity,
+      field: String(c.field).trim(),
+      type: c.type,
+      ...(c.min?.trim() ? { min: c.min.trim() } : {}),
+      ...(c.max?.trim() ? { max: c.max.trim() } : {}),
+    }));
+  if (columns.length) out.columns = columns;
+  return Object.keys(out).length ? out : undefined;
+};
+
+const withDates = (profile: ValidationProfile, dates: DateProfile | undefined): ValidationProfile => {
+  const { dates: _old, ...rest } = profile;
+  const next = pruneDates(dates);
+  return next ? { ...rest, dates: next } : rest;
+};
+
+const patch = (
+  profile: ValidationProfile,
+  code: ValidatorCode,
+  change: (o: Partial<ValidatorSettings>) => Partial<ValidatorSettings>
+): ValidationProfile => {
+  const validators = { ...profile.validators };
+  const next = prune(code, change({ ...(validators[code] ?? {}) }));
+  if (next) validators[code] = next;
+  else delete validators[code];
+  return { ...profile, validators };
+};
+
+export const useValidationProfileStore = create<ValidationProfileState>((set, get) => ({
+  profile: DEFAULT_PROFILE,
+
+  setName: (name) => set((s) => ({ profile: { ...s.profile, name } })),
+
+  setEnabled: (code, enabled) =>
+    set((s) => ({ profile: patch(s.profile, code, (o) => ({ ...o, enabled })) })),
+
+  setSeverity: (code, severity) =>
+    set((s) => ({ profile: patch(s.profile, code, (o) => ({ ...o, severity })) })),
+
+  setParam: (code, key, value) =>
+    set((s) => ({ profile: patch(s.profile, code, (o) => ({ ...o, params: { ...o.params, [key]: value } })) })),
+
+  resetValidator: (code) => set((s) => ({ profile: patch(s.profile, code, () => ({})) })),
+
+  reset: () => set({ profile: DEFAULT_PROFILE }),
+
+  // Unknown codes / params from older exports are dropped
+  loadProfile: (profile) =>
+    set(() => {
+      let next: ValidationProfile = { name: profile?.name || DEFAULT_PROFILE.name, validators: {} };
+      Object.entries(profile?.validators ?? {}).forEach(([code, o]) => {
+        if (code in VALIDATOR_BY_CODE && o) next = patch(next, code as ValidatorCode, () => o);
+      });
+      return { profile: withDates(next, profile?.dates) };
+    }),
+
+  setDates: (change) => set((s) => ({ profile: withDates(s.profile, { ...s.profile.dates, ...change }) })),
+
+  settings: (code) => resolveSettings(get().profile, code),
+
+  exportProfile: () => get().profile,
+}));
@@ -1,5 +1,8 @@
 // src/store/useValidationStore.ts
 import { create } from 'zustand';
+import { ValidatorCode, isCriticalError } from '../utils/validatorRegistry';
+import type { ValidationProgress } from '../workers/validationProtocol';
+import type { FixCandidate } from '../utils/fixCandidates';
 
 export interface ValidationError {
   id: string;                                    // ✅ FIXED: Added id property
@@ -10,7 +13,11 @@ export interface ValidationError {
   message: string;
   severity: 'error' | 'warning';
   suggestion?: string;                           // Auto-fix suggestion
-  autoFixValue?: any;                           // Proposed fix value
+  autoFixValue?: any;                           // Proposed fix value (the top of `fixes`)
+  fixes?: FixCandidate[];                        // Ranked candidate fixes with rationale
+  ruleId?: string;                               // Set when raised by a user-authored rule
+  relatedRuleIds?: string[];                     // Full (minimal) rule set behind a rule conflict
+  code?: ValidatorCode;                          // Registry code of the validator that raised it
 }
 
 export interface ValidationSummary {
@@ -27,11 +34,13 @@ interface ValidationState {
   errors: ValidationError[];
   summary: ValidationSummary;
   isValidating: boolean;
+  progress: ValidationProgress | null;           // set while a background run is in flight
   setErrors: (errors: ValidationError[]) => void;
   addError: (error: ValidationError) => void;
   removeError: (errorId: string) => void;
   clearErrors: () => void;
   setValidating: (validating: boolean) => void;
+  setProgress: (progress: ValidationProgress | null) => void;
   getErrorsForEntity: (entity: 'clients' | 'workers' | 'tasks') => ValidationError[];
   getErrorsForRow: (entity: 'clients' | 'workers' | 'tasks', rowIndex: number) => ValidationError[];
   hasErrors: () => boolean;
@@ -50,12 +59,10 @@ export const useValidationStore = create<ValidationState>((set, get) => ({
     criticalIssues: 0,
   },
   isValidating: false,
+  progress: null,
 
   setErrors: (errors) => {
-    const criticalErrors = errors.filter(e => 
-      e.severity === 'error' && 
-      ['duplicate', 'missing', 'malformed', 'unknown'].some(type => e.id.includes(type))
-    );
+    const criticalErrors = errors.filter(isCriticalError);
 
     const summary: ValidationSummary = {
       totalErrors: errors.filter(e => e.severity === 'error').length,
@@ -96,6 +103,8 @@ export const useValidationStore = create<ValidationState>((set, get) => ({
 
   setValidating: (isValidating) => set({ isValidating }),
 
+  setProgress: (progress) => set({ progress }),
+
   getErrorsForEntity: (entity) => {
     return get().errors.filter(e => e.entity === entity);
   },
@@ -109,9 +118,6 @@ export const useValidationStore = create<ValidationState>((set, get) => ({
   },
 
   getCriticalErrors: () => {
-    return get().errors.filter(e => 
-      e.severity === 'error' && 
-      ['duplicate', 'missing', 'malformed', 'unknown'].some(type => e.id.includes(type))
-    );
+    return get().errors.filter(isCriticalError);
   },
 }));
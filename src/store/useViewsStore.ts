@@ -0,0 +1,86 @@
+// src/store/useViewsStore.ts
+// Saved views per entity (utils/views.ts) plus the query behind each entity's current filtered view.
+// - `current[entity]` is set whenever a search or a saved view fills the filtered view; it only
+//   means something while `useDataStore.filtered[entity]` is set (uploads clear those views).
+// - `viewId` links the current view to the saved view it came from, so the UI can name the scope.
+// - Saved views are persisted with the workspace (useWorkspaceStore).
+
+import { create } from 'zustand';
+import type { EntityKey } from './useDataStore';
+import type { Query } from '../utils/dsl';
+import { SavedView, SharedView, makeViewId, sameView } from '../utils/views';
+
+interface CurrentView {
+  query: Query;
+  viewId: string | null;
+}
+
+interface ViewsState {
+  views: SavedView[];
+  current: Partial<Record<EntityKey, CurrentView>>;
+
+  setCurrent: (entity: EntityKey, query: Query | null, viewId?: string | null) => void;
+  /** Save the entity's current query under `name` (an existing view with that name is replaced). */
+  saveCurrent: (entity: EntityKey, name: string) => SavedView | null;
+  /** Add a shared view; returns the existing view when the same query is already saved. */
+  importView: (shared: SharedView, pinned?: boolean) => SavedView;
+  rename: (id: string, name: string) => void;
+  togglePin: (id: string) => void;
+  remove: (id: string) => void;
+  load: (views: SavedView[]) => void;
+}
+
+export const useViewsStore = create<ViewsState>((set, get) => ({
+  views: [],
+  current: {},
+
+  setCurrent: (entity, query, viewId = null) =>
+    set((s) => {
+      const current = { ...s.current };
+      if (query) current[entity] = { query, viewId };
+      else delete current[entity];
+      return { current };
+    }),
+
+  saveCurrent: (entity, name) => {
+    const cur = get().current[entity];
+    const trimmed = name.trim();
+    if (!cur || !trimmed) return null;
+    const existing = get().views.find((v) => v.entity === entity && v.name === trimmed);
+    const view: SavedView = existing
+      ? { ...existing, query: cur.query }
+      : { id: makeViewId(), name: trimmed, entity, query: cur.query, pinned: false, createdAt: Date.now() };
+    set((s) => ({
+      views: existing ? s.views.map((v) => (v.id === existing.id ? view : v)) : [...s.views, view],
+      current: { ...s.current, [entity]: { query: cur.query, viewId: view.id } },
+    }));
+    return view;
+  },
+
+  importView: (shared, pinned = true) => {
+    const existing = get().views.find((v) => sameView(v, shared));
+    if (existing) return existing;
+    const taken = new Set(get().views.filter((v) => v.entity === shared.entity).map((v) => v.name));
+    let name = shared.name;
+    for (let n = 2; taken.has(name); n++) name = `${shared.name} (${n})`;
+    const view: SavedView = { id: makeViewId(), name, entity: shared.entity, query: shared.query, pinned, createdAt: Date.now() };
+    set((s) => ({ views: [...s.views, view] }));
+    return view;
+  },
+
+  rename: (id, name) =>
+    set((s) => ({ views: s.views.map((v) => (v.id === id && name.trim() ? { ...v, name: name.trim() } : v)) })),
+
+  togglePin: (id) => set((s) => ({ views: s.views.map((v) => (v.id === id ? { ...v, pinned: !v.pinned } : v)) })),
+
+  remove: (id) =>
+    set((s) => {
+      const current = { ...s.current };
+      (Object.keys(current) as EntityKey[]).forEach((e) => {
+        if (current[e]?.viewId === id) current[e] = { ...current[e]!, viewId: null };
+      });
+      return { views: s.views.filter((v) => v.id !== id), current };
+    }),
+
+  load: (views) => set({ views, current: {} }),
+}));
@@ -0,0 +1,266 @@
+// src/store/useWorkspaceStore.ts
+// Named workspaces persisted to IndexedDB (utils/workspaceDb.ts).
+// - `init()` purges expired records, loads prefs and offers the last session for restore (never auto-loads).
+// - With autosave on, data / rules / saved views / profile / priorities changes are saved to the current workspace after a short debounce.
+// - "Clear all saved data" holds autosave until new data is uploaded (`startSession`), so the cleared session isn't written back.
+// - Undo history and validation results are not stored; they are rebuilt after a restore.
+
+import { create } from 'zustand';
+import { useDataStore, EntityKey } from './useDataStore';
+import { useRulesStore } from './useRulesStore';
+import { useViewsStore } from './useViewsStore';
+import { useValidationProfileStore } from './useValidationProfileStore';
+import { usePrioritiesStore, PresetKey } from './usePrioritiesStore';
+import { useHistoryStore } from './useHistoryStore';
+import { useAllocationStore } from './useAllocationStore';
+import { requestValidation } from '../utils/validationRunner';
+import {
+  WorkspaceRecord,
+  WorkspaceSnapshot,
+  WorkspaceSummary,
+  WorkspacePrefs,
+  DEFAULT_PREFS,
+  isPersistenceAvailable,
+  saveWorkspace,
+  loadWorkspace,
+  listWorkspaces,
+  deleteWorkspace,
+  clearWorkspaces,
+  clearColumnMappings,
+  purgeExpired,
+  getPrefs,
+  setPrefs,
+} from '../utils/workspaceDb';
+
+const AUTOSAVE_DELAY_MS = 1000;
+const ENTITIES: EntityKey[] = ['clients', 'workers', 'tasks'];
+
+interface WorkspaceState {
+  available: boolean;
+  ready: boolean;
+  prefs: WorkspacePrefs;
+  current: string;
+  workspaces: WorkspaceSummary[];
+  pendingRestore: WorkspaceSummary | null;
+  lastSavedAt: number | null;
+  /** Autosave held after clearAll, until new data is loaded or the user saves */
+  autosavePaused: boolean;
+  error: string | null;
+
+  init: () => Promise<void>;
+  setCurrent: (name: string) => void;
+  save: (name?: string) => Promise<void>;
+  restore: (name: string) => Promise<boolean>;
+  dismissRestore: () => void;
+  startSession: () => void;
+  remove: (name: string) => Promise<void>;
+  clearAll: () => Promise<void>;
+  setAutosave: (on: boolean) => Promise<void>;
+  setRetention: (hours: number) => Promise<void>;
+}
+
+function captureWorkspace(): WorkspaceSnapshot {
+  const data = useDataStore.getState();
+  const filtered: WorkspaceSnapshot['filtered'] = {};
+  ENTITIES.forEach((e) => {
+    const view = data.filtered[e];
+    if (!view) return;
+    const base = data[e] as object[];
+    filtered[e] = view.map((row) => base.indexOf(row)).filter((i) => i >= 0);
+  });
+  const p = usePrioritiesStore.getState();
+  return {
+    clients: data.clients,
+    workers: data.workers,
+    tasks: data.tasks,
+    filtered,
+    columns: data.columns,
+    rules: useRulesStore.getState().rules,
+    views: useViewsStore.getState().views,
+    validationProfile: useValidationProfileStore.getState().exportProfile(),
+    priorities: { weights: p.weights, mode: p.mode, preset: p.preset, pairwise: p.pairwise, ranking: p.ranking },
+  };
+}
+
+function applyWorkspace(rec: WorkspaceRecord) {
+  const data = useDataStore.getState();
+  data.setClients(rec.clients);
+  data.setWorkers(rec.workers);
+  data.setTasks(rec.tasks);
+  data.setColumns(rec.columns ?? {});
+  ENTITIES.forEach((e) => {
+    const idx = rec.filtered?.[e];
+    const base = useDataStore.getState()[e] as any[];
+    data.setFiltered(e, idx ? idx.map((i) => base[i]).filter(Boolean) : null);
+  });
+  useRulesStore.setState({ rules: rec.rules ?? [] });
+  useViewsStore.getState().load(rec.views ?? []);
+  useValidationProfileStore.getState().loadProfile(rec.validationProfile);
+  if (rec.priorities) {
+    usePrioritiesStore.setState({ ...rec.priorities, preset: rec.priorities.preset as PresetKey | 'custom' });
+  }
+  useHistoryStore.getState().clear();
+  useAllocationStore.getState().clear();
+  requestValidation();
+}
+
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+let restoring = false;
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => {
+  const persistPrefs = async (patch: Partial<WorkspacePrefs>) => {
+    const prefs = { ...get().prefs, ...patch };
+    set({ prefs });
+    await setPrefs(prefs);
+  };
+
+  // Actions are called fire-and-forget from the UI: report IndexedDB failures through `error`
+  const fail = (what: string, err: unknown) => {
+    console.error(`${what} failed:`, err);
+    set({ error: err instanceof Error ? err.message : `${what} failed` });
+  };
+
+  const scheduleAutosave = () => {
+    // Don't overwrite the session the user is still being offered to restore
+    if (restoring || !get().ready || !get().prefs.autosave || get().autosavePaused || get().pendingRestore) return;
+    const { clients, workers, tasks } = useDataStore.getState();
+    if (clients.length + workers.length + tasks.length === 0) return;
+    if (autosaveTimer) clearTimeout(autosaveTimer);
+    autosaveTimer = setTimeout(() => {
+      autosaveTimer = null;
+      get().save();
+    }, AUTOSAVE_DELAY_MS);
+  };
+
+  return {
+    available: false,
+    ready: false,
+    prefs: DEFAULT_PREFS,
+    current: 'Last session',
+    workspaces: [],
+    pendingRestore: null,
+    lastSavedAt: null,
+    autosavePaused: false,
+    error: null,
+
+    init: async () => {
+      if (get().ready || !isPersistenceAvailable()) return;
+      try {
+        await purgeExpired();
+        const [prefs, workspaces] = await Promise.all([getPrefs(), listWorkspaces()]);
+        const last = workspaces.find((w) => w.name === prefs.lastWorkspace) ?? null;
+        const { clients, workers, tasks } = useDataStore.getState();
+        const empty = clients.length + workers.length + tasks.length === 0;
+        set({
+          available: true,
+          ready: true,
+          prefs,
+          workspaces,
+          current: last?.name ?? get().current,
+          pendingRestore: empty ? last : null,
+        });
+
+        useDataStore.subscribe(scheduleAutosave);
+        useRulesStore.subscribe(scheduleAutosave);
+        useViewsStore.subscribe(scheduleAutosave);
+        useValidationProfileStore.subscribe(scheduleAutosave);
+        usePrioritiesStore.subscribe(scheduleAutosave);
+      } catch (err) {
+        console.warn('Workspace storage unavailable:', err);
+        set({ available: false, ready: true, error: 'Local storage is unavailable in this browser' });
+      }
+    },
+
+    setCurrent: (name) => set({ current: name }),
+
+    save: async (name) => {
+      const target = (name ?? get().current).trim() || 'Untitled';
+      const now = Date.now();
+      try {
+        await saveWorkspace({
+          ...captureWorkspace(),
+          name: target,
+          savedAt: now,
+          expiresAt: now + get().prefs.retentionHours * 3600_000,
+        });
+        await persistPrefs({ lastWorkspace: target });
+        set({ current: target, lastSavedAt: now, workspaces: await listWorkspaces(), autosavePaused: false, error: null });
+      } catch (err) {
+        fail('Saving workspace', err);
+      }
+    },
+
+    restore: async (name) => {
+      try {
+        const rec = await loadWorkspace(name);
+        if (!rec) {
+          set({ error: `Workspace "${name}" is missing or expired`, pendingRestore: null, workspaces: await listWorkspaces() });
+          return false;
+        }
+        restoring = true;
+        try {
+          applyWorkspace(rec);
+        } finally {
+          restoring = false;
+        }
+        await persistPrefs({ lastWorkspace: name });
+        set({ current: name, pendingRestore: null, lastSavedAt: rec.savedAt, error: null });
+        return true;
+      } catch (err) {
+        fail('Restoring workspace', err);
+        return false;
+      }
+    },
+
+    dismissRestore: () => set({ pendingRestore: null }),
+
+    // New data replaces the session: the restore offer no longer applies and autosave may resume
+    startSession: () => {
+      set({ pendingRestore: null, autosavePaused: false });
+      scheduleAutosave();
+    },
+
+    remove: async (name) => {
+      try {
+        await deleteWorkspace(name);
+        if (get().prefs.lastWorkspace === name) await persistPrefs({ lastWorkspace: null });
+        set({ workspaces: await listWorkspaces(), error: null });
+      } catch (err) {
+        fail('Deleting workspace', err);
+      }
+    },
+
+    clearAll: async () => {
+      if (autosaveTimer) clearTimeout(autosaveTimer);
+      set({ autosavePaused: true });
+      try {
+        await clearWorkspaces();
+        await clearColumnMappings();
+        await persistPrefs({ lastWorkspace: null });
+        set({ workspaces: [], pendingRestore: null, lastSavedAt: null, error: null });
+      } catch (err) {
+        fail('Clearing saved data', err);
+      }
+    },
+
+    setAutosave: async (on) => {
+      try {
+        await persistPrefs({ autosave: on });
+      } catch (err) {
+        fail('Saving preferences', err);
+      }
+      if (on) {
+        set({ autosavePaused: false });
+        scheduleAutosave();
+      } else if (autosaveTimer) clearTimeout(autosaveTimer);
+    },
+
+    setRetention: async (hours) => {
+      try {
+        await persistPrefs({ retentionHours: hours });
+      } catch (err) {
+        fail('Saving preferences', err);
+      }
+    },
+  };
+});
@@ -0,0 +1,417 @@
+// src/utils/allocator.ts
+// Deterministic allocation engine: turns clients' RequestedTaskIDs into
+// (client, task, worker, phases) assignments while honouring worker slots,
+// per-phase load, required skills, task duration/concurrency and the rule set.
+// Same input always yields the same schedule (no randomness, stable tie-breaks).
+
+import type { Client, Worker, Task } from '../store/useDataStore';
+import type { Rule } from '../rules/schema';
+import {
+  ObjectiveWeights,
+  DEFAULT_WEIGHTS,
+  normalizeWeights,
+  requestScore,
+  candidateScore,
+  allowsPhaseSpill,
+} from './scoring';
+import { parsePhases } from './parseFile';
+
+export interface Assignment {
+  clientId: string;
+  taskId: string;
+  workerId: string;
+  startPhase: number;
+  phases: number[];              // consecutive phases covered (length = Duration)
+}
+
+export type UnassignedReason =
+  | 'unknownTask'        // requested TaskID does not exist
+  | 'noQualifiedWorker'  // nobody has all RequiredSkills
+  | 'noPhaseWindow'      // PreferredPhases ∩ phaseWindow/slot rules is empty or too short for Duration
+  | 'capacity'           // qualified workers exist but are full / MaxConcurrent reached
+  | 'coRun';             // co-run bundle could not be placed together
+
+export interface UnassignedRequest {
+  clientId: string;
+  taskId: string;
+  reason: UnassignedReason;
+  detail: string;
+}
+
+export interface AllocationResult {
+  assignments: Assignment[];
+  unassigned: UnassignedRequest[];
+  phases: number[];                                       // planning horizon
+  workerLoad: Record<string, Record<number, number>>;     // WorkerID -> phase -> used slots
+  notes: string[];                                        // rules skipped/relaxed during the run
+  weights: ObjectiveWeights;                              // objective weights the run was scored with
+  generatedAt: string;
+}
+
+type Request = { clientId: string; taskId: string; priority: number; order: number; score: number };
+
+type TaskInfo = {
+  task: Task;
+  skills: string[];
+  window: number[];         // allowed phases after PreferredPhases + rules
+  spill: number[];          // phases allowed by rules alone (used when fulfilment outweighs PreferredPhases)
+  duration: number;
+  maxConcurrent: number;
+};
+
+type WorkerInfo = {
+  worker: Worker;
+  skills: string[];
+  slots: Set<number>;
+  capacity: number;         // min(MaxLoadPerPhase, loadLimit rules)
+};
+
+/**
+ * Run the allocator over the current entities and rules.
+ * Requests are served by precedenceOverride, then by weighted request score
+ * (PriorityLevel vs. scarcity), then by their position in the sheet.
+ * `weights` are normalised objective weights from usePrioritiesStore.
+ */
+export function allocate(
+  clients: Client[],
+  workers: Worker[],
+  tasks: Task[],
+  rules: Rule[] = [],
+  weights: ObjectiveWeights = normalizeWeights(DEFAULT_WEIGHTS)
+): AllocationResult {
+  const notes: string[] = [];
+  const spillAllowed = allowsPhaseSpill(weights);
+  const effPriority = effectiveRulePriorities(rules);
+
+  // ---- Horizon ----
+  const horizon = new Set<number>();
+  workers.forEach((w) => parseNumList(w.AvailableSlots).forEach((p) => horizon.add(p)));
+  tasks.forEach((t) => parseNumList(t.PreferredPhases).forEach((p) => horizon.add(p)));
+  rules.forEach((r) => r.type === 'phaseWindow' && r.allowedPhases.forEach((p) => horizon.add(p)));
+  const phases = [...horizon].filter((p) => Number.isInteger(p) && p >= 1).sort((a, b) => a - b);
+
+  // ---- Workers (+ loadLimit / WorkerGroup slotRestriction) ----
+  const workerInfos: WorkerInfo[] = workers
+    .filter((w) => w.WorkerID)
+    .map((w) => ({
+      worker: w,
+      skills: parseList(w.Skills).map((s) => s.toLowerCase()),
+      slots: new Set(parseNumList(w.AvailableSlots)),
+      capacity: Math.max(0, Number(w.MaxLoadPerPhase) || 0),
+    }));
+
+  for (const r of rules) {
+    if (r.type === 'loadLimit') {
+      workerInfos
+        .filter((wi) => r.groupIds.includes(String(wi.worker.WorkerGroup ?? '')))
+        .forEach((wi) => { wi.capacity = Math.min(wi.capacity, r.maxSlotsPerPhase); });
+    }
+    if (r.type === 'slotRestriction' && r.groupType === 'WorkerGroup') {
+      const members = workerInfos.filter((wi) => r.groupIds.includes(String(wi.worker.WorkerGroup ?? '')));
+      const common = intersectAll(members.map((wi) => [...wi.slots]));
+      if (members.length === 0) continue;
+      if (common.length < r.minCommonSlots) {
+        notes.push(`slotRestriction ${r.id}: groups share ${common.length} slot(s), need ${r.minCommonSlots}; rule skipped`);
+        continue;
+      }
+      members.forEach((wi) => { wi.slots = new Set(common); });
+    }
+  }
+
+  // ---- Tasks (+ phaseWindow) ----
+  const taskInfos = new Map<string, TaskInfo>();
+  for (const t of tasks) {
+    if (!t.TaskID || taskInfos.has(t.TaskID)) continue;
+    const preferred = parseNumList(t.PreferredPhases);
+    let window = preferred.length ? preferred : [...phases];
+    let spill = [...phases];
+    const pw = rules
+      .filter((r): r is Extract<Rule, { type: 'phaseWindow' }> => r.type === 'phaseWindow' && r.taskId === t.TaskID)
+      .sort((a, b) => (effPriority.get(a.id) ?? a.priority) - (effPriority.get(b.id) ?? b.priority));
+    for (const r of pw) {
+      // The window always bounds spill-over; an empty spill ends up as a noPhaseWindow failure
+      spill = spill.filter((p) => r.allowedPhases.includes(p));
+      const narrowed = window.filter((p) => r.allowedPhases.includes(p));
+      if (narrowed.length === 0) {
+        notes.push(`phaseWindow ${r.id}: no overlap with ${t.TaskID} PreferredPhases; kept only as a limit on spill-over`);
+        continue;
+      }
+      window = narrowed;
+    }
+    taskInfos.set(t.TaskID, {
+      task: t,
+      skills: parseList(t.RequiredSkills).map((s) => s.toLowerCase()),
+      window: [...new Set(window)].sort((a, b) => a - b),
+      spill,
+      duration: Math.max(1, Math.floor(Number(t.Duration) || 1)),
+      maxConcurrent: Math.max(1, Math.floor(Number(t.MaxConcurrent) || 1)),
+    });
+  }
+
+  // ---- Requests ----
+  const taskBoost = new Map<string, number>();
+  rules.forEach((r) => {
+    if (r.type === 'precedenceOverride' && r.taskId) {
+      taskBoost.set(r.taskId, Math.min(taskBoost.get(r.taskId) ?? Infinity, r.priority));
+    }
+  });
+
+  const qualifiedCount = new Map<string, number>();
+  taskInfos.forEach((info, tid) => {
+    qualifiedCount.set(tid, workerInfos.filter((wi) => hasSkills(wi, info)).length);
+  });
+
+  const requests: Request[] = [];
+  clients.forEach((c, ci) => {
+    if (!c.ClientID) return;
+    const seen = new Set<string>();
+    const priority = Number(c.PriorityLevel) || 0;
+    parseList(c.RequestedTaskIDs).forEach((tid, ti) => {
+      if (seen.has(tid)) return;
+      seen.add(tid);
+      const score = requestScore(weights, priority, qualifiedCount.get(tid) ?? 0);
+      requests.push({ clientId: c.ClientID, taskId: tid, priority, order: ci * 1000 + ti, score });
+    });
+  });
+  requests.sort((a, b) =>
+    (taskBoost.get(a.taskId) ?? Infinity) - (taskBoost.get(b.taskId) ?? Infinity) ||
+    b.score - a.score ||
+    a.order - b.order
+  );
+
+  // ---- ClientGroup slotRestriction: restrict group requests to their common window ----
+  const clientWindow = new Map<string, number[]>();
+  for (const r of rules) {
+    if (r.type !== 'slotRestriction' || r.groupType !== 'ClientGroup') continue;
+    const groupClients = new Set(
+      clients.filter((c) => r.groupIds.includes(clientGroupOf(c))).map((c) => c.ClientID)
+    );
+    const groupReqs = requests.filter((q) => groupClients.has(q.clientId) && taskInfos.has(q.taskId));
+    if (groupReqs.length === 0) continue;
+    const common = intersectAll(groupReqs.map((q) => taskInfos.get(q.taskId)!.window));
+    if (common.length < r.minCommonSlots) {
+      notes.push(`slotRestriction ${r.id}: client groups share ${common.length} phase(s), need ${r.minCommonSlots}; rule skipped`);
+      continue;
+    }
+    groupClients.forEach((id) => clientWindow.set(id, common));
+  }
+
+  // ---- Co-run bundles (per client) ----
+  const coRuns = rules
+    .filter((r): r is Extract<Rule, { type: 'coRun' }> => r.type === 'coRun')
+    .sort((a, b) => (effPriority.get(a.id) ?? a.priority) - (effPriority.get(b.id) ?? b.priority));
+
+  // ---- State ----
+  const workerLoad: Record<string, Record<number, number>> = {};
+  const taskLoad = new Map<string, Map<number, number>>();
+  const assignments: Assignment[] = [];
+  const unassigned: UnassignedRequest[] = [];
+  const done = new Set<string>(); // `${clientId}::${taskId}`
+
+  const load = (wid: string, p: number) => workerLoad[wid]?.[p] ?? 0;
+  const tload = (tid: string, p: number) => taskLoad.get(tid)?.get(p) ?? 0;
+
+  const commit = (q: Request, info: TaskInfo, wi: WorkerInfo, start: number) => {
+    const span = spanFrom(start, info.duration);
+    const wid = wi.worker.WorkerID;
+    workerLoad[wid] = workerLoad[wid] ?? {};
+    const tl = taskLoad.get(q.taskId) ?? new Map<number, number>();
+    span.forEach((p) => {
+      workerLoad[wid][p] = load(wid, p) + 1;
+      tl.set(p, (tl.get(p) ?? 0) + 1);
+    });
+    taskLoad.set(q.taskId, tl);
+    assignments.push({ clientId: q.clientId, taskId: q.taskId, workerId: wid, startPhase: start, phases: span });
+    done.add(`${q.clientId}::${q.taskId}`);
+  };
+
+  const windowFor = (q: Request, info: TaskInfo, base = info.window) => {
+    const cw = clientWindow.get(q.clientId);
+    return cw ? base.filter((p) => cw.includes(p)) : base;
+  };
+
+  const minPhase = phases[0] ?? 1;
+  const phaseRange = Math.max(1, (phases[phases.length - 1] ?? 1) - minPhase);
+  const maxQual = Math.max(1, ...workerInfos.map((wi) => Number(wi.worker.QualificationLevel) || 0));
+
+  // Feasible (worker, start) candidates for one request, best (highest weighted score) first
+  const candidates = (q: Request, info: TaskInfo, starts?: number[]) => {
+    const preferredWin = windowFor(q, info);
+    const win = spillAllowed ? windowFor(q, info, info.spill) : preferredWin;
+    const startList = (starts ?? win).filter((s) => spanFrom(s, info.duration).every((p) => win.includes(p)));
+    const out: { wi: WorkerInfo; start: number; score: number }[] = [];
+    for (const start of startList) {
+      const span = spanFrom(start, info.duration);
+      if (span.some((p) => tload(q.taskId, p) >= info.maxConcurrent)) continue;
+      const outsidePreferred = span.some((p) => !preferredWin.includes(p));
+      for (const wi of workerInfos) {
+        if (!hasSkills(wi, info)) continue;
+        if (span.every((p) => wi.slots.has(p) && load(wi.worker.WorkerID, p) < wi.capacity)) {
+          const wid = wi.worker.WorkerID;
+          const score = candidateScore(weights, {
+            startNorm: (start - minPhase) / phaseRange,
+            loadNorm: totalLoad(workerLoad, wid) / Math.max(1, wi.capacity * wi.slots.size),
+            qualificationNorm: (Number(wi.worker.QualificationLevel) || 0) / maxQual,
+            outsidePreferred,
+          });
+          out.push({ wi, start, score });
+        }
+      }
+    }
+    return out.sort((a, b) =>
+      b.score - a.score ||
+      a.start - b.start ||
+      a.wi.worker.WorkerID.localeCompare(b.wi.worker.WorkerID)
+    );
+  };
+
+  const explainFailure = (q: Request, info: TaskInfo): UnassignedRequest => {
+    const win = windowFor(q, info, spillAllowed ? info.spill : info.window);
+    const starts = win.filter((s) => spanFrom(s, info.duration).every((p) => win.includes(p)));
+    if (starts.length === 0) {
+      return { clientId: q.clientId, taskId: q.taskId, reason: 'noPhaseWindow', detail: `No ${info.duration} consecutive phase(s) in allowed window [${win.join(',')}]` };
+    }
+    if (!workerInfos.some((wi) => hasSkills(wi, info))) {
+      return { clientId: q.clientId, taskId: q.taskId, reason: 'noQualifiedWorker', detail: `No worker has all of: ${info.skills.join(', ') || '(none)'}` };
+    }
+    return { clientId: q.clientId, taskId: q.taskId, reason: 'capacity', detail: 'Qualified workers or task concurrency are fully booked in the allowed phases' };
+  };
+
+  const placeSingle = (q: Request) => {
+    const info = taskInfos.get(q.taskId);
+    if (!info) {
+      unassigned.push({ clientId: q.clientId, taskId: q.taskId, reason: 'unknownTask', detail: `Task ${q.taskId} not found` });
+      done.add(`${q.clientId}::${q.taskId}`);
+      return;
+    }
+    const best = candidates(q, info)[0];
+    if (best) commit(q, info, best.wi, best.start);
+    else {
+      unassigned.push(explainFailure(q, info));
+      done.add(`${q.clientId}::${q.taskId}`);
+    }
+  };
+
+  // Try to place a co-run bundle at a shared start phase; all-or-nothing.
+  const placeBundle = (bundle: Request[]): boolean => {
+    const infos = bundle.map((q) => taskInfos.get(q.taskId)!);
+    const starts = intersectAll(bundle.map((q, i) => windowFor(q, infos[i], spillAllowed ? infos[i].spill : infos[i].window)));
+    for (const start of starts) {
+      const snapshotW = JSON.stringify(workerLoad);
+      const snapshotT = new Map([...taskLoad].map(([k, v]) => [k, new Map(v)]));
+      const snapshotA = assignments.length;
+      let ok = true;
+      for (let i = 0; i < bundle.length; i++) {
+        const c = candidates(bundle[i], infos[i], [start])[0];
+        if (!c) { ok = false; break; }
+        commit(bundle[i], infos[i], c.wi, c.start);
+      }
+      if (ok) return true;
+      // roll back partial placement
+      Object.keys(workerLoad).forEach((k) => delete workerLoad[k]);
+      Object.assign(workerLoad, JSON.parse(snapshotW));
+      taskLoad.clear();
+      snapshotT.forEach((v, k) => taskLoad.set(k, v));
+      assignments.splice(snapshotA).forEach((a) => done.delete(`${a.clientId}::${a.taskId}`));
+    }
+    return false;
+  };
+
+  for (const q of requests) {
+    if (done.has(`${q.clientId}::${q.taskId}`)) continue;
+
+    const rule = coRuns.find((r) => r.tasks.includes(q.taskId));
+    if (rule && taskInfos.has(q.taskId)) {
+      const bundle = requests.filter(
+        (x) => x.clientId === q.clientId && rule.tasks.includes(x.taskId) && taskInfos.has(x.taskId) && !done.has(`${x.clientId}::${x.taskId}`)
+      );
+      if (bundle.length > 1) {
+        if (placeBundle(bundle)) continue;
+
+        // A higher-ranked phaseWindow on one of the bundle's tasks wins over the co-run
+        const coRunRank = effPriority.get(rule.id) ?? rule.priority;
+        const outranked = rules.some(
+          (r) => r.type === 'phaseWindow' && rule.tasks.includes(r.taskId) && (effPriority.get(r.id) ?? r.priority) < coRunRank
+        );
+        if (outranked) {
+          notes.push(`coRun ${rule.id}: relaxed for ${q.clientId} (outranked by a phaseWindow rule)`);
+          bundle.forEach(placeSingle);
+        } else {
+          bundle.forEach((x) => {
+            unassigned.push({ clientId: x.clientId, taskId: x.taskId, reason: 'coRun', detail: `Co-run group ${rule.tasks.join(', ')} has no shared feasible start phase` });
+            done.add(`${x.clientId}::${x.taskId}`);
+          });
+        }
+        continue;
+      }
+    }
+
+    placeSingle(q);
+  }
+
+  return { assignments, unassigned, phases, workerLoad, notes, weights, generatedAt: new Date().toISOString() };
+}
+
+/** Flatten an allocation into rows suitable for XLSX/CSV export. */
+export function allocationToRows(result: AllocationResult) {
+  return {
+    assignments: result.assignments.map((a) => ({
+      ClientID: a.clientId,
+      TaskID: a.taskId,
+      WorkerID: a.workerId,
+      StartPhase: a.startPhase,
+      Phases: JSON.stringify(a.phases),
+    })),
+    unassigned: result.unassigned.map((u) => ({
+      ClientID: u.clientId,
+      TaskID: u.taskId,
+      Reason: u.reason,
+      Detail: u.detail,
+    })),
+  };
+}
+
+// --- helpers ---
+
+// precedenceOverride with ruleId re-ranks the targeted rule
+function effectiveRulePriorities(rules: Rule[]): Map<string, number> {
+  const m = new Map<string, number>();
+  rules.forEach((r) => m.set(r.id, r.priority));
+  rules.forEach((r) => {
+    if (r.type === 'precedenceOverride' && r.ruleId && m.has(r.ruleId)) m.set(r.ruleId, r.priority);
+  });
+  return m;
+}
+
+function hasSkills(wi: WorkerInfo, info: TaskInfo) {
+  return info.skills.every((s) => wi.skills.includes(s));
+}
+
+function totalLoad(load: Record<string, Record<number, number>>, wid: string) {
+  return Object.values(load[wid] ?? {}).reduce((a, b) => a + b, 0);
+}
+
+function spanFrom(start: number, duration: number): number[] {
+  return Array.from({ length: duration }, (_, i) => start + i);
+}
+
+function intersectAll(lists: number[][]): number[] {
+  if (lists.length === 0) return [];
+  return [...new Set(lists[0])].filter((p) => lists.every((l) => l.includes(p))).sort((a, b) => a - b);
+}
+
+function clientGroupOf(c: Client): string {
+  return String((c as any).ClientGroup ?? c.GroupTag ?? '');
+}
+
+function parseList(v: any): string[] {
+  if (v == null) return [];
+  if (Array.isArray(v)) return v.map((x) => String(x).trim()).filter(Boolean);
+  return String(v).split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+// Cells edited in the grid aren't re-normalized, so ranges like "1-3" can still show up here
+function parseNumList(v: any): number[] {
+  if (v == null || v === '') return [];
+  return parsePhases(Array.isArray(v) ? JSON.stringify(v.map(Number)) : String(v));
+}
@@ -0,0 +1,148 @@
+// src/utils/columnProfile.ts
+// Per-column profiling: null rate, distinct count, numeric / date / length stats, histograms,
+// most frequent values and value shapes (e.g. T\d+ for TaskIDs).
+// - The type guess comes from inferSchema, so profiles and the AI schema agree.
+// - profileSummary() renders a profile as one compact line per column for AI prompts.
+
+import { inferSchema, FieldSchema } from './schema';
+import { DateSettings, DEFAULT_DATE_SETTINGS, formatDate, parseDuration, parseTemporal } from './dates';
+
+export type HistogramBin = { from: number; to: number; count: number };
+
+export interface ColumnProfile {
+  name: string;
+  type: FieldSchema['type'];
+  count: number;                 // rows
+  nulls: number;                 // missing or blank
+  nullRate: number;              // 0..1
+  distinct: number;
+  /** numbers; dates as epoch ms (shown with formatDate); durations in ms */
+  stats?: { min: number; max: number; mean: number; histogram: HistogramBin[] };
+  top: { value: string; count: number }[];
+  length: { min: number; max: number; mean: number; histogram: HistogramBin[] };
+  patterns: { pattern: string; count: number }[];
+}
+
+export interface ProfileOptions {
+  dates?: DateSettings;
+  topN?: number;
+  bins?: number;
+}
+
+const blank = (v: unknown) => v === undefined || v === null || String(v).trim() === '';
+
+export function profileColumns(rows: Record<string, any>[], opts: ProfileOptions = {}): ColumnProfile[] {
+  const { dates = DEFAULT_DATE_SETTINGS, topN = 5, bins = 10 } = opts;
+  if (!rows?.length) return [];
+
+  return inferSchema(rows, 0, dates).map(({ name, type }) => {
+    const values = rows.map((r) => r?.[name]).filter((v) => !blank(v));
+    const texts = values.map((v) => (typeof v === 'string' ? v.trim() : JSON.stringify(v) ?? String(v)));
+
+    const freq = new Map<string, number>();
+    texts.forEach((t) => freq.set(t, (freq.get(t) ?? 0) + 1));
+    const top = [...freq.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, topN)
+      .map(([value, count]) => ({ value, count }));
+
+    const measure: ((v: unknown) => number | null) | null =
+      type === 'number' ? (v) => (Number.isFinite(Number(v)) ? Number(v) : null)
+        : type === 'date' || type === 'datetime' ? (v) => parseTemporal(v, dates)?.ms ?? null
+          : type === 'duration' ? parseDuration
+            : null;
+    const nums = measure ? values.map(measure).filter((n): n is number => n !== null) : [];
+    const lengths = texts.map((t) => t.length);
+
+    return {
+      name,
+      type,
+      count: rows.length,
+      nulls: rows.length - values.length,
+      nullRate: (rows.length - values.length) / rows.length,
+      distinct: freq.size,
+      ...(nums.length ? { stats: { ...summarize(nums), histogram: histogram(nums, bins) } } : {}),
+      top,
+      length: { ...summarize(lengths), histogram: histogram(lengths, bins) },
+      patterns: ['string', 'date', 'datetime', 'duration', 'unknown'].includes(type) ? detectPatterns(texts) : [],
+    };
+  });
+}
+
+function summarize(nums: number[]) {
+  if (!nums.length) return { min: 0, max: 0, mean: 0 };
+  let min = Infinity, max = -Infinity, sum = 0;
+  for (const n of nums) { if (n < min) min = n; if (n > max) max = n; sum += n; }
+  return { min, max, mean: sum / nums.length };
+}
+
+// Equal-width bins; integer data with a small range gets one bin per value
+function histogram(nums: number[], bins: number): HistogramBin[] {
+  if (!nums.length) return [];
+  const { min, max } = summarize(nums);
+  if (min === max) return [{ from: min, to: max, count: nums.length }];
+  const integral = nums.every(Number.isInteger) && max - min + 1 <= bins;
+  const n = integral ? max - min + 1 : bins;
+  const width = integral ? 1 : (max - min) / n;
+  const out: HistogramBin[] = Array.from({ length: n }, (_, i) => ({
+    from: min + i * width,
+    to: integral ? min + i : min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const v of nums) out[Math.min(n - 1, Math.floor((v - min) / width))].count++;
+  return out;
+}
+
+/** Shape of a value: digit runs → \d+, long letter runs → [A-Z]+ / [a-z]+ / [A-Za-z]+, short ones kept (prefixes). */
+export function valueShape(text: string): string {
+  return text.replace(/\d+|[A-Za-z]+|\s+|[^\dA-Za-z\s]/g, (run) => {
+    if (/^\d/.test(run)) return '\\d+';
+    if (/^\s/.test(run)) return '\\s';
+    if (/^[A-Za-z]/.test(run)) {
+      if (run.length <= 2) return run;
+      return /^[A-Z]+$/.test(run) ? '[A-Z]+' : /^[a-z]+$/.test(run) ? '[a-z]+' : '[A-Za-z]+';
+    }
+    return run.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  });
+}
+
+// Shapes covering at least 5% of the values (at most 3), most common first
+function detectPatterns(texts: string[]): { pattern: string; count: number }[] {
+  const shapes = new Map<string, number>();
+  texts.filter((t) => t.length <= 64).forEach((t) => {
+    const s = valueShape(t);
+    shapes.set(s, (shapes.get(s) ?? 0) + 1);
+  });
+  return [...shapes.entries()]
+    .filter(([, c]) => c / texts.length >= 0.05)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([pattern, count]) => ({ pattern, count }));
+}
+
+/** min / max / mean in the column's own units ("2024-01-05", "3d 4h", 2.5). */
+export function formatStat(p: ColumnProfile, n: number, dates: DateSettings = DEFAULT_DATE_SETTINGS): string {
+  if (p.type === 'date' || p.type === 'datetime') return formatDate(n, dates, p.type === 'datetime');
+  if (p.type === 'duration') {
+    const h = n / 3_600_000;
+    return h >= 48 ? `${+(h / 24).toFixed(1)}d` : h >= 1 ? `${+h.toFixed(1)}h` : `${Math.round(n / 60_000)}m`;
+  }
+  return String(Number.isInteger(n) ? n : +n.toFixed(2));
+}
+
+/** One line per column, e.g. `Duration (number): 8 distinct, range 1..6, mean 2.9; top 1 ×4, 2 ×3`. */
+export function profileSummary(profiles: ColumnProfile[], dates: DateSettings = DEFAULT_DATE_SETTINGS): string[] {
+  const clip = (s: string) => (s.length > 24 ? `${s.slice(0, 23)}…` : s);
+  return profiles.map((p) => {
+    const parts = [`${p.distinct} distinct`];
+    if (p.nulls) parts.unshift(`${Math.round(p.nullRate * 100)}% blank`);
+    if (p.stats) {
+      parts.push(`range ${formatStat(p, p.stats.min, dates)}..${formatStat(p, p.stats.max, dates)}`);
+      if (p.type === 'number') parts.push(`mean ${formatStat(p, p.stats.mean, dates)}`);
+    }
+    if (p.patterns[0] && p.patterns[0].count / Math.max(1, p.count - p.nulls) >= 0.8) parts.push(`pattern ${p.patterns[0].pattern}`);
+    const top = p.distinct < p.count - p.nulls ? p.top.filter((t) => t.count > 1).slice(0, 3) : [];
+    const tail = top.length ? `; top ${top.map((t) => `${JSON.stringify(clip(t.value))} ×${t.count}`).join(', ')}` : '';
+    return `${p.name} (${p.type}): ${parts.join(', ')}${tail}`;
+  });
+}
@@ -0,0 +1,295 @@
+// src/utils/dates.ts
+// Strict date / datetime / duration parsing shared by schema inference, the filter DSL and validators.
+// - Dates: ISO 8601 always, plus the configured formats (tokens YYYY MM M DD D, first match wins);
+//   any format may be followed by a time "HH:mm" / "HH:mm:ss" (T or space separated).
+// - Values without an explicit offset are wall-clock times in the configured timezone
+//   ('UTC', 'local' or an IANA name such as 'Europe/Berlin').
+// - Durations: ISO 8601 (P3DT4H), "2h 30m", "1.5 days", "90 min", "1:30" (h:mm). Bare numbers are not durations.
+// - Relative instants ("today", "30 days ago", "in 2 weeks") and ranges ("last 30 days", "this month").
+
+import type { DataEntity } from './validatorRegistry';
+
+export type TemporalType = 'date' | 'datetime' | 'duration';
+
+export interface DateSettings {
+  formats: string[];
+  timezone: string;
+}
+
+/** A column (or a key inside AttributesJSON, as "AttributesJSON.startDate") the DATE_RANGES validator checks. */
+export interface DateColumn {
+  entity: DataEntity;
+  field: string;
+  type: TemporalType;
+  min?: string;   // date or relative instant ("today", "1 year ago"); a duration for duration columns
+  max?: string;
+}
+
+/** Date settings as stored on a validation profile (every part optional). */
+export interface DateProfile {
+  formats?: string[];
+  timezone?: string;
+  columns?: DateColumn[];
+}
+
+export const DEFAULT_DATE_SETTINGS: DateSettings = {
+  formats: ['YYYY-MM-DD', 'YYYY/MM/DD', 'DD/MM/YYYY', 'DD.MM.YYYY'],
+  timezone: 'UTC',
+};
+
+export const resolveDateSettings = (p?: DateProfile): DateSettings => ({
+  formats: p?.formats?.length ? p.formats : DEFAULT_DATE_SETTINGS.formats,
+  timezone: p?.timezone || DEFAULT_DATE_SETTINGS.timezone,
+});
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const UNIT_MS: Record<string, number> = {
+  s: 1000, sec: 1000, secs: 1000, second: 1000, seconds: 1000,
+  m: MINUTE, min: MINUTE, mins: MINUTE, minute: MINUTE, minutes: MINUTE,
+  h: HOUR, hr: HOUR, hrs: HOUR, hour: HOUR, hours: HOUR,
+  d: DAY, day: DAY, days: DAY,
+  w: 7 * DAY, wk: 7 * DAY, week: 7 * DAY, weeks: 7 * DAY,
+};
+
+// ---- Timezones ----
+
+const dtfCache = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(tz: string): Intl.DateTimeFormat | null {
+  if (dtfCache.has(tz)) return dtfCache.get(tz)!;
+  try {
+    const f = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    dtfCache.set(tz, f);
+    return f;
+  } catch {
+    return null;   // unknown zone → treated as UTC
+  }
+}
+
+type Wall = { y: number; mo: number; d: number; h: number; mi: number; s: number };   // mo is 1-based
+
+/** Wall-clock parts of an instant in `tz`. */
+function wallParts(ms: number, tz: string): Wall {
+  if (tz === 'local') {
+    const d = new Date(ms);
+    return { y: d.getFullYear(), mo: d.getMonth() + 1, d: d.getDate(), h: d.getHours(), mi: d.getMinutes(), s: d.getSeconds() };
+  }
+  const f = tz === 'UTC' ? null : zoneFormatter(tz);
+  if (!f) {
+    const d = new Date(ms);
+    return { y: d.getUTCFullYear(), mo: d.getUTCMonth() + 1, d: d.getUTCDate(), h: d.getUTCHours(), mi: d.getUTCMinutes(), s: d.getUTCSeconds() };
+  }
+  const p = Object.fromEntries(f.formatToParts(new Date(ms)).map((x) => [x.type, x.value]));
+  return { y: +p.year, mo: +p.month, d: +p.day, h: +p.hour % 24, mi: +p.minute, s: +p.second };
+}
+
+/** Instant of a wall-clock time in `tz` (overflowing fields roll over, e.g. day 32). */
+function wallToMs(w: Wall, tz: string): number {
+  if (tz === 'local') return new Date(w.y, w.mo - 1, w.d, w.h, w.mi, w.s).getTime();
+  const guess = Date.UTC(w.y, w.mo - 1, w.d, w.h, w.mi, w.s);
+  if (tz === 'UTC' || !zoneFormatter(tz)) return guess;
+  const offset = (ms: number) => {
+    const p = wallParts(ms, tz);
+    return Date.UTC(p.y, p.mo - 1, p.d, p.h, p.mi, p.s) - Math.floor(ms / 1000) * 1000;
+  };
+  const first = guess - offset(guess);
+  const second = guess - offset(first);   // DST edges: re-check with the offset at the result
+  return second;
+}
+
+// ---- Dates ----
+
+const daysInMonth = (y: number, mo: number) => new Date(Date.UTC(y, mo, 0)).getUTCDate();
+
+const formatRegexCache = new Map<string, { re: RegExp; order: ('Y' | 'M' | 'D')[] }>();
+
+function compileFormat(fmt: string) {
+  if (formatRegexCache.has(fmt)) return formatRegexCache.get(fmt)!;
+  const order: ('Y' | 'M' | 'D')[] = [];
+  const src = fmt.replace(/YYYY|MM|M|DD|D|[.*+?^${}()|[\]\\]/g, (tok) => {
+    if (tok === 'YYYY') { order.push('Y'); return '(\\d{4})'; }
+    if (tok === 'MM' || tok === 'M') { order.push('M'); return tok === 'MM' ? '(\\d{2})' : '(\\d{1,2})'; }
+    if (tok === 'DD' || tok === 'D') { order.push('D'); return tok === 'DD' ? '(\\d{2})' : '(\\d{1,2})'; }
+    return '\\' + tok;
+  });
+  const compiled = { re: new RegExp(`^${src}(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2}))?)?$`), order };
+  formatRegexCache.set(fmt, compiled);
+  return compiled;
+}
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+/** Instant + whether a time of day was given, or null when the value is not a date in any accepted format. */
+export function parseTemporal(v: unknown, settings: DateSettings = DEFAULT_DATE_SETTINGS): { ms: number; hasTime: boolean } | null {
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : { ms: v.getTime(), hasTime: true };
+  if (typeof v !== 'string') return null;
+  const s = v.trim();
+  if (!s || s.length > 40) return null;
+
+  if (ISO_WITH_OFFSET.test(s)) {
+    const ms = Date.parse(s);
+    return Number.isFinite(ms) ? { ms, hasTime: true } : null;
+  }
+
+  const candidates: { m: RegExpExecArray; order: ('Y' | 'M' | 'D')[] }[] = [];
+  const iso = ISO_LOCAL.exec(s);
+  if (iso) candidates.push({ m: iso, order: ['Y', 'M', 'D'] });
+  for (const fmt of settings.formats) {
+    const { re, order } = compileFormat(fmt);
+    const m = re.exec(s);
+    if (m) candidates.push({ m, order });
+  }
+
+  for (const { m, order } of candidates) {
+    const parts: Record<string, number> = {};
+    order.forEach((k, i) => { parts[k] = Number(m[i + 1]); });
+    const [h, mi, sec] = [m[order.length + 1], m[order.length + 2], m[order.length + 3]].map((x) => (x ? Number(x) : 0));
+    const { Y, M, D } = parts;
+    if (!(M >= 1 && M <= 12 && D >= 1 && D <= daysInMonth(Y, M) && h <= 23 && mi <= 59 && sec <= 59)) continue;
+    return { ms: wallToMs({ y: Y, mo: M, d: D, h, mi, s: sec }, settings.timezone), hasTime: m[order.length + 1] !== undefined };
+  }
+  return null;
+}
+
+export const parseDate = (v: unknown, settings?: DateSettings) => parseTemporal(v, settings)?.ms ?? null;
+
+/** "YYYY-MM-DD" (or "YYYY-MM-DD HH:mm") in the configured timezone. */
+export function formatDate(ms: number, settings: DateSettings = DEFAULT_DATE_SETTINGS, withTime = false): string {
+  const w = wallParts(ms, settings.timezone);
+  const p = (n: number) => String(n).padStart(2, '0');
+  const date = `${w.y}-${p(w.mo)}-${p(w.d)}`;
+  return withTime ? `${date} ${p(w.h)}:${p(w.mi)}` : date;
+}
+
+// ---- Durations ----
+
+const ISO_DURATION = /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+const CLOCK_DURATION = /^(\d+):([0-5]\d)(?::([0-5]\d))?$/;
+const UNIT_PART = /(\d+(?:\.\d+)?)\s*([a-z]+)/gi;
+
+/** Duration in milliseconds, or null. Years / months in ISO durations count as 365 / 30 days. */
+export function parseDuration(v: unknown): number | null {
+  if (typeof v !== 'string') return null;
+  const s = v.trim();
+  if (!s) return null;
+
+  const iso = ISO_DURATION.exec(s);
+  if (iso && s.length > 1 && !/T$/i.test(s)) {
+    const [y, mo, w, d, h, mi, sec] = iso.slice(1).map((x) => (x ? Number(x) : 0));
+    return (y * 365 + mo * 30 + w * 7 + d) * DAY + h * HOUR + mi * MINUTE + sec * 1000;
+  }
+
+  const clock = CLOCK_DURATION.exec(s);
+  if (clock) return Number(clock[1]) * HOUR + Number(clock[2]) * MINUTE + (clock[3] ? Number(clock[3]) * 1000 : 0);
+
+  // "2h 30m", "1 day, 4 hours", "90 min": every part must be a known unit
+  let total = 0;
+  let consumed = '';
+  for (const m of s.matchAll(UNIT_PART)) {
+    const unit = UNIT_MS[m[2].toLowerCase()];
+    if (!unit) return null;
+    total += Number(m[1]) * unit;
+    consumed += m[0];
+  }
+  const rest = s.replace(UNIT_PART, '').replace(/[\s,]|and/gi, '');
+  return consumed && !rest ? total : null;
+}
+
+// ---- Relative instants and ranges ----
+
+type CalendarUnit = 'day' | 'week' | 'month' | 'year';
+const CALENDAR_UNIT: Record<string, CalendarUnit> = {
+  day: 'day', days: 'day', week: 'week', weeks: 'week', month: 'month', months: 'month', year: 'year', years: 'year',
+};
+
+function shift(ms: number, n: number, unit: CalendarUnit, tz: string): number {
+  if (unit === 'day') return ms + n * DAY;
+  if (unit === 'week') return ms + n * 7 * DAY;
+  const w = wallParts(ms, tz);
+  return unit === 'month' ? wallToMs({ ...w, mo: w.mo + n }, tz) : wallToMs({ ...w, y: w.y + n }, tz);
+}
+
+function startOf(ms: number, unit: CalendarUnit, tz: string): number {
+  const w = wallParts(ms, tz);
+  const day = { ...w, h: 0, mi: 0, s: 0 };
+  if (unit === 'day') return wallToMs(day, tz);
+  if (unit === 'week') {
+    const weekday = (new Date(Date.UTC(w.y, w.mo - 1, w.d)).getUTCDay() + 6) % 7;   // Monday = 0
+    return wallToMs({ ...day, d: w.d - weekday }, tz);
+  }
+  if (unit === 'month') return wallToMs({ ...day, d: 1 }, tz);
+  return wallToMs({ ...day, mo: 1, d: 1 }, tz);
+}
+
+/** "now", "today", "yesterday", "tomorrow", "30 days ago", "in 2 weeks", or an absolute date. */
+export function resolveInstant(v: unknown, settings: DateSettings = DEFAULT_DATE_SETTINGS, now = Date.now()): number | null {
+  const abs = parseDate(v, settings);
+  if (abs !== null) return abs;
+  if (typeof v !== 'string') return null;
+  const s = v.trim().toLowerCase();
+  const tz = settings.timezone;
+  if (s === 'now') return now;
+  if (s === 'today') return startOf(now, 'day', tz);
+  if (s === 'yesterday') return startOf(shift(now, -1, 'day', tz), 'day', tz);
+  if (s === 'tomorrow') return startOf(shift(now, 1, 'day', tz), 'day', tz);
+  const ago = /^(\d+)\s+(days?|weeks?|months?|years?)\s+ago$/.exec(s);
+  if (ago) return shift(now, -Number(ago[1]), CALENDAR_UNIT[ago[2]], tz);
+  const ahead = /^in\s+(\d+)\s+(days?|weeks?|months?|years?)$/.exec(s);
+  if (ahead) return shift(now, Number(ahead[1]), CALENDAR_UNIT[ahead[2]], tz);
+  return null;
+}
+
+/**
+ * Inclusive [from, to] for "today" / "yesterday" / "tomorrow", "last|past|next N days|weeks|months|years"
+ * (rolling, up to now) and "this|last|next week|month|year" (calendar periods, weeks start on Monday).
+ */
+export function resolveRelativeRange(
+  v: unknown,
+  settings: DateSettings = DEFAULT_DATE_SETTINGS,
+  now = Date.now()
+): { from: number; to: number } | null {
+  if (typeof v !== 'string') return null;
+  const s = v.trim().toLowerCase().replace(/\s+/g, ' ');
+  const tz = settings.timezone;
+  const period = (start: number, unit: CalendarUnit) => ({ from: start, to: shift(start, 1, unit, tz) - 1 });
+
+  if (s === 'today') return period(startOf(now, 'day', tz), 'day');
+  if (s === 'yesterday') return period(startOf(shift(now, -1, 'day', tz), 'day', tz), 'day');
+  if (s === 'tomorrow') return period(startOf(shift(now, 1, 'day', tz), 'day', tz), 'day');
+
+  const rolling = /^(last|past|previous|next|coming) (\d+) (days?|weeks?|months?|years?)$/.exec(s);
+  if (rolling) {
+    const n = Number(rolling[2]);
+    const unit = CALENDAR_UNIT[rolling[3]];
+    return /^(next|coming)$/.test(rolling[1])
+      ? { from: now, to: shift(now, n, unit, tz) }
+      : { from: shift(now, -n, unit, tz), to: now };
+  }
+
+  const calendar = /^(this|current|last|previous|next) (week|month|year)$/.exec(s);
+  if (calendar) {
+    const unit = CALENDAR_UNIT[calendar[2]];
+    const offset = calendar[1] === 'next' ? 1 : /^(last|previous)$/.test(calendar[1]) ? -1 : 0;
+    return period(startOf(shift(startOf(now, unit, tz), offset, unit, tz), unit, tz), unit);
+  }
+  return null;
+}
+
+/** Cell value by column name or "Column.key" inside a JSON object column (e.g. "AttributesJSON.startDate"). */
+export function readPath(row: Record<string, unknown>, path: string): unknown {
+  if (path in row) return row[path];
+  const dot = path.indexOf('.');
+  if (dot < 0) return undefined;
+  const raw = row[path.slice(0, dot)];
+  let obj: any = raw;
+  if (typeof raw === 'string') {
+    try { obj = JSON.parse(raw); } catch { return undefined; }
+  }
+  return path.slice(dot + 1).split('.').reduce((o, k) => (o && typeof o === 'object' ? o[k] : undefined), obj);
+}
@@ -1,13 +1,23 @@
 // src/utils/dsl.ts
 // Filter DSL + robust evaluator (case-insensitive, list-aware, safe).
 // AI will output this structure; we apply it locally to filter rows.
+// `Query` wraps a filter with orderBy / limit / select / groupBy / aggregates; see runQuery.
+// `any` / `all` test the rows related through a declared relation (utils/relations.ts); they need a FilterContext.
+// cmp / between / sorting compare numbers, then dates (any configured format, or "30 days ago"), then durations,
+// then text; `within` matches dates in a relative range ("last 30 days", "this month"). See utils/dates.ts.
+// explainFilter records every clause's result per row (match counts per node, why a row was excluded).
 
 import { z } from 'zod';
+import type { EntityKey } from '../store/useDataStore';
+import { findRelation, Relation } from './relations';
+import {
+  DateSettings, DEFAULT_DATE_SETTINGS, parseDate, parseDuration, resolveInstant, resolveRelativeRange,
+} from './dates';
 
 export const FilterNode = z.object({
   op: z.enum([
     'and', 'or', 'not',
-    'cmp',           // numeric or string compare: >, >=, <, <=, ==, !=
+    'cmp',           // numeric, date, duration or string compare: >, >=, <, <=, ==, !=
     'includes',      // list/CSV/JSON-array contains value
     'contains',      // substring contains (string fields)
     'in',            // field value in set
@@ -17,9 +27,13 @@ export const FilterNode = z.object({
     'regex',
     'exists',
     'notExists',
-    'between',       // numeric or date range
+    'between',       // numeric, date or duration range
+    'within',        // date in a relative range: value 'last 30 days', 'this month', 'today', …
+    'any',           // some related row matches children[0] (no child: has a related row)
+    'all',           // has related rows and every one matches children[0]
   ]),
   field: z.string().optional(),
+  relation: z.string().optional(),       // for any/all, e.g. 'requestedTasks'
   cmp: z.enum(['>', '>=', '<', '<=', '==', '!=']).optional(),
   value: z.any().optional(),
   values: z.array(z.any()).optional(),   // for in/nin
@@ -29,39 +43,175 @@ export const FilterNode = z.object({
 });
 export type FilterNode = z.infer<typeof FilterNode>;
 
-export function applyFilter(rows: any[], node: FilterNode): any[] {
-  const test = (row: any, n: FilterNode): boolean => {
+export const AggregateFn = z.enum(['count', 'sum', 'avg', 'min', 'max']);
+export type AggregateFn = z.infer<typeof AggregateFn>;
+
+export const Aggregate = z.object({
+  fn: AggregateFn,
+  field: z.string().optional(),   // omitted for count
+  as: z.string().optional(),      // output column; defaults to aggregateKey()
+});
+export type Aggregate = z.infer<typeof Aggregate>;
+
+export const OrderBy = z.object({
+  field: z.string(),              // a column, or an aggregate's output name when grouping
+  dir: z.enum(['asc', 'desc']).default('asc'),
+});
+export type OrderBy = z.infer<typeof OrderBy>;
+
+export const Query = z.object({
+  filter: FilterNode.optional(),
+  orderBy: z.array(OrderBy).optional(),
+  limit: z.number().int().positive().optional(),
+  select: z.array(z.string()).optional(),
+  groupBy: z.array(z.string()).optional(),
+  aggregates: z.array(Aggregate).optional(),
+});
+export type Query = z.infer<typeof Query>;
+
+/** Everything the relational ops need: which entity the rows are, plus every entity's rows. */
+export type FilterContext = {
+  entity: EntityKey;
+  data: Record<EntityKey, any[]>;
+  /** Date formats / timezone for date comparisons (defaults to DEFAULT_DATE_SETTINGS). */
+  dates?: DateSettings;
+};
+
+export type QueryGroup = {
+  key: Record<string, unknown>;       // groupBy field → value
+  values: Record<string, number | null>;   // aggregate output → value
+  rows: any[];
+};
+
+export type QueryResult =
+  | { kind: 'rows'; rows: any[]; columns: string[] | null }         // rows are the original objects (editable)
+  | { kind: 'groups'; groups: QueryGroup[]; groupBy: string[]; aggregates: string[] };
+
+export const aggregateKey = (a: Aggregate) => a.as || (a.fn === 'count' && !a.field ? 'count' : `${a.fn}_${a.field}`);
+
+/** Rows behind a result: the rows themselves, or every row in the listed groups. */
+export const resultRows = (r: QueryResult) => (r.kind === 'rows' ? r.rows : r.groups.flatMap((g) => g.rows));
+
+/** True when the query only selects rows (no sorting, limit, projection or grouping). */
+export const isPlainFilter = (q: Query) =>
+  !q.orderBy?.length && !q.limit && !q.select?.length && !q.groupBy?.length && !q.aggregates?.length;
+
+/** One clause of an explained filter; any/all are leaves (their sub-filter runs on related rows). */
+export type ExplainNode = {
+  id: number;              // index into FilterExplanation.results' arrays
+  node: FilterNode;
+  matched: number;         // rows for which this clause is true
+  children: ExplainNode[];
+};
+
+export type FilterExplanation = {
+  root: ExplainNode;
+  total: number;
+  matched: any[];
+  results: Map<any, boolean[]>;   // row → truth value per ExplainNode id
+};
+
+export function applyFilter(rows: any[], node: FilterNode, ctx?: FilterContext): any[] {
+  const test = filterTester(ctx);
+  return rows.filter((r) => test(r, node));
+}
+
+/** Like applyFilter, but every clause is evaluated (no short-circuit) and its result kept per row. */
+export function explainFilter(rows: any[], node: FilterNode, ctx?: FilterContext): FilterExplanation {
+  const ids = new Map<FilterNode, number>();
+  const build = (n: FilterNode): ExplainNode => {
+    const id = ids.size;
+    ids.set(n, id);
+    const leaf = n.op === 'any' || n.op === 'all';
+    return { id, node: n, matched: 0, children: leaf ? [] : (n.children ?? []).map(build) };
+  };
+  const root = build(node);
+
+  const results = new Map<any, boolean[]>();
+  let current: boolean[] = [];
+  const test = filterTester(ctx, (n, ok) => {
+    const id = ids.get(n);
+    if (id !== undefined) current[id] = ok;
+  });
+  const matched = rows.filter((r) => {
+    current = [];
+    const ok = test(r, node);
+    results.set(r, current);
+    return ok;
+  });
+
+  const count = (e: ExplainNode) => {
+    e.matched = rows.reduce((k, r) => k + (results.get(r)![e.id] ? 1 : 0), 0);
+    e.children.forEach(count);
+  };
+  count(root);
+  return { root, total: rows.length, matched, results };
+}
+
+/**
+ * The clauses that excluded `row`: the failing children of an and (recursively), every branch
+ * of an or, a not whose child held, or the failing leaf itself. Empty when the row matched.
+ */
+export function exclusionReasons(ex: FilterExplanation, row: any): ExplainNode[] {
+  const r = ex.results.get(row);
+  if (!r) return [];
+  const walk = (e: ExplainNode): ExplainNode[] => {
+    if (r[e.id]) return [];
+    if (e.node.op === 'and' || e.node.op === 'or') {
+      const failing = e.children.flatMap(walk);
+      return failing.length ? failing : [e];
+    }
+    return [e];
+  };
+  return walk(ex.root);
+}
+
+// Row predicate for a filter; with `trace`, and/or evaluate every child and each clause's result is reported
+function filterTester(ctx?: FilterContext, trace?: (n: FilterNode, ok: boolean) => void) {
+  const related = ctx ? relatedRowsResolver(ctx.data) : null;
+  const dates = ctx?.dates ?? DEFAULT_DATE_SETTINGS;
+  const now = Date.now();
+  const order = (a: unknown, b: unknown) => compareValues(a, b, dates, now);
+
+  const test = (row: any, n: FilterNode, entity: EntityKey | undefined = ctx?.entity): boolean => {
+    const ok = evaluate(row, n, entity);
+    trace?.(n, ok);
+    return ok;
+  };
+
+  // `entity` changes when any/all step into related rows
+  const evaluate = (row: any, n: FilterNode, entity: EntityKey | undefined): boolean => {
     switch (n.op) {
-      case 'and': return (n.children ?? []).every((c) => test(row, c));
-      case 'or':  return (n.children ?? []).some((c) => test(row, c));
-      case 'not': return !(n.children && n.children[0] ? test(row, n.children[0]) : false);
+      case 'and':
+        return trace
+          ? (n.children ?? []).map((c) => test(row, c, entity)).every(Boolean)
+          : (n.children ?? []).every((c) => test(row, c, entity));
+      case 'or':
+        return trace
+          ? (n.children ?? []).map((c) => test(row, c, entity)).some(Boolean)
+          : (n.children ?? []).some((c) => test(row, c, entity));
+      case 'not': return !(n.children && n.children[0] ? test(row, n.children[0], entity) : false);
+
+      case 'any':
+      case 'all': {
+        const rel = entity ? findRelation(entity, n.relation) : undefined;
+        if (!rel || !related) return false;
+        const linked = related(rel, row);
+        const sub = n.children?.[0];
+        const ok = (r: any) => (sub ? test(r, sub, rel.to) : true);
+        return n.op === 'any' ? linked.some(ok) : linked.length > 0 && linked.every(ok);
+      }
 
       case 'cmp': {
-        const Lraw = row[n.field!];
-        const Rraw = n.value;
-        const Ln = toNum(Lraw), Rn = toNum(Rraw);
-        const bothNum = Number.isFinite(Ln) && Number.isFinite(Rn);
-        if (bothNum) {
-          switch (n.cmp) {
-            case '>': return Ln > Rn;
-            case '>=': return Ln >= Rn;
-            case '<': return Ln < Rn;
-            case '<=': return Ln <= Rn;
-            case '==': return Ln === Rn;
-            case '!=': return Ln !== Rn;
-            default: return false;
-          }
-        } else {
-          const Ls = normStr(Lraw), Rs = normStr(Rraw);
-          switch (n.cmp) {
-            case '==': return Ls === Rs;
-            case '!=': return Ls !== Rs;
-            case '>': return Ls > Rs;
-            case '>=': return Ls >= Rs;
-            case '<': return Ls < Rs;
-            case '<=': return Ls <= Rs;
-            default: return false;
-          }
+        const c = order(row[n.field!], n.value);
+        switch (n.cmp) {
+          case '>': return c > 0;
+          case '>=': return c >= 0;
+          case '<': return c < 0;
+          case '<=': return c <= 0;
+          case '==': return c === 0;
+          case '!=': return c !== 0;
+          default: return false;
         }
       }
 
@@ -120,27 +270,183 @@ export function applyFilter(rows: any[], node: FilterNode): any[] {
       }
 
       case 'between': {
-        const L = toNum(row[n.field!]);
-        const A = toNum(n.from), B = toNum(n.to);
-        if (Number.isFinite(L) && Number.isFinite(A) && Number.isFinite(B)) {
-          const lo = Math.min(A, B), hi = Math.max(A, B);
-          return L >= lo && L <= hi;
-        }
-        // string/date fallback: lexical compare of normalized strings
-        const Ls = normStr(row[n.field!]);
-        const As = normStr(n.from); const Bs = normStr(n.to);
-        const lo = As < Bs ? As : Bs; const hi = As < Bs ? Bs : As;
-        return Ls >= lo && Ls <= hi;
+        const L = row[n.field!];
+        const [lo, hi] = order(n.from, n.to) <= 0 ? [n.from, n.to] : [n.to, n.from];
+        return order(L, lo) >= 0 && order(L, hi) <= 0;
+      }
+
+      case 'within': {
+        const range = resolveRelativeRange(n.value, dates, now);
+        const L = parseDate(row[n.field!], dates);
+        return !!range && L !== null && L >= range.from && L <= range.to;
       }
 
       default: return false;
     }
   };
-  return rows.filter((r) => test(r, node));
+  return test;
+}
+
+/** filter → group/aggregate → orderBy → limit. Without groupBy/aggregates the result is the row objects themselves. */
+export function runQuery(rows: any[], q: Query, ctx?: FilterContext): QueryResult {
+  const matched = q.filter ? applyFilter(rows, q.filter, ctx) : [...rows];
+  const grouped = !!(q.groupBy?.length || q.aggregates?.length);
+
+  if (!grouped) {
+    const sorted = sortBy(matched, q.orderBy ?? [], (r, f) => r?.[f], ctx?.dates ?? DEFAULT_DATE_SETTINGS);
+    return { kind: 'rows', rows: q.limit ? sorted.slice(0, q.limit) : sorted, columns: q.select?.length ? q.select : null };
+  }
+
+  const groupBy = q.groupBy ?? [];
+  const aggregates = q.aggregates?.length ? q.aggregates : [{ fn: 'count' as const }];
+  const buckets = new Map<string, QueryGroup>();
+  for (const row of matched) {
+    const keyVals = groupBy.map((f) => row?.[f] ?? null);
+    const id = JSON.stringify(keyVals.map(normStr));
+    let g = buckets.get(id);
+    if (!g) {
+      g = { key: Object.fromEntries(groupBy.map((f, i) => [f, keyVals[i]])), values: {}, rows: [] };
+      buckets.set(id, g);
+    }
+    g.rows.push(row);
+  }
+  // aggregates with no groupBy still return one (possibly empty) group
+  if (!groupBy.length && buckets.size === 0) buckets.set('[]', { key: {}, values: {}, rows: [] });
+
+  const groups = [...buckets.values()];
+  for (const g of groups) {
+    for (const a of aggregates) g.values[aggregateKey(a)] = aggregate(g.rows, a);
+  }
+
+  const sorted = sortBy(
+    groups, q.orderBy ?? [], (g, f) => (f in g.values ? g.values[f] : g.key[f]), ctx?.dates ?? DEFAULT_DATE_SETTINGS
+  );
+  return {
+    kind: 'groups',
+    groups: q.limit ? sorted.slice(0, q.limit) : sorted,
+    groupBy,
+    aggregates: aggregates.map(aggregateKey),
+  };
+}
+
+function aggregate(rows: any[], a: Aggregate): number | null {
+  if (a.fn === 'count') {
+    return a.field ? rows.filter((r) => String(r?.[a.field!] ?? '').trim() !== '').length : rows.length;
+  }
+  const nums = rows
+    .map((r) => r?.[a.field ?? ''])
+    .filter((v) => v !== undefined && v !== null && String(v).trim() !== '')
+    .map(toNum)
+    .filter(Number.isFinite);
+  if (!nums.length) return null;
+  switch (a.fn) {
+    case 'sum': return nums.reduce((x, y) => x + y, 0);
+    case 'avg': return nums.reduce((x, y) => x + y, 0) / nums.length;
+    case 'min': return Math.min(...nums);
+    case 'max': return Math.max(...nums);
+  }
+}
+
+// Related rows per relation; lookup indexes are built on first use and shared for the whole applyFilter call
+function relatedRowsResolver(data: Record<EntityKey, any[]>) {
+  const indexes = new Map<string, Map<string, any[]>>();
+  const tokenSets = new Map<string, Set<string>[]>();
+
+  const index = (rel: Relation, tokenize: boolean) => {
+    let idx = indexes.get(rel.name);
+    if (!idx) {
+      idx = new Map();
+      for (const t of data[rel.to] ?? []) {
+        const keys = tokenize ? cellToTokens(t?.[rel.targetField]) : [normStr(t?.[rel.targetField])].filter(Boolean);
+        for (const k of new Set(keys)) {
+          const bucket = idx.get(k);
+          if (bucket) bucket.push(t); else idx.set(k, [t]);
+        }
+      }
+      indexes.set(rel.name, idx);
+    }
+    return idx;
+  };
+  const targetTokens = (rel: Relation) => {
+    let sets = tokenSets.get(rel.name);
+    if (!sets) {
+      sets = (data[rel.to] ?? []).map((t) => new Set(cellToTokens(t?.[rel.targetField])));
+      tokenSets.set(rel.name, sets);
+    }
+    return sets;
+  };
+
+  return (rel: Relation, row: any): any[] => {
+    const targets = data[rel.to] ?? [];
+    switch (rel.kind) {
+      case 'ref': {
+        const idx = index(rel, false);
+        return [...new Set(cellToTokens(row?.[rel.field]).flatMap((k) => idx.get(k) ?? []))];
+      }
+      case 'backref': {
+        const key = normStr(row?.[rel.field]);
+        return key ? index(rel, true).get(key) ?? [] : [];
+      }
+      case 'same': {
+        const key = normStr(row?.[rel.field]);
+        return key ? (index(rel, false).get(key) ?? []).filter((t) => t !== row) : [];
+      }
+      case 'covers': {
+        const need = cellToTokens(row?.[rel.field]);
+        const sets = targetTokens(rel);
+        return targets.filter((_, i) => need.every((k) => sets[i].has(k)));
+      }
+      case 'coveredBy': {
+        const have = new Set(cellToTokens(row?.[rel.field]));
+        const sets = targetTokens(rel);
+        return targets.filter((_, i) => [...sets[i]].every((k) => have.has(k)));
+      }
+    }
+  };
+}
+
+// Stable multi-key sort: numbers, dates and durations by value, otherwise case-insensitive text; blanks last
+function sortBy<T>(items: T[], order: OrderBy[], get: (item: T, field: string) => unknown, dates: DateSettings): T[] {
+  if (!order.length) return items;
+  const blank = (v: unknown) => v === undefined || v === null || v === '';
+  const now = Date.now();
+  const cmp = (a: unknown, b: unknown) => compareValues(a, b, dates, now, true);
+  return items
+    .map((item, i) => ({ item, i }))
+    .sort((x, y) => {
+      for (const o of order) {
+        const a = get(x.item, o.field), b = get(y.item, o.field);
+        if (blank(a) || blank(b)) {
+          if (blank(a) !== blank(b)) return blank(a) ? 1 : -1;
+          continue;
+        }
+        const c = cmp(a, b);
+        if (c !== 0) return o.dir === 'desc' ? -c : c;
+      }
+      return x.i - y.i;
+    })
+    .map((x) => x.item);
 }
 
 // Helpers
 function toNum(x: any): number { const n = Number(x); return Number.isFinite(n) ? n : NaN; }
+
+// Sign of a - b: numbers, then dates (the right side may also be relative, e.g. "30 days ago"), then durations,
+// then normalized text (plain comparison, or locale-aware for sorting). A filter comparing a non-date against a
+// date gets NaN, so blanks and text never match `< 2024-01-01` or `< "30 days ago"`.
+function compareValues(a: unknown, b: unknown, dates: DateSettings, now: number, locale = false): number {
+  const na = toNum(a), nb = toNum(b);
+  if (Number.isFinite(na) && Number.isFinite(nb)) return Math.sign(na - nb);
+  const da = parseDate(a, dates);
+  const db = resolveInstant(b, dates, now);
+  if (da !== null && db !== null) return Math.sign(da - db);
+  if (!locale && db !== null) return NaN;
+  const ua = parseDuration(a), ub = ua === null ? null : parseDuration(b);
+  if (ua !== null && ub !== null) return Math.sign(ua - ub);
+  const sa = normStr(a), sb = normStr(b);
+  if (locale) return sa.localeCompare(sb);
+  return sa === sb ? 0 : sa > sb ? 1 : -1;
+}
 function normStr(x: any): string { return String(x ?? '').trim().toLowerCase(); }
 
 function cellToTokens(v: any): string[] {
@@ -0,0 +1,128 @@
+// src/utils/exportPackage.ts
+// "Export package": one ZIP with the three entity CSVs (plus quarantined rows, if any), rules.json,
+// a validation report and a manifest.json listing every file with its row count, byte size and SHA-256.
+// - The manifest is written last and is not listed in itself.
+// - schemaVersion changes whenever the layout below changes, so downstream readers can refuse what they don't know.
+
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import type { EntityKey } from '../store/useDataStore';
+import type { ValidationError, ValidationSummary } from '../store/useValidationStore';
+import type { ExportPolicy } from './exportPolicy';
+import { ExportTable, tableToCsv } from './exportSchema';
+
+export const PACKAGE_SCHEMA_VERSION = 1;
+
+export interface PackageFile {
+  path: string;
+  kind: 'data' | 'quarantine' | 'rules' | 'report' | 'allocation';
+  rows?: number;
+  bytes: number;
+  sha256: string;
+}
+
+export interface PackageManifest {
+  schemaVersion: number;
+  generator: string;
+  generatedAt: string;
+  /** How rows with validation errors were handled (see exportPolicy.ts) */
+  exportPolicy: ExportPolicy;
+  entities: Record<EntityKey, number>;
+  validation: { errors: number; warnings: number; critical: number };
+  files: PackageFile[];
+}
+
+export interface PackageInput {
+  /** Export-ready tables (see exportSchema.exportTable) */
+  data: Record<EntityKey, ExportTable>;
+  /** Rows held back by the 'clean' policy, written under quarantine/ */
+  quarantine?: Record<EntityKey, ExportTable> | null;
+  policy?: ExportPolicy;
+  rules: unknown;
+  errors: ValidationError[];
+  summary: ValidationSummary;
+  /** Rows from allocationToRows, when the allocation should travel with the data */
+  allocation?: { assignments: Record<string, any>[]; unassigned: Record<string, any>[] } | null;
+}
+
+const ENTITIES: EntityKey[] = ['clients', 'workers', 'tasks'];
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Issues as plain records (1-based rows, null when not tied to a row; no fix candidates) for validation-report.json. */
+export function validationReport(errors: ValidationError[], summary: ValidationSummary, generatedAt: string) {
+  const byCode: Record<string, number> = {};
+  errors.forEach((e) => { byCode[e.code ?? 'RULE'] = (byCode[e.code ?? 'RULE'] ?? 0) + 1; });
+  return {
+    generatedAt,
+    lastValidation: summary.lastValidation?.toISOString() ?? null,
+    totals: { errors: summary.totalErrors, warnings: summary.totalWarnings, critical: summary.criticalIssues },
+    byCode,
+    issues: errors.map((e) => ({
+      severity: e.severity,
+      code: e.code ?? null,
+      entity: e.entity,
+      entityId: e.entityId,
+      row: e.rowIndex >= 0 ? e.rowIndex + 1 : null,   // null: about the entity as a whole
+      field: e.field,
+      message: e.message,
+      ...(e.suggestion ? { suggestion: e.suggestion } : {}),
+      ...(e.ruleId ? { ruleId: e.ruleId } : {}),
+    })),
+  };
+}
+
+export async function buildExportPackage(
+  input: PackageInput,
+  now: Date = new Date()
+): Promise<{ zip: Uint8Array; manifest: PackageManifest }> {
+  const generatedAt = now.toISOString();
+  const zip = new JSZip();
+  const files: PackageFile[] = [];
+  const encoder = new TextEncoder();
+
+  const add = async (path: string, kind: PackageFile['kind'], text: string, rows?: number) => {
+    const bytes = encoder.encode(text);
+    zip.file(path, bytes, { date: now });
+    files.push({ path, kind, ...(rows !== undefined ? { rows } : {}), bytes: bytes.length, sha256: await sha256(bytes) });
+  };
+
+  for (const entity of ENTITIES) {
+    const table = input.data[entity];
+    await add(`data/${entity}.csv`, 'data', tableToCsv(table), table.rows.length);
+  }
+  for (const entity of ENTITIES) {
+    const table = input.quarantine?.[entity];
+    if (table?.rows.length) await add(`quarantine/${entity}.csv`, 'quarantine', tableToCsv(table), table.rows.length);
+  }
+  if (input.allocation) {
+    await add('allocation/allocation.csv', 'allocation', Papa.unparse(input.allocation.assignments), input.allocation.assignments.length);
+    await add('allocation/unassigned.csv', 'allocation', Papa.unparse(input.allocation.unassigned), input.allocation.unassigned.length);
+  }
+  await add('rules.json', 'rules', JSON.stringify(input.rules, null, 2));
+  await add('validation-report.json', 'report', JSON.stringify(validationReport(input.errors, input.summary, generatedAt), null, 2), input.errors.length);
+
+  const manifest: PackageManifest = {
+    schemaVersion: PACKAGE_SCHEMA_VERSION,
+    generator: 'spreadsheet-alchemist',
+    generatedAt,
+    exportPolicy: input.policy ?? 'allow',
+    entities: {
+      clients: input.data.clients.rows.length,
+      workers: input.data.workers.rows.length,
+      tasks: input.data.tasks.rows.length,
+    },
+    validation: {
+      errors: input.summary.totalErrors,
+      warnings: input.summary.totalWarnings,
+      critical: input.summary.criticalIssues,
+    },
+    files,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2), { date: now });
+
+  return { zip: await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }), manifest };
+}
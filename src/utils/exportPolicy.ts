@@ -0,0 +1,80 @@
+// src/utils/exportPolicy.ts
+// What an export does with rows that still have validation errors.
+// - 'allow'    : write everything as is
+// - 'block'    : refuse to export while any error exists
+// - 'annotate' : write everything plus an `_issues` column listing each row's issues
+// - 'clean'    : write only error-free rows; the rest go to a quarantine file with `_issues`
+// Warnings never block or quarantine a row; they only show up in `_issues`.
+// Errors about an entity as a whole (rowIndex -1, e.g. a missing required column) count against every row of it.
+
+import type { EntityKey } from '../store/useDataStore';
+import type { ValidationError } from '../store/useValidationStore';
+import { locateRow } from './fixCandidates';
+
+export type ExportPolicy = 'allow' | 'block' | 'annotate' | 'clean';
+
+export const ISSUES_COLUMN = '_issues';
+
+type Rows = Record<string, any>[];
+type EntityRows = Record<EntityKey, Rows>;
+
+export interface PolicyResult {
+  data: EntityRows;
+  /** Rejected rows per entity ('clean' only) */
+  quarantine: EntityRows | null;
+  /** Rows holding at least one error, per entity */
+  errorRows: Record<EntityKey, number>;
+  /** Errors not tied to a row, per entity */
+  datasetErrors: Record<EntityKey, ValidationError[]>;
+  blocked: boolean;
+}
+
+const ENTITIES: EntityKey[] = ['clients', 'workers', 'tasks'];
+
+// Issues per current row index; errors raised before later edits are re-pointed by ID
+function issuesByRow(rows: Rows, entity: EntityKey, errors: ValidationError[]): Map<number, ValidationError[]> {
+  const out = new Map<number, ValidationError[]>();
+  for (const e of errors) {
+    if (e.entity !== entity || e.rowIndex < 0) continue;
+    const i = locateRow(rows, e);
+    if (i < 0) continue;
+    out.set(i, [...(out.get(i) ?? []), e]);
+  }
+  return out;
+}
+
+/** e.g. `PriorityLevel: must be 1-5 | (warning) Skills: duplicate entries` */
+export function issuesText(issues: ValidationError[]): string {
+  return issues
+    .map((e) => `${e.severity === 'warning' ? '(warning) ' : ''}${e.field ? `${e.field}: ` : ''}${e.message}`)
+    .join(' | ');
+}
+
+export function applyExportPolicy(data: EntityRows, errors: ValidationError[], policy: ExportPolicy): PolicyResult {
+  const result: PolicyResult = {
+    data: { clients: [], workers: [], tasks: [] },
+    quarantine: policy === 'clean' ? { clients: [], workers: [], tasks: [] } : null,
+    errorRows: { clients: 0, workers: 0, tasks: 0 },
+    datasetErrors: { clients: [], workers: [], tasks: [] },
+    blocked: false,
+  };
+
+  for (const entity of ENTITIES) {
+    const rows = data[entity] ?? [];
+    const byRow = issuesByRow(rows, entity, errors);
+    const general = errors.filter((e) => e.entity === entity && e.rowIndex < 0 && e.severity === 'error');
+    result.datasetErrors[entity] = general;
+    rows.forEach((row, i) => {
+      const issues = [...general, ...(byRow.get(i) ?? [])];
+      const failed = issues.some((e) => e.severity === 'error');
+      if (failed) result.errorRows[entity]++;
+
+      if (policy === 'annotate') result.data[entity].push({ ...row, [ISSUES_COLUMN]: issuesText(issues) });
+      else if (policy === 'clean' && failed) result.quarantine![entity].push({ ...row, [ISSUES_COLUMN]: issuesText(issues) });
+      else result.data[entity].push(row);
+    });
+  }
+
+  result.blocked = policy === 'block' && ENTITIES.some((e) => result.errorRows[e] > 0 || result.datasetErrors[e].length > 0);
+  return result;
+}
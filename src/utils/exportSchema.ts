@@ -0,0 +1,110 @@
+// src/utils/exportSchema.ts
+// Which columns an export writes, in which order and under which names.
+// - Uploads record each entity's columns in the order of the source headers, with the header each came from.
+// - Exports write those columns only: the *Arr / AttributesParsed helpers added by normalizeRowData are dropped.
+// - Columns that appear later (a filled-in required column, the _issues annotation) follow the recorded ones.
+// - Exporting under canonical names re-uploads without a mapping step; source names give back the original headers.
+
+import Papa from 'papaparse';
+import type { EntityKey } from '../store/useDataStore';
+import { CANONICAL_COLUMNS, ColumnMapping, usedColumns } from './mapping';
+
+// Set by normalizeRowData (parseFile.ts) for the UI; never part of the data
+export const HELPER_FIELDS = new Set([
+  'PreferredPhasesArr',
+  'RequiredSkillsArr',
+  'SkillsArr',
+  'AvailableSlotsArr',
+  'RequestedTaskIDsArr',
+  'AttributesParsed',
+]);
+
+export interface ExportColumn {
+  field: string;    // key in the row objects (canonical name, or the header itself for extra columns)
+  source: string;   // header it was read from
+}
+
+export type ExportSchema = Partial<Record<EntityKey, ExportColumn[]>>;
+
+export interface ExportTable {
+  fields: string[];
+  rows: Record<string, unknown>[];
+}
+
+/** Columns of one sheet after mapping, in source header order. */
+export function sheetColumns(headers: string[], entity: EntityKey, mapping: ColumnMapping | null): ExportColumn[] {
+  // Helper names in the headers come from an older export that leaked them
+  if (!mapping) return headers.filter((h) => h && !HELPER_FIELDS.has(h)).map((h) => ({ field: h, source: h }));
+
+  const used = usedColumns(mapping);
+  const canon = new Set(CANONICAL_COLUMNS[entity]);
+  const targetsOf = new Map<string, string[]>();   // header -> canonical columns read from it
+  Object.entries(mapping.targets).forEach(([target, src]) => {
+    if (!src) return;
+    const header = src.kind === 'merge' ? src.columns[0] : src.column;
+    if (header !== undefined) targetsOf.set(header, [...(targetsOf.get(header) ?? []), target]);
+  });
+
+  const out: ExportColumn[] = [];
+  headers.forEach((h) => {
+    (targetsOf.get(h) ?? []).forEach((target) => {
+      const src = mapping.targets[target]!;
+      // Only a plain rename keeps a meaningful source name; merged / split columns use their canonical name
+      out.push({ field: target, source: src.kind === 'column' ? h : target });
+    });
+    if (h && !used.has(h) && !canon.has(h) && !HELPER_FIELDS.has(h)) out.push({ field: h, source: h });   // kept as extra (see applyMapping)
+  });
+  return out;
+}
+
+/** Columns of several sheets of one entity: first sheet's order, new columns appended. */
+export function mergeColumns(a: ExportColumn[] = [], b: ExportColumn[] = []): ExportColumn[] {
+  const seen = new Set(a.map((c) => c.field));
+  return [...a, ...b.filter((c) => !seen.has(c.field) && seen.add(c.field))];
+}
+
+/**
+ * Rows ready for writing: recorded columns first, then canonical and other non-helper fields
+ * found in the rows. Without a recorded schema (e.g. an older workspace) canonical order comes first.
+ */
+export function exportTable(
+  rows: Record<string, any>[],
+  entity: EntityKey,
+  columns: ExportColumn[] | undefined,
+  useSourceNames = false
+): ExportTable {
+  const cols = [...(columns ?? [])];
+  const known = new Set(cols.map((c) => c.field));
+  const present = new Set<string>();
+  rows.forEach((r) => Object.keys(r ?? {}).forEach((k) => present.add(k)));
+
+  CANONICAL_COLUMNS[entity].forEach((f) => {
+    if (!known.has(f) && present.has(f)) { cols.push({ field: f, source: f }); known.add(f); }
+  });
+  present.forEach((f) => {
+    if (!known.has(f) && !HELPER_FIELDS.has(f)) { cols.push({ field: f, source: f }); known.add(f); }
+  });
+
+  // Source names can repeat (a split column) or clash with another field; those keep the field name
+  const names: string[] = [];
+  const taken = new Set<string>();
+  cols.forEach((c) => {
+    const name = useSourceNames && !taken.has(c.source) && (c.source === c.field || !known.has(c.source)) ? c.source : c.field;
+    names.push(name);
+    taken.add(name);
+  });
+
+  return {
+    fields: names,
+    rows: rows.map((r) => {
+      const out: Record<string, unknown> = {};
+      cols.forEach((c, i) => { out[names[i]] = r?.[c.field] ?? ''; });
+      return out;
+    }),
+  };
+}
+
+/** CSV with the header row even when there are no rows. */
+export function tableToCsv(table: ExportTable): string {
+  return Papa.unparse({ fields: table.fields, data: table.rows.map((r) => table.fields.map((f) => r[f])) });
+}
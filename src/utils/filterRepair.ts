@@ -1,7 +1,11 @@
 // src/utils/filterRepair.ts
+import { aggregateKey, type AggregateFn, type Query } from './dsl';
+import type { EntityKey } from '../store/useDataStore';
+import { relationsFor } from './relations';
+
 export type FieldSchema = {
   name: string;
-  type: 'number' | 'string' | 'array' | 'boolean' | 'date' | 'unknown';
+  type: 'number' | 'string' | 'array' | 'boolean' | 'date' | 'datetime' | 'duration' | 'unknown';
   samples: (string | number | boolean)[];
 };
 
@@ -10,8 +14,10 @@ export type FilterNode = {
     | 'and' | 'or' | 'not'
     | 'cmp' | 'includes' | 'contains' | 'in' | 'nin'
     | 'startsWith' | 'endsWith' | 'regex'
-    | 'exists' | 'notExists' | 'between';
+    | 'exists' | 'notExists' | 'between' | 'within'
+    | 'any' | 'all';
   field?: string;
+  relation?: string;
   cmp?: '>' | '>=' | '<' | '<=' | '==' | '!=';
   value?: any;
   values?: any[];
@@ -20,11 +26,20 @@ export type FilterNode = {
   children?: FilterNode[];
 };
 
+export type RepairOptions = {
+  soften?: boolean;
+  /** Entity the filter runs on; needed to repair any/all relation names. */
+  entity?: EntityKey;
+  /** Schemas of related entities; sub-filters of any/all are repaired against these. */
+  related?: Partial<Record<EntityKey, FieldSchema[]>>;
+};
+
 export function repairFilter(
   node: FilterNode,
   schema: FieldSchema[],
-  { soften = false }: { soften?: boolean } = {}
+  opts: RepairOptions = {}
 ): FilterNode {
+  const { soften = false, entity, related = {} } = opts;
   const cols = schema.map((s) => s.name);
   const types: Record<string, FieldSchema['type']> = Object.fromEntries(
     schema.map((s) => [s.name, s.type])
@@ -42,26 +57,7 @@ export function repairFilter(
     listy[s.name] = !!isList;
   }
 
-  const fixField = (f?: string): string | undefined => {
-    if (!f) return f;
-    // exact
-    let m = cols.find((c) => c === f);
-    if (m) return m;
-    // case-insensitive exact
-    m = cols.find((c) => c.toLowerCase() === f.toLowerCase());
-    if (m) return m;
-    // fuzzy
-    const norm = normalize(f);
-    let best: { col: string; score: number } | null = null;
-    for (const c of cols) {
-      const s = stringSim(norm, normalize(c));
-      if (!best || s > best.score) best = { col: c, score: s };
-    }
-    if (best && best.score >= 0.65) return best.col;
-    // substring fallback
-    m = cols.find((c) => normalize(c).includes(norm));
-    return m ?? f;
-  };
+  const fixField = (f?: string) => fixFieldName(f, cols);
 
   const coerceForField = (f: string | undefined, v: any): any => {
     if (!f) return v;
@@ -93,17 +89,25 @@ export function repairFilter(
           .map((x) => parseMaybeNumber(x.trim()))
           .filter((x) => x !== '');
       }
-      case 'date': {
-        const d = new Date(v);
-        return isNaN(d.getTime()) ? v : d.toISOString();
-      }
       default:
-        return v; // string/unknown
+        return v; // string/unknown; dates and durations are parsed (with the configured formats) when compared
     }
   };
 
   const walk = (n: FilterNode): FilterNode => {
     if (!n || typeof n !== 'object') return n;
+    if ((n.op === 'any' || n.op === 'all') && entity) {
+      // Relation name → closest declared relation; the sub-filter belongs to the related entity
+      const rels = relationsFor(entity);
+      const name = fixFieldName(n.relation, rels.map((r) => r.name));
+      const rel = rels.find((r) => r.name === name);
+      if (!rel) return { ...n, relation: name };
+      const target = related[rel.to];
+      const children = (n.children ?? []).slice(0, 1).map((c) =>
+        target ? repairFilter(c, target, { ...opts, entity: rel.to }) : c
+      );
+      return { ...n, relation: rel.name, children };
+    }
     if (n.children && Array.isArray(n.children)) {
       return { ...n, children: n.children.map(walk) };
     }
@@ -122,6 +126,8 @@ export function repairFilter(
     } else if (n.op === 'between') {
       fixed.from = coerceForField(mappedField, n.from);
       fixed.to = coerceForField(mappedField, n.to);
+    } else if (n.op === 'within') {
+      fixed.value = String(n.value ?? '').trim().toLowerCase();   // relative range phrase
     }
 
     // 🔧 Heuristic upgrades for list-like fields
@@ -153,18 +159,95 @@ export function repairFilter(
   return walk(node);
 }
 
+/**
+ * Repair a query envelope: the filter goes through repairFilter, every other field
+ * reference is mapped to the closest column (unknown ones are dropped), aggregate
+ * names / sort directions are normalized and limit is coerced to a positive integer.
+ */
+export function repairQuery(
+  q: any,
+  schema: FieldSchema[],
+  opts: RepairOptions = {}
+): Query {
+  const cols = schema.map((s) => s.name);
+  const known = (f?: string) => {
+    const m = fixFieldName(f, cols);
+    return m && cols.includes(m) ? m : undefined;
+  };
+  const list = (v: any): any[] => (Array.isArray(v) ? v : v == null || v === '' ? [] : [v]);
+  const out: Query = {};
+
+  if (q?.filter && typeof q.filter === 'object') out.filter = repairFilter(q.filter, schema, opts) as Query['filter'];
+
+  const aggregates: NonNullable<Query['aggregates']> = [];
+  for (const a of list(q?.aggregates)) {
+    const fn = AGG_ALIASES[String(a?.fn ?? a?.op ?? '').toLowerCase()];
+    if (!fn) continue;
+    const field = known(a?.field);
+    if (fn !== 'count' && !field) continue;
+    aggregates.push({ fn, ...(field ? { field } : {}), ...(a?.as ? { as: String(a.as) } : {}) });
+  }
+  const aggNames = new Set(aggregates.map(aggregateKey));
+
+  const groupBy = list(q?.groupBy).map((f) => known(String(f))).filter((f): f is string => !!f);
+  const select = list(q?.select).map((f) => known(String(f))).filter((f): f is string => !!f);
+
+  const orderBy: NonNullable<Query['orderBy']> = [];
+  for (const o of list(q?.orderBy)) {
+    const raw = typeof o === 'string' ? o : o?.field;
+    const dir: 'asc' | 'desc' = /^desc/i.test(String(o?.dir ?? o?.direction ?? '')) ? 'desc' : 'asc';
+    if (raw && aggNames.has(String(raw))) { orderBy.push({ field: String(raw), dir }); continue; }
+    const field = known(raw);
+    if (field) orderBy.push({ field, dir });
+  }
+
+  const limit = Math.floor(Number(q?.limit));
+  if (Number.isFinite(limit) && limit > 0) out.limit = limit;
+  if (orderBy.length) out.orderBy = orderBy;
+  if (select.length) out.select = select;
+  if (groupBy.length) out.groupBy = groupBy;
+  if (aggregates.length) out.aggregates = aggregates;
+  return out;
+}
+
+const AGG_ALIASES: Record<string, AggregateFn> = {
+  count: 'count', n: 'count',
+  sum: 'sum', total: 'sum',
+  avg: 'avg', average: 'avg', mean: 'avg',
+  min: 'min', minimum: 'min', lowest: 'min',
+  max: 'max', maximum: 'max', highest: 'max',
+};
+
 // --- helpers ---
 
+// exact → case-insensitive → fuzzy (3-gram) → substring; returns the input when nothing fits
+function fixFieldName(f: string | undefined, cols: string[]): string | undefined {
+  if (!f) return f;
+  let m = cols.find((c) => c === f);
+  if (m) return m;
+  m = cols.find((c) => c.toLowerCase() === f.toLowerCase());
+  if (m) return m;
+  const norm = normalize(f);
+  let best: { col: string; score: number } | null = null;
+  for (const c of cols) {
+    const s = stringSim(norm, normalize(c));
+    if (!best || s > best.score) best = { col: c, score: s };
+  }
+  if (best && best.score >= 0.65) return best.col;
+  m = cols.find((c) => normalize(c).includes(norm));
+  return m ?? f;
+}
+
 function looksJsonArray(s: string) {
   return s.startsWith('[') && s.endsWith(']');
 }
 
-function normalize(s: string) {
+export function normalize(s: string) {
   return s.toLowerCase().replace(/[\s_-]+/g, '');
 }
 
-// cheap Jaccard on 3-grams for fuzzy match
-function stringSim(a: string, b: string): number {
+// cheap Jaccard on 3-grams for fuzzy match (also used by utils/mapping.ts for header matching)
+export function stringSim(a: string, b: string): number {
   if (a === b) return 1;
   if (!a || !b) return 0;
   const A = ngrams(a, 3), B = ngrams(b, 3);
@@ -0,0 +1,394 @@
+// src/utils/fixCandidates.ts
+// Ranked candidate fixes for validation errors, each with a rationale.
+// - runValidator attaches them as `fixes` (best first) and sets `autoFixValue` to the top candidate.
+// - Strategies read the current cell, so "1 - 3" becomes a range and 7 is clamped to the maximum,
+//   instead of one hard-coded guess per check; the check's own suggestion stays as a low-ranked fallback.
+// - Candidates are tagged with the allocation objectives they serve; rankFixes() orders them by confidence
+//   shifted by the priority weights, so e.g. "keep the preferred phases" wins when PreferredPhases is weighted high.
+// - groupFixes() merges errors that target the same cell for the fix preview.
+
+import type { ValidationError } from '../store/useValidationStore';
+import { ID_FIELD } from '../store/useDataStore';
+import type { ValidatorCode, DataEntity } from './validatorRegistry';
+import { ObjectiveKey, ObjectiveWeights, fixScore } from './scoring';
+
+export interface FixCandidate {
+  value: string | number;
+  label: string;
+  rationale: string;
+  confidence: number;   // 0..1, used for ranking only
+  /** How the fix moves each objective, -1..1 relative to the other candidates (see tagObjectives) */
+  objectives?: Partial<Record<ObjectiveKey, number>>;
+  /** Confidence adjusted by the priority weights; set by rankFixes */
+  score?: number;
+}
+
+type Row = Record<string, any>;
+type Data = Record<DataEntity, Row[]>;
+
+const show = (v: unknown) => (typeof v === 'string' ? v : JSON.stringify(v));
+const same = (a: unknown, b: unknown) => show(a) === show(b);
+
+export function fixCandidates(
+  code: ValidatorCode,
+  error: ValidationError,
+  data: Data,
+  params: Record<string, number>
+): FixCandidate[] {
+  const row = data[error.entity]?.[error.rowIndex];
+  const current = row?.[error.field];
+  let out: FixCandidate[] = [];
+  let keepDefault = true;
+
+  switch (code) {
+    case 'MALFORMED_LISTS': out = listFixes(current, params.minPhase ?? 1); break;
+    case 'OUT_OF_RANGE': out = rangeFixes(error.field, current, params); break;
+    case 'UNKNOWN_REFERENCES': out = referenceFixes(current, data.tasks); break;
+    case 'BROKEN_JSON': out = jsonFixes(current); break;
+    case 'RULE_CONSTRAINTS':
+      // phaseWindow conflicts suggest the window itself; widening the preference is the alternative
+      if (error.field === 'PreferredPhases' && error.autoFixValue !== undefined) out = phaseWindowFixes(current, error.autoFixValue);
+      break;
+    case 'DUPLICATE_IDS':
+      out = duplicateFixes(error, data);
+      keepDefault = false;   // the first occurrence keeps its ID; the others get strategy-based IDs
+      break;
+  }
+
+  if (keepDefault && error.autoFixValue !== undefined && !out.some((c) => same(c.value, error.autoFixValue))) {
+    out.push({
+      value: error.autoFixValue,
+      label: show(error.autoFixValue),
+      rationale: error.suggestion ? `Default: ${error.suggestion}` : 'Default value suggested by the check',
+      confidence: 0.3,
+    });
+  }
+  return tagObjectives(error.field, current, out.filter((c) => !same(c.value, current)))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/** Candidates best first under the given objective weights. */
+export function rankFixes(fixes: FixCandidate[], weights: ObjectiveWeights): FixCandidate[] {
+  return fixes
+    .map((c) => ({ ...c, score: fixScore(weights, c.confidence, c.objectives) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Errors with their fixes re-ranked and `autoFixValue` pointing at the new top candidate. */
+export function rankErrorFixes(errors: ValidationError[], weights: ObjectiveWeights): ValidationError[] {
+  return errors.map((e) => {
+    if (!e.fixes?.length) return e;
+    const fixes = rankFixes(e.fixes, weights);
+    return { ...e, fixes, autoFixValue: fixes[0].value };
+  });
+}
+
+// ---- Objectives ----
+
+const numbers = (v: unknown): number[] => {
+  try {
+    const parsed = JSON.parse(String(v));
+    if (Array.isArray(parsed)) return parsed.map(Number).filter(Number.isInteger);
+  } catch {}
+  return (String(v ?? '').match(/\d+/g) ?? []).map(Number);
+};
+
+// Per field: what each objective measures on a candidate value (higher = serves it better)
+const OBJECTIVE_MEASURES: Record<string, Partial<Record<ObjectiveKey, (value: unknown, current: unknown) => number>>> = {
+  // More slots give the allocator more capacity; earlier slots let work start sooner
+  AvailableSlots: {
+    requestFulfilment: (v) => new Set(numbers(v)).size,
+    earliness: (v) => -Math.min(...numbers(v), 1e6),
+  },
+  // Phases the task asked for that survive the fix
+  PreferredPhases: {
+    preferredPhases: (v, current) => {
+      const asked = new Set(numbers(current));
+      return numbers(v).filter((n) => asked.has(n)).length;
+    },
+  },
+  // Every TaskID kept is a request that can still be fulfilled
+  RequestedTaskIDs: {
+    requestFulfilment: (v) => String(v ?? '').split(',').filter((x) => x.trim()).length,
+  },
+};
+
+// Scales each measure to -1..1 across the candidates; objectives all candidates agree on stay neutral
+function tagObjectives(field: string, current: unknown, candidates: FixCandidate[]): FixCandidate[] {
+  const measures = OBJECTIVE_MEASURES[field];
+  if (!measures || candidates.length < 2) return candidates;
+  const objectives = candidates.map(() => ({} as Partial<Record<ObjectiveKey, number>>));
+  (Object.keys(measures) as ObjectiveKey[]).forEach((key) => {
+    const values = candidates.map((c) => measures[key]!(c.value, current));
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    if (hi === lo) return;
+    values.forEach((v, i) => { objectives[i][key] = (2 * (v - lo)) / (hi - lo) - 1; });
+  });
+  return candidates.map((c, i) => (Object.keys(objectives[i]).length ? { ...c, objectives: objectives[i] } : c));
+}
+
+// ---- Strategies ----
+
+function listFixes(current: unknown, min: number): FixCandidate[] {
+  const s = String(current ?? '').trim();
+  const out: FixCandidate[] = [];
+  const list = (nums: number[]) => JSON.stringify(nums);
+
+  const range = s.match(/^\[?\s*(\d+)\s*(?:-|–|to|\.\.)\s*(\d+)\s*\]?$/i);
+  if (range) {
+    const [a, b] = [Number(range[1]), Number(range[2])];
+    if (a >= min && a <= b && b - a <= 50) {
+      const nums = Array.from({ length: b - a + 1 }, (_, i) => a + i);
+      out.push({ value: list(nums), label: list(nums), rationale: `Read "${s}" as the range ${a} to ${b}`, confidence: 0.9 });
+    }
+  }
+
+  try {
+    const parsed = JSON.parse(s);
+    if (Array.isArray(parsed)) {
+      const valid = parsed.map((x) => Number(x)).filter((n) => Number.isInteger(n) && n >= min);
+      const dropped = parsed.filter((x) => !(Number.isInteger(Number(x)) && Number(x) >= min));
+      if (valid.length && dropped.length) {
+        out.push({
+          value: list(valid),
+          label: list(valid),
+          rationale: `Drop the invalid entr${dropped.length === 1 ? 'y' : 'ies'} ${dropped.map(show).join(', ')}`,
+          confidence: 0.8,
+        });
+      }
+    }
+  } catch {
+    const nums = [...new Set((s.match(/\d+/g) ?? []).map(Number).filter((n) => n >= min))].sort((a, b) => a - b);
+    if (nums.length && !range) {
+      out.push({ value: list(nums), label: list(nums), rationale: `Keep the numbers found in "${s}"`, confidence: 0.7 });
+    }
+  }
+  return out;
+}
+
+const RANGE_FIELDS: Record<string, { min: string; max?: string }> = {
+  PriorityLevel: { min: 'priorityMin', max: 'priorityMax' },
+  Duration: { min: 'durationMin' },
+  MaxConcurrent: { min: 'maxConcurrentMin' },
+};
+
+function phaseWindowFixes(current: unknown, window: unknown): FixCandidate[] {
+  const asked = numbers(current);
+  const allowed = numbers(window);
+  if (!asked.length || !allowed.length) return [];
+  const union = JSON.stringify([...new Set([...asked, ...allowed])].sort((a, b) => a - b));
+  return [{ value: union, label: union, rationale: `Keep phases ${asked.join(', ')} and add the window ${allowed.join(', ')}`, confidence: 0.25 }];
+}
+
+function rangeFixes(field: string, current: unknown, params: Record<string, number>): FixCandidate[] {
+  const bounds = RANGE_FIELDS[field];
+  if (!bounds) return [];
+  const min = params[bounds.min];
+  const max = bounds.max ? params[bounds.max] : Infinity;
+  const clamp = (n: number) => Math.min(max, Math.max(min, Math.round(n)));
+  const out: FixCandidate[] = [];
+  const s = String(current ?? '').trim();
+  const n = Number(s);
+
+  if (s !== '' && Number.isFinite(n)) {
+    const c = clamp(n);
+    out.push({
+      value: c,
+      label: String(c),
+      rationale: n > max ? `Clamp ${s} to the maximum ${max}` : n < min ? `Clamp ${s} to the minimum ${min}` : `Round ${s} to ${c}`,
+      confidence: 0.85,
+    });
+    return out;
+  }
+
+  const embedded = s.match(/-?\d+(\.\d+)?/);
+  if (embedded) {
+    const c = clamp(Number(embedded[0]));
+    out.push({ value: c, label: String(c), rationale: `Use the number in "${s}"`, confidence: 0.8 });
+  }
+  if (Number.isFinite(max)) {
+    const word = s.toLowerCase();
+    const level = /\b(high|urgent|critical|top)\b/.test(word) ? max
+      : /\b(low|minor|trivial)\b/.test(word) ? min
+        : /\b(medium|normal|mid)\b/.test(word) ? Math.round((min + max) / 2)
+          : null;
+    if (level !== null) {
+      out.push({ value: level, label: String(level), rationale: `Map "${s}" onto the ${min}–${max} scale`, confidence: 0.7 });
+    }
+  }
+  return out;
+}
+
+function referenceFixes(current: unknown, tasks: Row[]): FixCandidate[] {
+  const known = tasks.map((t) => String(t.TaskID ?? '')).filter(Boolean);
+  const knownSet = new Set(known);
+  const ids = String(current ?? '').split(',').map((x) => x.trim()).filter(Boolean);
+  const unknown = ids.filter((id) => !knownSet.has(id));
+  if (!unknown.length) return [];
+  const out: FixCandidate[] = [];
+
+  // Case and look-alike characters (t5 → T5, T1O → T10), then a single unambiguous typo for longer IDs
+  const canon = (id: string) => id.toLowerCase().replace(/o/g, '0').replace(/[il]/g, '1');
+  const matches = new Map<string, string>();
+  unknown.forEach((u) => {
+    const alike = known.find((k) => canon(k) === canon(u));
+    const near = u.length >= 3 ? known.filter((k) => editDistance(k.toLowerCase(), u.toLowerCase()) === 1) : [];
+    const match = alike ?? (near.length === 1 ? near[0] : undefined);
+    if (match) matches.set(u, match);
+  });
+  if (matches.size) {
+    // Correct the look-alikes, drop whatever is left unknown
+    const fixed = [...new Set(ids.map((id) => (knownSet.has(id) ? id : matches.get(id))).filter(Boolean))].join(',');
+    const rest = unknown.filter((u) => !matches.has(u));
+    out.push({
+      value: fixed,
+      label: fixed,
+      rationale: [...[...matches].map(([u, k]) => `${u} looks like ${k}`), ...(rest.length ? [`remove ${rest.join(', ')}`] : [])].join('; '),
+      confidence: rest.length ? 0.75 : 0.85,
+    });
+  }
+
+  const stripped = ids.filter((id) => knownSet.has(id)).join(',');
+  out.push({
+    value: stripped,
+    label: stripped || '(empty)',
+    rationale: `Remove the unknown TaskID${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')}`,
+    confidence: 0.7,
+  });
+  return out;
+}
+
+function jsonFixes(current: unknown): FixCandidate[] {
+  const s = String(current ?? '').trim();
+  const out: FixCandidate[] = [];
+
+  const repaired = s
+    .replace(/'/g, '"')
+    .replace(/([{,]\s*)([A-Za-z_][\w-]*)\s*:/g, '$1"$2":')
+    .replace(/,\s*([}\]])/g, '$1');
+  for (const candidate of [repaired, `{${repaired}}`]) {
+    try {
+      const obj = JSON.parse(candidate);
+      if (obj && typeof obj === 'object') {
+        const value = JSON.stringify(obj);
+        out.push({ value, label: value, rationale: 'Repair quotes, unquoted keys and trailing commas', confidence: 0.85 });
+        break;
+      }
+    } catch {}
+  }
+
+  // "budget=100; owner: Ann"
+  const pairs = s.split(/[;,\n]+/).map((p) => p.match(/^\s*([\w .-]+?)\s*[:=]\s*(.+?)\s*$/));
+  if (!out.length && pairs.length && pairs.every(Boolean)) {
+    const obj = Object.fromEntries(pairs.map((m) => [m![1], Number.isFinite(Number(m![2])) ? Number(m![2]) : m![2]]));
+    const value = JSON.stringify(obj);
+    out.push({ value, label: value, rationale: 'Read key: value pairs as an object', confidence: 0.65 });
+  }
+
+  if (s) {
+    const value = JSON.stringify({ note: s });
+    out.push({ value, label: value, rationale: 'Keep the text under a "note" key', confidence: 0.5 });
+  }
+  return out;
+}
+
+function duplicateFixes(error: ValidationError, data: Data): FixCandidate[] {
+  const rows = data[error.entity] ?? [];
+  const idField = ID_FIELD[error.entity];
+  const id = String(error.entityId);
+  const occurrences = rows.map((r, i) => (String(r?.[idField]) === id ? i : -1)).filter((i) => i >= 0);
+  const position = occurrences.indexOf(error.rowIndex);
+  if (position <= 0) return [];
+
+  const out: FixCandidate[] = [];
+  const m = id.match(/^(.*?)(\d+)$/);
+  if (m) {
+    // Hand out fresh numbers to every non-first duplicate with this prefix, in row order
+    const prefix = m[1];
+    const taken = rows.map((r) => String(r?.[idField] ?? '').match(/^(.*?)(\d+)$/)).filter((x) => x && x[1] === prefix);
+    const width = m[2].length;
+    const maxNum = Math.max(...taken.map((x) => Number(x![2])));
+    const seen = new Set<string>();
+    const duplicates = rows
+      .map((r, i) => ({ id: String(r?.[idField] ?? ''), i }))
+      .filter(({ id: rid }) => {
+        if (!rid.startsWith(prefix) || !/^\d+$/.test(rid.slice(prefix.length))) return false;
+        if (seen.has(rid)) return true;
+        seen.add(rid);
+        return false;
+      });
+    const next = maxNum + 1 + duplicates.findIndex((d) => d.i === error.rowIndex);
+    const value = `${prefix}${String(next).padStart(width, '0')}`;
+    out.push({
+      value,
+      label: value,
+      rationale: `Next free ID after ${prefix}${String(maxNum).padStart(width, '0')}`,
+      confidence: 0.8,
+    });
+  }
+  const suffixed = `${id}_${position + 1}`;
+  out.push({ value: suffixed, label: suffixed, rationale: `Keep ${id} recognisable with a suffix`, confidence: 0.6 });
+  return out;
+}
+
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+}
+
+// ---- Preview ----
+
+/** One cell a set of errors wants to change, with the merged candidates (best first). */
+export interface CellFix {
+  key: string;
+  entity: DataEntity;
+  entityId: string;
+  rowIndex: number;
+  field: string;
+  candidates: FixCandidate[];
+  errorIds: string[];
+}
+
+export function groupFixes(errors: ValidationError[]): CellFix[] {
+  const cells = new Map<string, CellFix>();
+  for (const e of errors) {
+    const candidates: FixCandidate[] = e.fixes?.length
+      ? e.fixes
+      : e.autoFixValue !== undefined
+        ? [{ value: e.autoFixValue, label: show(e.autoFixValue), rationale: e.suggestion ?? 'Suggested by the check', confidence: 0.3 }]
+        : [];
+    if (!candidates.length) continue;
+    const key = `${e.entity}:${e.rowIndex}:${e.field}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { key, entity: e.entity, entityId: String(e.entityId), rowIndex: e.rowIndex, field: e.field, candidates: [], errorIds: [] };
+      cells.set(key, cell);
+    }
+    cell.errorIds.push(e.id);
+    for (const c of candidates) {
+      const existing = cell.candidates.find((x) => same(x.value, c.value));
+      if (!existing) cell.candidates.push(c);
+      else if ((c.score ?? c.confidence) > (existing.score ?? existing.confidence)) Object.assign(existing, c);
+    }
+  }
+  const out = [...cells.values()];
+  out.forEach((c) => c.candidates.sort((a, b) => (b.score ?? b.confidence) - (a.score ?? a.confidence)));
+  return out;
+}
+
+/** Current index of the row a fix targets: its rowIndex while the ID still matches, else the first row with that ID. */
+export function locateRow(rows: Row[], cell: Pick<CellFix, 'entity' | 'entityId' | 'rowIndex'>): number {
+  const idField = ID_FIELD[cell.entity];
+  if (String(rows[cell.rowIndex]?.[idField] ?? '') === cell.entityId) return cell.rowIndex;
+  return rows.findIndex((r) => String(r?.[idField] ?? '') === cell.entityId);
+}
@@ -0,0 +1,172 @@
+// src/utils/mapping.ts
+// Source → canonical column mapping for uploads with non-canonical headers.
+// - `proposeMapping` scores every header against the canonical columns (same fuzzy match as filterRepair).
+// - A canonical column can come from one column, several merged columns, or one part of a split column.
+// - Source columns that aren't used are kept under their original names.
+// - Mappings are remembered per header signature (see workspaceDb.saveColumnMapping).
+
+import type { EntityKey } from '../store/useDataStore';
+import { normalize, stringSim } from './filterRepair';
+
+export const CANONICAL_COLUMNS: Record<EntityKey, string[]> = {
+  clients: ['ClientID', 'ClientName', 'PriorityLevel', 'RequestedTaskIDs', 'GroupTag', 'AttributesJSON'],
+  workers: ['WorkerID', 'WorkerName', 'Skills', 'AvailableSlots', 'MaxLoadPerPhase', 'WorkerGroup', 'QualificationLevel'],
+  tasks: ['TaskID', 'TaskName', 'Category', 'Duration', 'RequiredSkills', 'PreferredPhases', 'MaxConcurrent'],
+};
+
+// Mirrors validateRequiredColumns in validators.ts
+export const REQUIRED_COLUMNS: Record<EntityKey, string[]> = {
+  clients: ['ClientID', 'ClientName', 'PriorityLevel'],
+  workers: ['WorkerID', 'WorkerName', 'Skills', 'AvailableSlots', 'MaxLoadPerPhase'],
+  tasks: ['TaskID', 'TaskName', 'Duration', 'MaxConcurrent'],
+};
+
+// List-like columns are merged with a comma, everything else with a space
+const LIST_COLUMNS = new Set(['RequestedTaskIDs', 'Skills', 'AvailableSlots', 'RequiredSkills', 'PreferredPhases']);
+
+const MATCH_THRESHOLD = 0.65;   // same cut-off filterRepair uses for field names
+const SUBSTRING_SCORE = 0.6;    // "MaxLoad" ⊂ "MaxLoadPerPhase" etc.
+
+export type ColumnSource =
+  | { kind: 'column'; column: string }
+  | { kind: 'merge'; columns: string[]; separator: string }
+  | { kind: 'split'; column: string; separator: string; part: number };   // part is 0-based
+
+export interface ColumnMapping {
+  entity: EntityKey;
+  targets: Record<string, ColumnSource | null>;   // canonical column → source (null = leave empty)
+}
+
+export interface MappingProposal {
+  mapping: ColumnMapping;
+  scores: Record<string, number>;   // canonical column → match score of the proposed source (0 when none)
+}
+
+export const defaultSeparator = (target: string) => (LIST_COLUMNS.has(target) ? ',' : ' ');
+
+function headerScore(header: string, target: string): number {
+  const h = normalize(header), t = normalize(target);
+  if (!h) return 0;
+  if (h === t) return 1;
+  const sim = stringSim(h, t);
+  if (sim >= MATCH_THRESHOLD) return sim;
+  if (h.length >= 3 && (t.includes(h) || h.includes(t))) return Math.max(sim, SUBSTRING_SCORE);
+  return 0;
+}
+
+/** Propose a one-to-one header assignment, best-scoring pairs first. */
+export function proposeMapping(headers: string[], entity: EntityKey): MappingProposal {
+  const canon = CANONICAL_COLUMNS[entity];
+  const pairs: { header: string; target: string; score: number }[] = [];
+  headers.forEach((header) =>
+    canon.forEach((target) => {
+      const score = headerScore(header, target);
+      if (score > 0) pairs.push({ header, target, score });
+    })
+  );
+  pairs.sort((a, b) => b.score - a.score);
+
+  const targets: ColumnMapping['targets'] = Object.fromEntries(canon.map((c) => [c, null]));
+  const scores: Record<string, number> = Object.fromEntries(canon.map((c) => [c, 0]));
+  const used = new Set<string>();
+  for (const p of pairs) {
+    if (targets[p.target] || used.has(p.header)) continue;
+    targets[p.target] = { kind: 'column', column: p.header };
+    scores[p.target] = p.score;
+    used.add(p.header);
+  }
+  return { mapping: { entity, targets }, scores };
+}
+
+/** Entity whose canonical columns the headers cover best (ties → null). */
+export function guessEntity(headers: string[]): EntityKey | null {
+  const ranked = (Object.keys(CANONICAL_COLUMNS) as EntityKey[])
+    .map((e) => ({ e, score: Object.values(proposeMapping(headers, e).scores).reduce((a, b) => a + b, 0) }))
+    .sort((a, b) => b.score - a.score);
+  if (!ranked[0].score || ranked[0].score === ranked[1].score) return null;
+  return ranked[0].e;
+}
+
+/** Headers a mapping reads from. */
+export function usedColumns(mapping: ColumnMapping): Set<string> {
+  const used = new Set<string>();
+  Object.values(mapping.targets).forEach((src) => {
+    if (!src) return;
+    if (src.kind === 'merge') src.columns.forEach((c) => used.add(c));
+    else used.add(src.column);
+  });
+  return used;
+}
+
+/** True when every proposed source is the canonical header itself and all required columns are present. */
+export function isIdentityMapping(mapping: ColumnMapping): boolean {
+  const required = REQUIRED_COLUMNS[mapping.entity];
+  return Object.entries(mapping.targets).every(([target, src]) =>
+    src ? src.kind === 'column' && src.column === target : !required.includes(target)
+  );
+}
+
+const cell = (row: Record<string, unknown>, col: string) => String(row[col] ?? '').trim();
+
+export function resolveSource(row: Record<string, unknown>, src: ColumnSource): unknown {
+  switch (src.kind) {
+    case 'column':
+      return row[src.column] ?? '';
+    case 'merge':
+      return src.columns.map((c) => cell(row, c)).filter(Boolean).join(src.separator);
+    case 'split': {
+      const parts = cell(row, src.column).split(src.separator || ',');
+      return (parts[src.part] ?? '').trim();
+    }
+  }
+}
+
+/** Rename / merge / split columns. Canonical columns come first, unused source columns follow unchanged. */
+export function applyMapping(
+  rows: Record<string, unknown>[],
+  headers: string[],
+  mapping: ColumnMapping
+): Record<string, unknown>[] {
+  const used = usedColumns(mapping);
+  const canon = new Set(CANONICAL_COLUMNS[mapping.entity]);
+  // A header that already has a canonical name but wasn't chosen would shadow the mapped value
+  const extras = headers.filter((h) => !used.has(h) && !canon.has(h));
+  const targets = Object.entries(mapping.targets).filter(([, src]) => src) as [string, ColumnSource][];
+
+  return rows.map((row) => {
+    const out: Record<string, unknown> = {};
+    targets.forEach(([target, src]) => { out[target] = resolveSource(row, src); });
+    extras.forEach((h) => { out[h] = row[h]; });
+    return out;
+  });
+}
+
+/** Order-insensitive fingerprint of a header row, used to remember mappings across uploads. */
+export function headerSignature(headers: string[]): string {
+  const key = headers.map(normalize).filter(Boolean).sort().join('|');
+  // FNV-1a, 32-bit
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${headers.length}:${(h >>> 0).toString(16)}`;
+}
+
+/** Drop targets / columns that don't exist in this upload (e.g. a remembered mapping for a renamed header). */
+export function sanitizeMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  const has = new Set(headers);
+  const targets: ColumnMapping['targets'] = Object.fromEntries(
+    CANONICAL_COLUMNS[mapping.entity].map((c) => [c, null])
+  );
+  Object.entries(mapping.targets).forEach(([target, src]) => {
+    if (!src || !(target in targets)) return;
+    if (src.kind === 'merge') {
+      const columns = src.columns.filter((c) => has.has(c));
+      if (columns.length) targets[target] = { ...src, columns };
+    } else if (has.has(src.column)) {
+      targets[target] = src;
+    }
+  });
+  return { entity: mapping.entity, targets };
+}
@@ -6,8 +6,10 @@ export type FilterNode = {
     | 'and' | 'or' | 'not'
     | 'cmp' | 'includes' | 'contains' | 'in' | 'nin'
     | 'startsWith' | 'endsWith' | 'regex'
-    | 'exists' | 'notExists' | 'between';
+    | 'exists' | 'notExists' | 'between' | 'within'
+    | 'any' | 'all';
   field?: string;
+  relation?: string;
   cmp?: '>' | '>=' | '<' | '<=' | '==' | '!=';
   value?: string | number | boolean;
   values?: (string | number | boolean)[];
@@ -22,6 +24,18 @@ export function heuristicFilter(entity: 'clients'|'workers'|'tasks', text: strin
   // helper: does this column exist?
   const has = (name: string) => schema.some(s => s.name === name);
 
+  // cross-entity intents first: "clients who requested any task in category ETL" etc.
+  const relational = relationalFilter(entity, text);
+  if (relational) return relational;
+
+  // "started in the last 30 days", "due this month": relative range on a date column
+  const range = text.match(/\b(today|yesterday|tomorrow|(?:last|past|previous|next|coming)\s+\d+\s+(?:days?|weeks?|months?|years?)|(?:this|current|last|previous|next)\s+(?:week|month|year))\b/i);
+  const dateCols = schema.filter(s => s.type === 'date' || s.type === 'datetime');
+  if (range && dateCols.length) {
+    const named = dateCols.find(s => T.includes(s.name.toLowerCase().replace(/date|time|at$/g, '').trim() || s.name.toLowerCase()));
+    return { op: 'within', field: (named ?? dateCols[0]).name, value: range[1].toLowerCase().replace(/\s+/g, ' ') };
+  }
+
   // workers — common intents
   if (entity === 'workers') {
     // "skills include X" / "skills contains X"
@@ -83,8 +97,90 @@ export function heuristicFilter(entity: 'clients'|'workers'|'tasks', text: strin
   return null;
 }
 
+/**
+ * Sorting / top-N / grouping intents, e.g. "top 5 clients by priority", "average duration per category",
+ * "count per group", "sorted by name desc". Field names are returned as typed; run the result
+ * through repairQuery to map them onto real columns.
+ */
+export function heuristicQueryParts(text: string): Record<string, any> | null {
+  const out: Record<string, any> = {};
+
+  const agg = text.match(/\b(average|avg|mean|sum|total|min(?:imum)?|max(?:imum)?|count|number of|how many)\b\s*(?:of\s+)?([\w ]*?)\s*\b(?:per|by|for each|grouped by|in each)\s+([\w ]+)/i);
+  if (agg) {
+    const fnWord = agg[1].toLowerCase();
+    const fn = /count|number|how many/.test(fnWord) ? 'count' : fnWord;
+    const field = fieldWords(agg[2]);
+    // "count of tasks per category": the counted word is usually the entity itself
+    out.aggregates = [fn === 'count' ? { fn } : { fn, field }];
+    out.groupBy = [fieldWords(agg[3])];
+  }
+
+  const top = text.match(/\b(top|first|highest|largest|most|bottom|lowest|smallest|least)\s+(\d+)?\b[\w ]*?\bby\s+([\w ]+)/i);
+  if (top) {
+    const desc = /top|first|highest|largest|most/i.test(top[1]);
+    out.orderBy = [{ field: fieldWords(top[3]), dir: desc ? 'desc' : 'asc' }];
+    out.limit = top[2] ? Number(top[2]) : 1;
+  } else {
+    const sort = text.match(/\b(?:sort(?:ed)?|order(?:ed)?|rank(?:ed)?)\s+by\s+([\w ]+)/i);
+    if (sort) {
+      out.orderBy = [{ field: fieldWords(sort[1]), dir: /\b(desc|descending|highest first|largest first)\b/i.test(text) ? 'desc' : 'asc' }];
+    }
+    const limit = text.match(/\b(?:limit|first|only)\s+(\d+)\b/i);
+    if (limit) out.limit = Number(limit[1]);
+  }
+
+  return Object.keys(out).length ? out : null;
+}
+
+/**
+ * Relationship phrasings (see utils/relations.ts):
+ *   clients "requested any|all task(s) in category X | requiring X"   → requestedTasks
+ *   workers "can cover a task requiring X | in category X"            → coverableTasks
+ *   tasks   "with no qualified workers" / "requested by clients in group X"
+ */
+function relationalFilter(entity: 'clients'|'workers'|'tasks', text: string): FilterNode | null {
+  if (entity === 'clients') {
+    const m = text.match(/\brequested\s+(any|all|every|some|a|an)?\s*tasks?\b(.*)$/i);
+    const child = m && taskCondition(m[2]);
+    if (m && child) return { op: /^(all|every)$/i.test(m[1] ?? '') ? 'all' : 'any', relation: 'requestedTasks', children: [child] };
+  }
+  if (entity === 'workers') {
+    const m = text.match(/\b(?:cover|do|handle|take|work on)\s+(any|all|every|some|a|an)?\s*tasks?\b(.*)$/i);
+    const child = m && taskCondition(m[2]);
+    if (m && child) return { op: /^(all|every)$/i.test(m[1] ?? '') ? 'all' : 'any', relation: 'coverableTasks', children: [child] };
+  }
+  if (entity === 'tasks') {
+    if (/\b(no|without)\s+(qualified|capable|eligible|matching)?\s*workers?\b/i.test(text)) {
+      return { op: 'not', children: [{ op: 'any', relation: 'qualifiedWorkers' }] };
+    }
+    const m = text.match(/\brequested\s+by\s+(?:any\s+|a\s+)?clients?\s+(?:in\s+)?(?:group(?:tag)?\s+)["']?([\w-]+)/i);
+    if (m) return { op: 'any', relation: 'requestedBy', children: [{ op: 'cmp', field: 'GroupTag', cmp: '==', value: m[1] }] };
+  }
+  return null;
+}
+
+// "in category ETL" / "requiring ml" / "that need ml" → condition on the task
+function taskCondition(rest: string): FilterNode | null {
+  const cat = rest.match(/\b(?:in|of|from)\s+(?:the\s+)?category\s+["']?([\w-]+)/i) ?? rest.match(/\bcategory\s*(?:=|is)?\s*["']?([\w-]+)/i);
+  if (cat) return { op: 'cmp', field: 'Category', cmp: '==', value: cat[1] };
+  const skill = rest.match(/\b(?:requiring|that requires?|which requires?|that needs?|needing|with skill)\s+["']?([\w-]+)/i);
+  if (skill) return { op: 'includes', field: 'RequiredSkills', value: skill[1] };
+  return null;
+}
+
 // --- tiny helpers ---
 
+// up to three words, stopping at direction / connector words
+function fieldWords(s: string): string {
+  const words: string[] = [];
+  for (const w of s.trim().split(/\s+/)) {
+    if (/^(desc|descending|asc|ascending|and|or|with|where|for|in|then|first|only|limit|top)$/i.test(w)) break;
+    words.push(w);
+    if (words.length === 3) break;
+  }
+  return words.join(' ');
+}
+
 function extractAfter(s: string, regex: RegExp): string | null {
   const m = s.match(regex);
   if (!m) return null;
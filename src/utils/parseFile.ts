@@ -1,9 +1,12 @@
 // src/utils/parseFile.ts
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { EntityKey, ID_FIELD } from '../store/useDataStore';
+import { applyMapping, ColumnMapping } from './mapping';
+import { ExportSchema, mergeColumns, sheetColumns } from './exportSchema';
 
-// Helper function to parse phase formats -> number[]
-const parsePhases = (phaseString: string): number[] => {
+// Phase formats -> number[]: "[1,2,3]", "1-3", "2" or "1,2,3" (also used by the allocator for unnormalized edits)
+export const parsePhases = (phaseString: string): number[] => {
   if (!phaseString) return [];
   const cleaned = phaseString.toString().trim();
 
@@ -29,8 +32,7 @@ const parsePhases = (phaseString: string): number[] => {
   }
 
   // Single number
-  const singleNumber = parseInt(cleaned);
-  if (!isNaN(singleNumber)) return [singleNumber];
+  if (/^\d+$/.test(cleaned)) return [parseInt(cleaned)];
 
   // Comma separated: "1,2,3"
   const commaSeparated = cleaned
@@ -53,7 +55,7 @@ const parseSkills = (skillString: string): string[] => {
 };
 
 // 🔧 Minimal change: keep canonical columns as strings expected by validator,
-// add parallel *Arr fields for the UI/logic. Keep numbers as numbers.
+// add parallel *Arr fields for the UI/logic (listed in exportSchema.HELPER_FIELDS). Keep numbers as numbers.
 const normalizeRowData = (row: any, entityType?: string): any => {
   const normalized: any = { ...row };
 
@@ -184,10 +186,20 @@ export interface ParsedData {
   workers: any[];
   tasks: any[];
   errors: string[];
+  columns?: ExportSchema;    // source columns per entity, for exports
 }
 
-// Parse multi-sheet Excel (3 sheets or more)
-export const parseMultiSheetExcel = (file: File): Promise<ParsedData> => {
+// One sheet / CSV as read from disk, before column mapping and normalization
+export interface RawSheet {
+  source: string;                        // file name, or "file › sheet"
+  entity: EntityKey | null;              // detected from name/headers; the mapping step may override it
+  headers: string[];
+  rows: Record<string, unknown>[];
+  dropRowsWithoutId: boolean;            // workbook sheets skip rows without an ID
+}
+
+// Read every sheet of a workbook as raw rows
+const readWorkbookSheets = (file: File): Promise<{ sheets: RawSheet[]; errors: string[] }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -196,7 +208,8 @@ export const parseMultiSheetExcel = (file: File): Promise<ParsedData> => {
         const data = new Uint8Array(e.target?.result as ArrayBuffer);
         const workbook = XLSX.read(data, { type: 'array' });
 
-        const result: ParsedData = { clients: [], workers: [], tasks: [], errors: [] };
+        const sheets: RawSheet[] = [];
+        const errors: string[] = [];
 
         workbook.SheetNames.forEach((sheetName) => {
           try {
@@ -204,39 +217,32 @@ export const parseMultiSheetExcel = (file: File): Promise<ParsedData> => {
             const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' });
 
             if (jsonData.length === 0) {
-              result.errors.push(`Sheet "${sheetName}" is empty`);
+              errors.push(`Sheet "${sheetName}" is empty`);
               return;
             }
 
             const headers = (jsonData[0] as string[]).map((h) => h.toString().trim());
-            const sheetType = detectSheetType(sheetName, headers);
-            if (!sheetType) {
-              result.errors.push(`Could not detect data type for sheet "${sheetName}"`);
-              return;
-            }
-
-            const rows = jsonData.slice(1);
-            const objects = rows
-              .map((row) => {
-                const obj: any = {};
-                headers.forEach((header, index) => {
-                  obj[header] = (row as any[])[index] ?? '';
-                });
-                return normalizeRowData(obj, sheetType);
-              })
-              .filter((row) => {
-                const requiredField =
-                  sheetType === 'clients' ? 'ClientID' : sheetType === 'workers' ? 'WorkerID' : 'TaskID';
-                return row[requiredField] && row[requiredField].toString().trim();
+            const rows = jsonData.slice(1).map((row) => {
+              const obj: Record<string, unknown> = {};
+              headers.forEach((header, index) => {
+                obj[header] = (row as any[])[index] ?? '';
               });
-
-            (result as any)[sheetType] = objects;
+              return obj;
+            });
+
+            sheets.push({
+              source: `${file.name} › ${sheetName}`,
+              entity: detectSheetType(sheetName, headers),
+              headers,
+              rows,
+              dropRowsWithoutId: true,
+            });
           } catch (error) {
-            result.errors.push(`Error parsing sheet "${sheetName}": ${error}`);
+            errors.push(`Error parsing sheet "${sheetName}": ${error}`);
           }
         });
 
-        resolve(result);
+        resolve({ sheets, errors });
       } catch (error) {
         reject(error);
       }
@@ -247,80 +253,108 @@ export const parseMultiSheetExcel = (file: File): Promise<ParsedData> => {
   });
 };
 
-// Parse single CSV
-export const parseSingleCSV = (
-  file: File
-): Promise<{ data: Record<string, unknown>[]; type: 'clients' | 'workers' | 'tasks' | null }> => {
+// Read a CSV as raw rows
+const readCsvSheet = (file: File): Promise<RawSheet> => {
   return new Promise((resolve, reject) => {
     Papa.parse<Record<string, unknown>>(file, {
       header: true,
       skipEmptyLines: true,
       transformHeader: (header: string) => header.trim(),
       complete: (results) => {
-        try {
-          const rows = results.data ?? [];
-          if (rows.length === 0) {
-            reject(new Error('CSV file is empty'));
-            return;
-          }
-
-          const first = rows[0];
-          if (!first || typeof first !== 'object' || Array.isArray(first)) {
-            reject(new Error('Unexpected CSV row format'));
-            return;
-          }
-
-          const headers = Object.keys(first as Record<string, unknown>);
-          const dataType = detectDataType(file.name, headers);
-          if (!dataType) {
-            reject(
-              new Error(
-                'Could not detect data type. Ensure filename contains "client", "worker", or "task", or has proper headers.'
-              )
-            );
-            return;
-          }
+        const rows = results.data ?? [];
+        if (rows.length === 0) {
+          reject(new Error('CSV file is empty'));
+          return;
+        }
 
-          const normalizedData = rows.map((row) => normalizeRowData(row, dataType));
-          resolve({ data: normalizedData, type: dataType });
-        } catch (error) {
-          reject(error instanceof Error ? error : new Error(String(error)));
+        const first = rows[0];
+        if (!first || typeof first !== 'object' || Array.isArray(first)) {
+          reject(new Error('Unexpected CSV row format'));
+          return;
         }
+
+        const headers = results.meta.fields ?? Object.keys(first as Record<string, unknown>);
+        resolve({
+          source: file.name,
+          entity: detectDataType(file.name, headers),
+          headers,
+          rows,
+          dropRowsWithoutId: false,
+        });
       },
       error: (err) => reject(err instanceof Error ? err : new Error(String(err))),
     });
   });
 };
 
-// Main (CSV or Excel)
-export const parseAnyFile = (file: File): Promise<ParsedData> => {
-  return new Promise(async (resolve, reject) => {
-    const ext = file.name.split('.').pop()?.toLowerCase();
+/** Read a CSV or workbook without normalizing, so the column-mapping step can run first. */
+export const readRawSheets = async (file: File): Promise<{ sheets: RawSheet[]; errors: string[] }> => {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'xlsx' || ext === 'xls') return readWorkbookSheets(file);
+  if (ext === 'csv') return { sheets: [await readCsvSheet(file)], errors: [] };
+  throw new Error('Unsupported file format. Please use CSV or Excel files.');
+};
 
-    if (ext === 'xlsx' || ext === 'xls') {
-      try {
-        const result = await parseMultiSheetExcel(file);
-        resolve(result);
-      } catch (error) {
-        reject(error);
-      }
-    } else if (ext === 'csv') {
-      try {
-        const csvResult = await parseSingleCSV(file);
-        const result: ParsedData = { clients: [], workers: [], tasks: [], errors: [] };
+/**
+ * Apply column mappings (one per sheet; null = use headers as-is) and normalize rows.
+ * Sheets of the same entity are appended.
+ */
+export const finalizeSheets = (sheets: RawSheet[], mappings: (ColumnMapping | null)[] = []): ParsedData => {
+  const result: ParsedData = { clients: [], workers: [], tasks: [], errors: [], columns: {} };
+
+  sheets.forEach((sheet, i) => {
+    const mapping = mappings[i] ?? null;
+    const entity = mapping?.entity ?? sheet.entity;
+    if (!entity) {
+      result.errors.push(`Could not detect data type for "${sheet.source}"`);
+      return;
+    }
 
-        if (csvResult.type) {
-          (result as any)[csvResult.type] = csvResult.data;
-        } else {
-          result.errors.push('Could not determine CSV data type');
-        }
+    const rows = mapping ? applyMapping(sheet.rows, sheet.headers, mapping) : sheet.rows;
+    const idColumn = ID_FIELD[entity];
+    const objects = rows
+      .map((row) => normalizeRowData(row, entity))
+      .filter((row) => !sheet.dropRowsWithoutId || (row[idColumn] && row[idColumn].toString().trim()));
 
-        resolve(result);
-      } catch (error) {
-        reject(error);
-      }
-    } else {
-      reject(new Error('Unsupported file format. Please use CSV or Excel files.'));
-    }
+    result[entity].push(...objects);
+    result.columns![entity] = mergeColumns(result.columns![entity], sheetColumns(sheet.headers, entity, mapping));
   });
+
+  return result;
+};
+
+// Parse multi-sheet Excel (3 sheets or more)
+export const parseMultiSheetExcel = async (file: File): Promise<ParsedData> => {
+  const { sheets, errors } = await readWorkbookSheets(file);
+  const result = finalizeSheets(sheets);
+  result.errors.unshift(...errors);
+  return result;
+};
+
+// Parse single CSV
+export const parseSingleCSV = async (
+  file: File
+): Promise<{ data: Record<string, unknown>[]; type: 'clients' | 'workers' | 'tasks' | null }> => {
+  const sheet = await readCsvSheet(file);
+  if (!sheet.entity) {
+    throw new Error(
+      'Could not detect data type. Ensure filename contains "client", "worker", or "task", or has proper headers.'
+    );
+  }
+  const type = sheet.entity;
+  return { data: sheet.rows.map((row) => normalizeRowData(row, type)), type };
+};
+
+// Main (CSV or Excel)
+export const parseAnyFile = async (file: File): Promise<ParsedData> => {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'xlsx' || ext === 'xls') return parseMultiSheetExcel(file);
+  if (ext === 'csv') {
+    const csvResult = await parseSingleCSV(file);
+    const result: ParsedData = { clients: [], workers: [], tasks: [], errors: [] };
+    if (csvResult.type) result[csvResult.type] = csvResult.data;
+    else result.errors.push('Could not determine CSV data type');
+    return result;
+  }
+  throw new Error('Unsupported file format. Please use CSV or Excel files.');
 };
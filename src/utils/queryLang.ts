@@ -0,0 +1,285 @@
+// src/utils/queryLang.ts
+// Compact infix syntax for FilterNode, so filters can be read and edited as text.
+//
+//   Duration >= 2 and RequiredSkills has "ml"
+//   not (GroupTag in ["A", "B"]) or PriorityLevel between 3 and 5
+//   any requestedTasks (Category = "ETL")
+//
+// Comparisons: = == != > >= < <=      Lists: has (includes), in [..], not in [..]
+// Text: contains, startswith, endswith, matches "regex"    Presence: exists, missing
+// Dates: StartDate >= "30 days ago", StartDate between 2024-01-01 and 2024-06-30, StartDate within "last 30 days"
+// Relations (utils/relations.ts): any|all <relation> [( <filter> )]
+// Precedence: not > and > or. Strings use double or single quotes; bare words are strings too.
+// `true` / `false` on their own are the constant filters (empty and / or).
+// Column names that aren't plain identifiers (or clash with a keyword) go in backticks.
+
+import type { FilterNode } from './dsl';
+
+export type QuerySyntaxError = {
+  message: string;
+  from: number;   // offsets into the source text; from === to marks a position (e.g. end of input)
+  to: number;
+};
+
+export type ParseResult =
+  | { ok: true; node: FilterNode }
+  | { ok: false; error: QuerySyntaxError };
+
+type Token =
+  | { t: 'ident'; v: string; from: number; to: number; quoted: boolean }
+  | { t: 'string'; v: string; from: number; to: number }
+  | { t: 'number'; v: number; from: number; to: number }
+  | { t: 'punct'; v: string; from: number; to: number }
+  | { t: 'eof'; from: number; to: number };
+
+const KEYWORDS = new Set([
+  'and', 'or', 'not', 'in', 'has', 'contains', 'startswith', 'endswith', 'matches',
+  'between', 'within', 'exists', 'missing', 'any', 'all', 'true', 'false',
+]);
+const CMP_TOKENS: Record<string, NonNullable<FilterNode['cmp']>> = {
+  '=': '==', '==': '==', '!=': '!=', '<>': '!=', '>': '>', '>=': '>=', '<': '<', '<=': '<=',
+};
+
+class SyntaxErr extends Error {
+  constructor(message: string, public from: number, public to: number) {
+    super(message);
+  }
+}
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) { i++; continue; }
+    const start = i;
+
+    if (c === '"' || c === "'" || c === '`') {
+      let v = '';
+      i++;
+      while (i < src.length && src[i] !== c) {
+        if (src[i] === '\\' && i + 1 < src.length) i++;
+        v += src[i++];
+      }
+      if (i >= src.length) throw new SyntaxErr('Unterminated quote', start, src.length);
+      i++;
+      out.push(c === '`' ? { t: 'ident', v, from: start, to: i, quoted: true } : { t: 'string', v, from: start, to: i });
+      continue;
+    }
+
+    const num = /^-?\d+(\.\d+)?(?![\w.-])/.exec(src.slice(i));
+    if (num && (c !== '-' || !/[\w)\]"']$/.test(src.slice(0, i).trimEnd()))) {
+      i += num[0].length;
+      out.push({ t: 'number', v: Number(num[0]), from: start, to: i });
+      continue;
+    }
+
+    const word = /^\w[\w.-]*/.exec(src.slice(i));   // also bare values such as 2024-01-31
+    if (word) {
+      i += word[0].length;
+      out.push({ t: 'ident', v: word[0], from: start, to: i, quoted: false });
+      continue;
+    }
+
+    const op = /^(==|!=|<>|>=|<=|[=<>()[\],])/.exec(src.slice(i));
+    if (op) {
+      i += op[0].length;
+      out.push({ t: 'punct', v: op[0], from: start, to: i });
+      continue;
+    }
+    throw new SyntaxErr(`Unexpected character "${c}"`, i, i + 1);
+  }
+  out.push({ t: 'eof', from: src.length, to: src.length });
+  return out;
+}
+
+/** Parse query text into a FilterNode; errors carry the offending source range. */
+export function parseQuery(text: string): ParseResult {
+  try {
+    const tokens = tokenize(text);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+    const isKw = (tok: Token, kw: string) => tok.t === 'ident' && !tok.quoted && tok.v.toLowerCase() === kw;
+    const isPunct = (tok: Token, p: string) => tok.t === 'punct' && tok.v === p;
+    const describe = (tok: Token) => (tok.t === 'eof' ? 'end of query' : `"${text.slice(tok.from, tok.to)}"`);
+    const fail = (msg: string, tok: Token = peek()): never => { throw new SyntaxErr(msg, tok.from, tok.to); };
+    const expectPunct = (p: string) => (isPunct(peek(), p) ? next() : fail(`Expected "${p}" but found ${describe(peek())}`));
+
+    const parseOr = (): FilterNode => {
+      const parts = [parseAnd()];
+      while (isKw(peek(), 'or')) { next(); parts.push(parseAnd()); }
+      return parts.length === 1 ? parts[0] : { op: 'or', children: parts };
+    };
+
+    const parseAnd = (): FilterNode => {
+      const parts = [parseUnary()];
+      while (isKw(peek(), 'and')) { next(); parts.push(parseUnary()); }
+      return parts.length === 1 ? parts[0] : { op: 'and', children: parts };
+    };
+
+    const parseUnary = (): FilterNode => {
+      if (isKw(peek(), 'not')) { next(); return { op: 'not', children: [parseUnary()] }; }
+      return parsePrimary();
+    };
+
+    const parsePrimary = (): FilterNode => {
+      const tok = peek();
+      if (isPunct(tok, '(')) {
+        next();
+        const inner = parseOr();
+        expectPunct(')');
+        return inner;
+      }
+      // constant true / false (empty and / or)
+      if (isKw(tok, 'true') || isKw(tok, 'false')) {
+        next();
+        return { op: isKw(tok, 'true') ? 'and' : 'or', children: [] };
+      }
+      if ((isKw(tok, 'any') || isKw(tok, 'all')) && tokens[pos + 1]?.t === 'ident') {
+        const op = next() as Extract<Token, { t: 'ident' }>;
+        const rel = next() as Extract<Token, { t: 'ident' }>;
+        const node: FilterNode = { op: op.v.toLowerCase() as 'any' | 'all', relation: rel.v };
+        if (isPunct(peek(), '(')) {
+          next();
+          node.children = [parseOr()];
+          expectPunct(')');
+        }
+        return node;
+      }
+      if (tok.t !== 'ident' || (!tok.quoted && KEYWORDS.has(tok.v.toLowerCase()))) {
+        return fail(`Expected a column name but found ${describe(tok)}`);
+      }
+      next();
+      return parseCondition(tok.v);
+    };
+
+    const parseValue = (): unknown => {
+      const tok = peek();
+      if (tok.t === 'string' || tok.t === 'number') { next(); return tok.v; }
+      if (isKw(tok, 'true') || isKw(tok, 'false')) { next(); return (tok as { v: string }).v.toLowerCase() === 'true'; }
+      if (tok.t === 'ident' && !tok.quoted && !KEYWORDS.has(tok.v.toLowerCase())) { next(); return tok.v; }
+      return fail(`Expected a value but found ${describe(tok)}`);
+    };
+
+    const parseList = (): unknown[] => {
+      expectPunct('[');
+      const values: unknown[] = [];
+      if (!isPunct(peek(), ']')) {
+        values.push(parseValue());
+        while (isPunct(peek(), ',')) { next(); values.push(parseValue()); }
+      }
+      expectPunct(']');
+      return values;
+    };
+
+    const parseCondition = (field: string): FilterNode => {
+      const tok = peek();
+      if (tok.t === 'punct' && CMP_TOKENS[tok.v]) {
+        next();
+        return { op: 'cmp', field, cmp: CMP_TOKENS[tok.v], value: parseValue() };
+      }
+      const kw = tok.t === 'ident' && !tok.quoted ? tok.v.toLowerCase() : '';
+      switch (kw) {
+        case 'has': next(); return { op: 'includes', field, value: parseValue() };
+        case 'contains': next(); return { op: 'contains', field, value: parseValue() };
+        case 'startswith': next(); return { op: 'startsWith', field, value: parseValue() };
+        case 'endswith': next(); return { op: 'endsWith', field, value: parseValue() };
+        case 'matches': next(); return { op: 'regex', field, value: parseValue() };
+        case 'exists': next(); return { op: 'exists', field };
+        case 'missing': next(); return { op: 'notExists', field };
+        case 'within': next(); return { op: 'within', field, value: parseValue() };
+        case 'in': next(); return { op: 'in', field, values: parseList() };
+        case 'not':
+          if (isKw(tokens[pos + 1], 'in')) { pos += 2; return { op: 'nin', field, values: parseList() }; }
+          break;
+        case 'between': {
+          next();
+          const from = parseValue();
+          if (!isKw(peek(), 'and')) fail(`Expected "and" in between but found ${describe(peek())}`);
+          next();
+          return { op: 'between', field, from, to: parseValue() };
+        }
+      }
+      return fail(`Expected an operator after ${field} but found ${describe(tok)}`);
+    };
+
+    if (peek().t === 'eof') return { ok: false, error: { message: 'Query is empty', from: 0, to: 0 } };
+    const node = parseOr();
+    if (peek().t !== 'eof') fail(`Unexpected ${describe(peek())}`);
+    return { ok: true, node };
+  } catch (err) {
+    if (err instanceof SyntaxErr) return { ok: false, error: { message: err.message, from: err.from, to: err.to } };
+    throw err;
+  }
+}
+
+// ---- Pretty-printer ----
+
+const PLAIN_IDENT = /^[A-Za-z_][\w.-]*$/;
+
+const fmtField = (f: string | undefined) =>
+  f && PLAIN_IDENT.test(f) && !KEYWORDS.has(f.toLowerCase()) ? f : `\`${String(f ?? '').replace(/[`\\]/g, '\\$&')}\``;
+
+function fmtValue(v: unknown): string {
+  if (typeof v === 'number' && Number.isFinite(v)) return String(v);
+  if (typeof v === 'boolean') return String(v);
+  if (Array.isArray(v)) return `[${v.map(fmtValue).join(', ')}]`;
+  return `"${String(v ?? '').replace(/["\\]/g, '\\$&')}"`;
+}
+
+const CMP_TEXT: Record<string, string> = { '==': '=', '!=': '!=', '>': '>', '>=': '>=', '<': '<', '<=': '<=' };
+const PRECEDENCE: Partial<Record<FilterNode['op'], number>> = { or: 1, and: 2 };
+
+/** FilterNode → query text that parseQuery reads back to an equivalent tree. */
+export function formatFilter(node: FilterNode): string {
+  const fmt = (n: FilterNode, parent: number): string => {
+    const children = (n.children ?? []) as FilterNode[];
+    switch (n.op) {
+      case 'and':
+      case 'or': {
+        const prec = PRECEDENCE[n.op]!;
+        if (children.length === 0) return n.op === 'and' ? 'true' : 'false';
+        if (children.length === 1) return fmt(children[0], parent);
+        const text = children.map((c) => fmt(c, prec)).join(` ${n.op} `);
+        return prec < parent ? `(${text})` : text;
+      }
+      case 'not': {
+        const inner = children[0];
+        if (!inner) return 'not false';
+        const body = fmt(inner, 3);
+        return `not ${inner.op === 'and' || inner.op === 'or' || body.startsWith('(') ? body : `(${body})`}`;
+      }
+      case 'any':
+      case 'all':
+        return `${n.op} ${fmtField(n.relation)}${children[0] ? ` (${fmt(children[0], 0)})` : ''}`;
+      case 'cmp': return `${fmtField(n.field)} ${CMP_TEXT[n.cmp ?? '=='] ?? '='} ${fmtValue(n.value)}`;
+      case 'includes': return `${fmtField(n.field)} has ${fmtValue(n.value)}`;
+      case 'contains': return `${fmtField(n.field)} contains ${fmtValue(n.value)}`;
+      case 'startsWith': return `${fmtField(n.field)} startswith ${fmtValue(n.value)}`;
+      case 'endsWith': return `${fmtField(n.field)} endswith ${fmtValue(n.value)}`;
+      case 'regex': return `${fmtField(n.field)} matches ${fmtValue(n.value)}`;
+      case 'in': return `${fmtField(n.field)} in ${fmtValue(n.values ?? [])}`;
+      case 'nin': return `${fmtField(n.field)} not in ${fmtValue(n.values ?? [])}`;
+      case 'exists': return `${fmtField(n.field)} exists`;
+      case 'notExists': return `${fmtField(n.field)} missing`;
+      case 'between': return `${fmtField(n.field)} between ${fmtValue(n.from)} and ${fmtValue(n.to)}`;
+      case 'within': return `${fmtField(n.field)} within ${fmtValue(n.value)}`;
+    }
+  };
+  return fmt(node, 0);
+}
+
+/** Column names the filter uses that aren't in `columns` (relation sub-filters are skipped). */
+export function unknownColumns(node: FilterNode, columns: string[]): string[] {
+  const known = new Set(columns);
+  const out = new Set<string>();
+  const walk = (n: FilterNode) => {
+    if (n.op === 'any' || n.op === 'all') return;
+    if (n.field && !known.has(n.field)) out.add(n.field);
+    ((n.children ?? []) as FilterNode[]).forEach(walk);
+  };
+  walk(node);
+  return [...out];
+}
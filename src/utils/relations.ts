@@ -0,0 +1,61 @@
+// src/utils/relations.ts
+// Declared relationships between clients, tasks and workers.
+// The relational filter ops in dsl.ts (`any` / `all`) follow these by name, e.g.
+//   clients → requestedTasks → tasks   { op: 'any', relation: 'requestedTasks', children: [<task filter>] }
+// Keys and list cells are compared case-insensitively, token by token (CSV or JSON array).
+
+import type { EntityKey } from '../store/useDataStore';
+
+export type RelationKind =
+  | 'ref'         // source list column holds target keys           (client.RequestedTaskIDs → task.TaskID)
+  | 'backref'     // target list column holds the source key        (task.TaskID ← client.RequestedTaskIDs)
+  | 'covers'      // target list contains every source list token    (task.RequiredSkills ⊆ worker.Skills)
+  | 'coveredBy'   // source list contains every target list token    (worker.Skills ⊇ task.RequiredSkills)
+  | 'same';       // equal, non-blank values; the row itself excluded (workers sharing a WorkerGroup)
+
+export interface Relation {
+  name: string;
+  from: EntityKey;
+  to: EntityKey;
+  kind: RelationKind;
+  field: string;         // column on the source row
+  targetField: string;   // column on the related rows
+  description: string;
+}
+
+export const RELATIONS: Relation[] = [
+  {
+    name: 'requestedTasks', from: 'clients', to: 'tasks', kind: 'ref',
+    field: 'RequestedTaskIDs', targetField: 'TaskID',
+    description: 'tasks listed in the client\'s RequestedTaskIDs',
+  },
+  {
+    name: 'requestedBy', from: 'tasks', to: 'clients', kind: 'backref',
+    field: 'TaskID', targetField: 'RequestedTaskIDs',
+    description: 'clients whose RequestedTaskIDs include the task',
+  },
+  {
+    name: 'qualifiedWorkers', from: 'tasks', to: 'workers', kind: 'covers',
+    field: 'RequiredSkills', targetField: 'Skills',
+    description: 'workers whose Skills cover all of the task\'s RequiredSkills',
+  },
+  {
+    name: 'coverableTasks', from: 'workers', to: 'tasks', kind: 'coveredBy',
+    field: 'Skills', targetField: 'RequiredSkills',
+    description: 'tasks whose RequiredSkills the worker\'s Skills cover',
+  },
+  {
+    name: 'groupPeers', from: 'workers', to: 'workers', kind: 'same',
+    field: 'WorkerGroup', targetField: 'WorkerGroup',
+    description: 'other workers in the same WorkerGroup',
+  },
+];
+
+export const relationsFor = (entity: EntityKey) => RELATIONS.filter((r) => r.from === entity);
+
+/** Relation of `entity` by name (case-insensitive); undefined when the entity has no such relation. */
+export function findRelation(entity: EntityKey, name: string | undefined): Relation | undefined {
+  if (!name) return undefined;
+  const key = name.toLowerCase();
+  return relationsFor(entity).find((r) => r.name.toLowerCase() === key);
+}
@@ -1,13 +1,20 @@
 // src/utils/schema.ts
 // Build a compact schema: columns, type guesses, and sample values (no full data).
+// Temporal types are strict: every non-blank value must parse (utils/dates.ts) — 'datetime' when some carry a time.
+
+import { DateSettings, DEFAULT_DATE_SETTINGS, parseDuration, parseTemporal } from './dates';
 
 export type FieldSchema = {
   name: string;
-  type: 'number' | 'string' | 'array' | 'boolean' | 'date' | 'unknown';
+  type: 'number' | 'string' | 'array' | 'boolean' | 'date' | 'datetime' | 'duration' | 'unknown';
   samples: (string | number | boolean)[]; // small distinct set
 };
 
-export function inferSchema(rows: Record<string, any>[], maxSamples = 6): FieldSchema[] {
+export function inferSchema(
+  rows: Record<string, any>[],
+  maxSamples = 6,
+  dates: DateSettings = DEFAULT_DATE_SETTINGS
+): FieldSchema[] {
   if (!rows?.length) return [];
   const fields = Object.keys(rows[0] ?? {});
   const out: FieldSchema[] = [];
@@ -18,8 +25,7 @@ export function inferSchema(rows: Record<string, any>[], maxSamples = 6): FieldS
     if (values.some(isArrayLike)) type = 'array';
     else if (values.every(isNumericLike)) type = 'number';
     else if (values.every(isBooleanLike)) type = 'boolean';
-    else if (values.some(isDateLike)) type = 'date';
-    else type = 'string';
+    else type = temporalType(values, dates) ?? 'string';
 
     const uniq: any[] = [];
     for (const v of values) {
@@ -45,9 +51,13 @@ function isBooleanLike(v: any): boolean {
   const s = String(v ?? '').trim().toLowerCase();
   return s === 'true' || s === 'false' || v === true || v === false;
 }
-function isDateLike(v: any): boolean {
-  const d = new Date(v);
-  return !isNaN(d.getTime());
+function temporalType(values: any[], dates: DateSettings): FieldSchema['type'] | null {
+  const filled = values.filter((v) => String(v).trim() !== '');
+  if (!filled.length) return null;
+  const parsed = filled.map((v) => parseTemporal(v, dates));
+  if (parsed.every(Boolean)) return parsed.some((p) => p!.hasTime) ? 'datetime' : 'date';
+  if (filled.every((v) => parseDuration(v) !== null)) return 'duration';
+  return null;
 }
 function stringifyValueSample(v: any, t: FieldSchema['type']) {
   if (t === 'array') return Array.isArray(v) ? JSON.stringify(v) : String(v);
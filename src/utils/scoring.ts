@@ -0,0 +1,134 @@
+// src/utils/scoring.ts
+// Objective catalogue + weighted scoring used by the allocator (and fix ranking).
+// Weights come from usePrioritiesStore; everything here is pure so it can run in workers/tests.
+
+export type ObjectiveKey =
+  | 'priorityFulfilment'   // serve high PriorityLevel clients first
+  | 'requestFulfilment'    // maximise number of fulfilled requests
+  | 'fairness'             // minimise worker load imbalance
+  | 'preferredPhases'      // respect task PreferredPhases
+  | 'earliness'            // finish work as early as possible
+  | 'qualification';       // prefer higher QualificationLevel workers
+
+export type ObjectiveWeights = Record<ObjectiveKey, number>;
+
+export const OBJECTIVES: { key: ObjectiveKey; label: string; description: string }[] = [
+  { key: 'priorityFulfilment', label: 'Fulfil high-priority clients', description: 'Serve clients with a higher PriorityLevel before others' },
+  { key: 'requestFulfilment', label: 'Maximise fulfilment', description: 'Place as many requested tasks as possible, scarce tasks first' },
+  { key: 'fairness', label: 'Minimise load imbalance', description: 'Spread assignments evenly across workers' },
+  { key: 'preferredPhases', label: 'Respect PreferredPhases', description: 'Keep tasks inside their preferred phases instead of spilling over' },
+  { key: 'earliness', label: 'Finish early', description: 'Prefer the earliest feasible start phase' },
+  { key: 'qualification', label: 'Prefer qualified workers', description: 'Favour workers with a higher QualificationLevel' },
+];
+
+export const OBJECTIVE_KEYS = OBJECTIVES.map((o) => o.key);
+
+// Slider-scale (0–100) defaults: PreferredPhases stay strict, then early start and balanced load.
+export const DEFAULT_WEIGHTS: ObjectiveWeights = {
+  priorityFulfilment: 60,
+  requestFulfilment: 30,
+  fairness: 40,
+  preferredPhases: 100,
+  earliness: 70,
+  qualification: 10,
+};
+
+/** Scale weights so they sum to 1 (all-zero input falls back to equal weights). */
+export function normalizeWeights(w: Partial<ObjectiveWeights>): ObjectiveWeights {
+  const vals = OBJECTIVE_KEYS.map((k) => Math.max(0, Number(w[k]) || 0));
+  const sum = vals.reduce((a, b) => a + b, 0);
+  const out = {} as ObjectiveWeights;
+  OBJECTIVE_KEYS.forEach((k, i) => { out[k] = sum > 0 ? vals[i] / sum : 1 / OBJECTIVE_KEYS.length; });
+  return out;
+}
+
+/**
+ * Pairwise comparison → weights (AHP, geometric-mean approximation).
+ * `comparisons["a|b"] = n` means a is (n+1)× as important as b; n < 0 means b is (|n|+1)× as important.
+ * Zero or missing pairs count as equal.
+ */
+export function weightsFromPairwise(comparisons: Record<string, number>): ObjectiveWeights {
+  const ratio = (a: ObjectiveKey, b: ObjectiveKey): number => {
+    if (a === b) return 1;
+    const direct = comparisons[pairKey(a, b)];
+    if (direct !== undefined) return toRatio(direct);
+    const inverse = comparisons[pairKey(b, a)];
+    if (inverse !== undefined) return 1 / toRatio(inverse);
+    return 1;
+  };
+  const raw = {} as ObjectiveWeights;
+  OBJECTIVE_KEYS.forEach((a) => {
+    const prod = OBJECTIVE_KEYS.reduce((p, b) => p * ratio(a, b), 1);
+    raw[a] = Math.pow(prod, 1 / OBJECTIVE_KEYS.length);
+  });
+  return normalizeWeights(raw);
+}
+
+/** Drag-to-rank order → weights (rank-order centroid; first = most important). */
+export function weightsFromRanking(order: ObjectiveKey[]): ObjectiveWeights {
+  const ranked = [...order, ...OBJECTIVE_KEYS.filter((k) => !order.includes(k))];
+  const n = ranked.length;
+  const out = {} as ObjectiveWeights;
+  ranked.forEach((k, i) => {
+    let s = 0;
+    for (let j = i + 1; j <= n; j++) s += 1 / j;
+    out[k] = s / n;
+  });
+  return normalizeWeights(out);
+}
+
+export function pairKey(a: ObjectiveKey, b: ObjectiveKey) {
+  return `${a}|${b}`;
+}
+
+/**
+ * Order score for a request (higher = served earlier).
+ * `priority` is the client's PriorityLevel (1–5); `qualifiedWorkers` is how many workers could do the task.
+ */
+export function requestScore(w: ObjectiveWeights, priority: number, qualifiedWorkers: number): number {
+  const p = clamp01((priority - 1) / 4);
+  const scarcity = 1 / (1 + Math.max(0, qualifiedWorkers));
+  return w.priorityFulfilment * p + w.requestFulfilment * scarcity;
+}
+
+/**
+ * Score for placing a request with one worker at one start phase (higher = better).
+ * Inputs are pre-normalised to 0–1 by the caller.
+ */
+export function candidateScore(
+  w: ObjectiveWeights,
+  c: { startNorm: number; loadNorm: number; qualificationNorm: number; outsidePreferred: boolean }
+): number {
+  return (
+    -w.earliness * c.startNorm -
+    w.fairness * c.loadNorm +
+    w.qualification * c.qualificationNorm -
+    (c.outsidePreferred ? w.preferredPhases : 0)
+  );
+}
+
+// How far objectives can reorder fix candidates: at most this much confidence is traded for alignment
+const FIX_OBJECTIVE_SPAN = 0.2;
+
+/**
+ * Ranking score for a fix candidate (higher = better).
+ * `alignment` says how the fix moves each objective, -1 (against) to 1 (for); missing keys are neutral.
+ */
+export function fixScore(w: ObjectiveWeights, confidence: number, alignment: Partial<Record<ObjectiveKey, number>> = {}): number {
+  const pull = OBJECTIVE_KEYS.reduce((s, k) => s + w[k] * Math.max(-1, Math.min(1, alignment[k] ?? 0)), 0);
+  return confidence + FIX_OBJECTIVE_SPAN * pull;
+}
+
+/** True when fulfilment outweighs PreferredPhases, i.e. tasks may spill outside their preferred phases. */
+export function allowsPhaseSpill(w: ObjectiveWeights): boolean {
+  return w.requestFulfilment > w.preferredPhases;
+}
+
+function toRatio(n: number): number {
+  if (!Number.isFinite(n) || n === 0) return 1;
+  return n > 0 ? n + 1 : 1 / (1 - n);
+}
+
+function clamp01(x: number) {
+  return Number.isFinite(x) ? Math.min(1, Math.max(0, x)) : 0;
+}
@@ -0,0 +1,169 @@
+// src/utils/validationRunner.ts
+// Main-thread side of background validation.
+// - `requestValidation()` snapshots data + rules + profile and hands it to domainValidate.worker.ts.
+// - Each request supersedes the previous one (the older promise resolves to null).
+// - Passing `changes` re-runs only the validators that read those fields and splices them into
+//   the stored errors; validators left dirty by a superseded/cancelled run are carried into the next one.
+// - Progress and results land in useValidationStore; without Worker support it runs inline.
+// - Fix candidates are ranked here with the current priority weights, and re-ranked when the weights change.
+
+import { useDataStore, Client, Worker as WorkerRow, Task } from '../store/useDataStore';
+import { useValidationStore, ValidationError } from '../store/useValidationStore';
+import { useRulesStore } from '../store/useRulesStore';
+import { useValidationProfileStore } from '../store/useValidationProfileStore';
+import { usePrioritiesStore } from '../store/usePrioritiesStore';
+import { rankErrorFixes } from './fixCandidates';
+import { validateAllData, runValidator, mergeValidatorResults } from './validators';
+import { VALIDATORS, ValidatorCode, FieldChange, resolveSettings, affectedValidators } from './validatorRegistry';
+import type { ValidationRequest, ValidationResponse } from '../workers/validationProtocol';
+
+type Snapshot = Omit<Extract<ValidationRequest, { type: 'validate' }>, 'type' | 'jobId'>;
+type Pending = { snapshot: Snapshot; resolve: (errors: ValidationError[] | null) => void };
+
+let worker: globalThis.Worker | null = null;
+let workerBroken = false;
+let jobSeq = 0;
+const pending = new Map<number, Pending>();
+
+// Validators whose stored errors are out of date ('all' until the first full run lands)
+let dirty: Set<ValidatorCode> | 'all' = 'all';
+
+function getWorker(): globalThis.Worker | null {
+  if (workerBroken || typeof window === 'undefined' || typeof window.Worker === 'undefined') return null;
+  if (!worker) {
+    try {
+      worker = new window.Worker(new URL('../workers/domainValidate.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<ValidationResponse>) => onMessage(e.data);
+      worker.onerror = (e) => {
+        console.warn('Validation worker failed, falling back to main thread:', e.message);
+        workerBroken = true;
+        worker?.terminate();
+        worker = null;
+        pending.forEach((p, jobId) => runInline(jobId, p));
+      };
+    } catch (err) {
+      console.warn('Validation worker unavailable:', err);
+      workerBroken = true;
+      return null;
+    }
+  }
+  return worker;
+}
+
+function finish(jobId: number, fresh: ValidationError[] | null, codes?: ValidatorCode[]) {
+  const p = pending.get(jobId);
+  pending.delete(jobId);
+  if (jobId !== jobSeq) return p?.resolve(null);
+
+  const store = useValidationStore.getState();
+  let errors: ValidationError[] | null = null;
+  if (fresh) {
+    const ranked = rankErrorFixes(fresh, usePrioritiesStore.getState().normalized());
+    errors = codes ? mergeValidatorResults(store.errors, ranked, codes) : ranked;
+    store.setErrors(errors);
+    dirty = new Set();
+  }
+  store.setProgress(null);
+  store.setValidating(false);
+  p?.resolve(errors);
+}
+
+usePrioritiesStore.subscribe((s, prev) => {
+  if (s.weights === prev.weights) return;
+  const { errors, setErrors } = useValidationStore.getState();
+  if (errors.some((e) => e.fixes?.length)) setErrors(rankErrorFixes(errors, s.normalized()));
+});
+
+function runInline(jobId: number, { snapshot }: Pending) {
+  setTimeout(() => {
+    if (jobId !== jobSeq) return finish(jobId, null);
+    const { clients, workers, tasks, rules, profile, codes } = snapshot;
+    if (!codes) return finish(jobId, validateAllData(clients, workers, tasks, rules, profile));
+    const ctx = { clients, workers, tasks, rules };
+    finish(jobId, codes.flatMap((code) => runValidator(code, ctx, profile)), codes);
+  }, 0);
+}
+
+function onMessage(msg: ValidationResponse) {
+  switch (msg.type) {
+    case 'progress':
+      if (msg.jobId === jobSeq) {
+        useValidationStore.getState().setProgress({ code: msg.code, done: msg.done, total: msg.total });
+      }
+      break;
+    case 'result':
+      finish(msg.jobId, msg.errors, msg.codes);
+      break;
+    case 'cancelled':
+      finish(msg.jobId, null);
+      break;
+    case 'failed': {
+      console.warn('Validation worker error:', msg.message);
+      const p = pending.get(msg.jobId);
+      if (p) runInline(msg.jobId, p);
+      break;
+    }
+  }
+}
+
+/**
+ * Validate in the background. Data defaults to the current useDataStore contents;
+ * pass a snapshot when the store has not flushed yet (e.g. right after an edit).
+ * With `changes`, only validators reading the edited fields are recomputed.
+ * Resolves with the errors, or null when a newer request or cancel superseded it.
+ */
+export function requestValidation(
+  data?: { clients: Client[]; workers: WorkerRow[]; tasks: Task[] },
+  { changes }: { changes?: FieldChange[] } = {}
+): Promise<ValidationError[] | null> {
+  const { clients, workers, tasks } = data ?? useDataStore.getState();
+  const profile = useValidationProfileStore.getState().profile;
+  const store = useValidationStore.getState();
+
+  // Errors from before the registry (no code) can't be spliced: fall back to a full run
+  if (!changes || store.errors.some((e) => !e.code)) dirty = 'all';
+  else if (dirty !== 'all') affectedValidators(changes, profile).forEach((code) => (dirty as Set<ValidatorCode>).add(code));
+
+  const codes = dirty === 'all' ? undefined : [...dirty];
+  const snapshot: Snapshot = { clients, workers, tasks, rules: useRulesStore.getState().rules, profile, codes };
+
+  cancelValidation({ keepState: true });
+  const jobId = ++jobSeq;
+
+  // Nothing the validators read has changed
+  if (codes && codes.length === 0) {
+    store.setProgress(null);
+    store.setValidating(false);
+    return Promise.resolve(store.errors);
+  }
+
+  store.setValidating(true);
+  store.setProgress({
+    code: null,
+    done: 0,
+    total: VALIDATORS.filter((v) => resolveSettings(profile, v.code).enabled && (!codes || codes.includes(v.code))).length,
+  });
+
+  return new Promise((resolve) => {
+    const job: Pending = { snapshot, resolve };
+    pending.set(jobId, job);
+    const w = getWorker();
+    if (!w) return runInline(jobId, job);
+    w.postMessage({ type: 'validate', jobId, ...snapshot } as ValidationRequest);
+  });
+}
+
+/** Abandon in-flight validation; the last completed errors stay in the store. */
+export function cancelValidation({ keepState = false }: { keepState?: boolean } = {}) {
+  pending.forEach((p, jobId) => {
+    pending.delete(jobId);
+    worker?.postMessage({ type: 'cancel', jobId } as ValidationRequest);
+    p.resolve(null);
+  });
+  if (!keepState) {
+    jobSeq++;
+    const store = useValidationStore.getState();
+    store.setProgress(null);
+    store.setValidating(false);
+  }
+}
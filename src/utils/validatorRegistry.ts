@@ -0,0 +1,246 @@
+// src/utils/validatorRegistry.ts
+// Catalogue of the domain validators: stable code, description, default severity and tunable params.
+// validators.ts maps each code to its implementation; the UI and exported profiles only need this file.
+
+import type { DateProfile } from './dates';
+import { ID_FIELD } from '../store/useDataStore';
+
+export type ValidatorCode =
+  | 'REQUIRED_COLUMNS'
+  | 'DUPLICATE_IDS'
+  | 'MALFORMED_LISTS'
+  | 'OUT_OF_RANGE'
+  | 'BROKEN_JSON'
+  | 'UNKNOWN_REFERENCES'
+  | 'CORUN_CYCLES'
+  | 'PHASE_WINDOW_CONFLICTS'
+  | 'OVERLOADED_WORKERS'
+  | 'PHASE_SLOT_SATURATION'
+  | 'SKILL_COVERAGE'
+  | 'MAX_CONCURRENCY'
+  | 'RULE_CONSTRAINTS'
+  | 'DATE_RANGES';
+
+export type Severity = 'error' | 'warning';
+
+export type DataEntity = 'clients' | 'workers' | 'tasks';
+
+/** One edited cell's column; drives incremental re-validation. */
+export interface FieldChange {
+  entity: DataEntity;
+  field: string;
+}
+
+export interface ValidatorParamDef {
+  key: string;
+  label: string;
+  default: number;
+  min?: number;
+  max?: number;
+}
+
+export interface ValidatorDefinition {
+  code: ValidatorCode;
+  title: string;
+  description: string;
+  defaultSeverity: Severity;
+  critical: boolean;          // counted in "Critical" badges / export gates when raised as an error
+  params: ValidatorParamDef[];
+  reads: Partial<Record<DataEntity, string[]>>;   // fields whose edits can change this validator's output
+}
+
+export const VALIDATORS: ValidatorDefinition[] = [
+  {
+    code: 'REQUIRED_COLUMNS',
+    title: 'Required columns',
+    description: 'Data is loaded and clients have ClientID, ClientName and PriorityLevel columns',
+    defaultSeverity: 'error',
+    critical: true,
+    params: [],
+    reads: { clients: ['ClientID', 'ClientName', 'PriorityLevel'] },
+  },
+  {
+    code: 'DUPLICATE_IDS',
+    title: 'Duplicate IDs',
+    description: 'ClientID, WorkerID and TaskID are unique',
+    defaultSeverity: 'error',
+    critical: true,
+    params: [],
+    reads: { clients: ['ClientID'], workers: ['WorkerID'], tasks: ['TaskID'] },
+  },
+  {
+    code: 'MALFORMED_LISTS',
+    title: 'Malformed lists',
+    description: 'AvailableSlots is a JSON array of positive phase numbers',
+    defaultSeverity: 'error',
+    critical: true,
+    params: [{ key: 'minPhase', label: 'Lowest valid phase', default: 1, min: 0 }],
+    reads: { workers: ['WorkerID', 'AvailableSlots'] },
+  },
+  {
+    code: 'OUT_OF_RANGE',
+    title: 'Out-of-range values',
+    description: 'PriorityLevel, Duration and MaxConcurrent are within bounds',
+    defaultSeverity: 'error',
+    critical: false,
+    params: [
+      { key: 'priorityMin', label: 'PriorityLevel min', default: 1 },
+      { key: 'priorityMax', label: 'PriorityLevel max', default: 5 },
+      { key: 'durationMin', label: 'Minimum Duration', default: 1, min: 0 },
+      { key: 'maxConcurrentMin', label: 'Minimum MaxConcurrent', default: 1, min: 0 },
+    ],
+    reads: { clients: ['ClientID', 'PriorityLevel'], tasks: ['TaskID', 'Duration', 'MaxConcurrent'] },
+  },
+  {
+    code: 'BROKEN_JSON',
+    title: 'Broken JSON',
+    description: 'AttributesJSON parses as JSON',
+    defaultSeverity: 'error',
+    critical: false,
+    params: [],
+    reads: { clients: ['ClientID', 'AttributesJSON'] },
+  },
+  {
+    code: 'UNKNOWN_REFERENCES',
+    title: 'Unknown references',
+    description: 'RequestedTaskIDs only reference existing tasks',
+    defaultSeverity: 'error',
+    critical: true,
+    params: [],
+    reads: { clients: ['ClientID', 'RequestedTaskIDs'], tasks: ['TaskID'] },
+  },
+  {
+    code: 'CORUN_CYCLES',
+    title: 'Co-run cycles & window conflicts',
+    description: 'Co-run rules do not loop and co-run groups share an allowed phase',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [],
+    reads: { tasks: ['TaskID', 'PreferredPhases'] },
+  },
+  {
+    code: 'PHASE_WINDOW_CONFLICTS',
+    title: 'Phase-window feasibility',
+    description: 'Enough qualified workers are available in a task’s preferred phases',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [],
+    reads: {
+      workers: ['Skills', 'AvailableSlots'],
+      tasks: ['TaskID', 'PreferredPhases', 'RequiredSkills', 'MaxConcurrent'],
+    },
+  },
+  {
+    code: 'OVERLOADED_WORKERS',
+    title: 'Overloaded workers',
+    description: 'MaxLoadPerPhase does not exceed the number of available slots',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [],
+    reads: { workers: ['WorkerID', 'AvailableSlots', 'MaxLoadPerPhase'] },
+  },
+  {
+    code: 'PHASE_SLOT_SATURATION',
+    title: 'Phase-slot saturation',
+    description: 'Demand per phase does not exceed worker capacity',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [{ key: 'capacityFactor', label: 'Capacity multiplier', default: 1, min: 0 }],
+    reads: {
+      workers: ['AvailableSlots', 'MaxLoadPerPhase'],
+      tasks: ['PreferredPhases', 'Duration', 'MaxConcurrent'],
+    },
+  },
+  {
+    code: 'SKILL_COVERAGE',
+    title: 'Skill coverage',
+    description: 'Every required skill is held by at least one worker',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [],
+    reads: { workers: ['Skills'], tasks: ['TaskID', 'RequiredSkills'] },
+  },
+  {
+    code: 'MAX_CONCURRENCY',
+    title: 'Max-concurrency feasibility',
+    description: 'MaxConcurrent does not exceed the number of qualified workers',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [],
+    reads: { workers: ['Skills'], tasks: ['TaskID', 'RequiredSkills', 'MaxConcurrent'] },
+  },
+  {
+    code: 'RULE_CONSTRAINTS',
+    title: 'Authored rules',
+    description: 'coRun, phaseWindow, loadLimit and slotRestriction rules are satisfiable by the data',
+    defaultSeverity: 'error',
+    critical: false,
+    params: [],
+    reads: {
+      clients: ['ClientID', 'RequestedTaskIDs', 'GroupTag', 'ClientGroup'],
+      workers: ['WorkerID', 'WorkerGroup', 'AvailableSlots', 'MaxLoadPerPhase'],
+      tasks: ['TaskID', 'PreferredPhases'],
+    },
+  },
+  {
+    code: 'DATE_RANGES',
+    title: 'Dates and durations',
+    description:
+      'Date-typed columns (profile date settings, plus date-like AttributesJSON keys) parse and stay within their min / max',
+    defaultSeverity: 'warning',
+    critical: false,
+    params: [],
+    // Plus the configured date columns, see affectedValidators; IDs because errors carry the row's ID
+    reads: { clients: ['ClientID', 'AttributesJSON'], workers: ['WorkerID'], tasks: ['TaskID'] },
+  },
+];
+
+export const VALIDATOR_BY_CODE = Object.fromEntries(VALIDATORS.map((v) => [v.code, v])) as Record<
+  ValidatorCode,
+  ValidatorDefinition
+>;
+
+export interface ValidatorSettings {
+  enabled: boolean;
+  severity: Severity | 'default';
+  params: Record<string, number>;
+}
+
+export interface ValidationProfile {
+  name: string;
+  validators: Partial<Record<ValidatorCode, Partial<ValidatorSettings>>>;
+  /** Date formats, timezone and date-typed columns (utils/dates.ts); shared by the DSL and DATE_RANGES. */
+  dates?: DateProfile;
+}
+
+export const DEFAULT_PROFILE: ValidationProfile = { name: 'Default', validators: {} };
+
+/** Profile overrides merged over the registry defaults. */
+export function resolveSettings(profile: ValidationProfile | undefined, code: ValidatorCode): ValidatorSettings {
+  const def = VALIDATOR_BY_CODE[code];
+  const o = profile?.validators?.[code] ?? {};
+  const params: Record<string, number> = {};
+  def.params.forEach((p) => {
+    const v = Number(o.params?.[p.key]);
+    params[p.key] = Number.isFinite(v) ? v : p.default;
+  });
+  return { enabled: o.enabled ?? true, severity: o.severity ?? 'default', params };
+}
+
+/** Validators whose output can change when any of these fields is edited. */
+export function affectedValidators(changes: FieldChange[], profile?: ValidationProfile): ValidatorCode[] {
+  // Configured date columns are read too ("AttributesJSON.startDate" reads AttributesJSON)
+  const dateReads = (profile?.dates?.columns ?? []).flatMap((c) => [
+    { entity: c.entity, field: c.field.split('.')[0] },
+    { entity: c.entity, field: ID_FIELD[c.entity] },
+  ]);
+  const reads = (v: ValidatorDefinition, c: FieldChange) =>
+    !!v.reads[c.entity]?.includes(c.field) ||
+    (v.code === 'DATE_RANGES' && dateReads.some((d) => d.entity === c.entity && d.field === c.field));
+  return VALIDATORS.filter((v) => changes.some((c) => reads(v, c))).map((v) => v.code);
+}
+
+/** Criticality comes from the validator that raised the error, not from its id. */
+export function isCriticalError(e: { code?: ValidatorCode; severity: Severity }): boolean {
+  return e.severity === 'error' && !!e.code && VALIDATOR_BY_CODE[e.code]?.critical === true;
+}
@@ -1,38 +1,118 @@
 // src/utils/validators.ts
-import { ValidationError } from '../store/useValidationStore';
-import { Client, Worker, Task } from '../store/useDataStore';
+import type { ValidationError } from '../store/useValidationStore';
+import { Client, Worker, Task, ID_FIELD } from '../store/useDataStore';
+import type { Rule } from '../rules/schema';
+import { analyzeRuleGraph } from '../rules/graph';
+import {
+  ValidatorCode,
+  ValidationProfile,
+  VALIDATORS,
+  DEFAULT_PROFILE,
+  resolveSettings,
+  isCriticalError
+} from './validatorRegistry';
+import {
+  DateColumn,
+  DateProfile,
+  DateSettings,
+  formatDate,
+  parseDuration,
+  parseTemporal,
+  readPath,
+  resolveDateSettings,
+  resolveInstant
+} from './dates';
+import { fixCandidates } from './fixCandidates';
+import { parsePhases } from './parseFile';
+
+export interface ValidatorContext {
+  clients: Client[];
+  workers: Worker[];
+  tasks: Task[];
+  rules: Rule[];
+  dates?: DateProfile;                           // from the profile; see runValidator
+}
+
+type ValidatorImpl = (ctx: ValidatorContext, params: Record<string, number>) => ValidationError[];
+
+// Registry code -> implementation (metadata and defaults live in validatorRegistry.ts)
+const IMPLEMENTATIONS: Record<ValidatorCode, ValidatorImpl> = {
+  REQUIRED_COLUMNS: ({ clients, workers, tasks }) => validateRequiredColumns(clients, workers, tasks),        // Rule 1
+  DUPLICATE_IDS: ({ clients, workers, tasks }) => validateDuplicateIds(clients, workers, tasks),              // Rule 2
+  MALFORMED_LISTS: ({ workers, tasks }, p) => validateMalformedLists(workers, tasks, p),                     // Rule 3
+  OUT_OF_RANGE: ({ clients, workers, tasks }, p) => validateOutOfRangeValues(clients, workers, tasks, p),    // Rule 4
+  BROKEN_JSON: ({ clients }) => validateBrokenJson(clients),                                                 // Rule 5
+  UNKNOWN_REFERENCES: ({ clients, tasks }) => validateUnknownReferences(clients, tasks),                     // Rule 6
+  CORUN_CYCLES: ({ rules, tasks }) => validateCircularCoRunGroups(rules, tasks),                             // Rule 7
+  PHASE_WINDOW_CONFLICTS: ({ workers, tasks }) => validatePhaseWindowConflicts(workers, tasks),              // Rule 8
+  OVERLOADED_WORKERS: ({ workers }) => validateOverloadedWorkers(workers),                                   // Rule 9
+  PHASE_SLOT_SATURATION: ({ workers, tasks }, p) => validatePhaseSlotSaturation(workers, tasks, p),          // Rule 10
+  SKILL_COVERAGE: ({ workers, tasks }) => validateSkillCoverage(workers, tasks),                             // Rule 11
+  MAX_CONCURRENCY: ({ workers, tasks }) => validateMaxConcurrencyFeasibility(workers, tasks),                // Rule 12
+  RULE_CONSTRAINTS: ({ rules, clients, workers, tasks }) => validateRuleConstraints(rules, clients, workers, tasks), // User-authored rules
+  DATE_RANGES: ({ clients, workers, tasks, dates }) => validateDateRanges({ clients, workers, tasks }, dates),  // Date-typed columns
+};
 
 export function validateAllData(
   clients: Client[],
   workers: Worker[],
-  tasks: Task[]
+  tasks: Task[],
+  rules: Rule[] = [],
+  profile: ValidationProfile = DEFAULT_PROFILE
 ): ValidationError[] {
   const errors: ValidationError[] = [];
+  const ctx: ValidatorContext = { clients, workers, tasks, rules };
 
   console.log('🔍 Starting comprehensive validation...', {
     clients: clients.length,
     workers: workers.length,
-    tasks: tasks.length
+    tasks: tasks.length,
+    profile: profile.name
   });
 
-  // Core Rule Set (12 rules)
-  errors.push(...validateRequiredColumns(clients, workers, tasks));      // Rule 1
-  errors.push(...validateDuplicateIds(clients, workers, tasks));         // Rule 2  
-  errors.push(...validateMalformedLists(workers, tasks));               // Rule 3
-  errors.push(...validateOutOfRangeValues(clients, workers, tasks));    // Rule 4
-  errors.push(...validateBrokenJson(clients));                          // Rule 5
-  errors.push(...validateUnknownReferences(clients, tasks));            // Rule 6
-  errors.push(...validateCircularCoRunGroups(tasks));                   // Rule 7
-  errors.push(...validatePhaseWindowConflicts(workers, tasks));         // Rule 8
-  errors.push(...validateOverloadedWorkers(workers));                   // Rule 9
-  errors.push(...validatePhaseSlotSaturation(workers, tasks));          // Rule 10
-  errors.push(...validateSkillCoverage(workers, tasks));                // Rule 11
-  errors.push(...validateMaxConcurrencyFeasibility(workers, tasks));    // Rule 12
+  VALIDATORS.forEach(({ code }) => errors.push(...runValidator(code, ctx, profile)));
 
   console.log(`✅ Validation complete: ${errors.length} issues found`);
   return errors;
 }
 
+/**
+ * Run one validator under a profile: skipped when disabled, errors tagged with
+ * the validator code and re-levelled when the profile overrides the severity.
+ */
+export function runValidator(
+  code: ValidatorCode,
+  ctx: ValidatorContext,
+  profile: ValidationProfile = DEFAULT_PROFILE
+): ValidationError[] {
+  const settings = resolveSettings(profile, code);
+  if (!settings.enabled) return [];
+  const withDates = profile.dates ? { ...ctx, dates: profile.dates } : ctx;
+  return IMPLEMENTATIONS[code](withDates, settings.params).map(error => {
+    const fixes = fixCandidates(code, error, ctx, settings.params);
+    return {
+      ...error,
+      code,
+      severity: settings.severity === 'default' ? error.severity : settings.severity,
+      autoFixValue: fixes.length ? fixes[0].value : undefined,
+      ...(fixes.length ? { fixes } : {})
+    };
+  });
+}
+
+/**
+ * Splice re-run validators into a previous result. Errors are grouped in registry order,
+ * so the merge equals a full run whenever `codes` covers every validator affected by the edits.
+ */
+export function mergeValidatorResults(
+  previous: ValidationError[],
+  fresh: ValidationError[],
+  codes: ValidatorCode[]
+): ValidationError[] {
+  const rerun = new Set(codes);
+  return VALIDATORS.flatMap(({ code }) => (rerun.has(code) ? fresh : previous).filter(e => e.code === code));
+}
+
 /**
  * Rule 1: Missing required columns
  */
@@ -185,7 +265,11 @@ function validateDuplicateIds(
 /**
  * Rule 3: Malformed lists
  */
-function validateMalformedLists(workers: Worker[], tasks: Task[]): ValidationError[] {
+function validateMalformedLists(
+  workers: Worker[],
+  tasks: Task[],
+  { minPhase }: Record<string, number>
+): ValidationError[] {
   const errors: ValidationError[] = [];
 
   workers.forEach((worker, index) => {
@@ -197,16 +281,16 @@ function validateMalformedLists(workers: Worker[], tasks: Task[]): ValidationErr
         }
         
         slots.forEach((slot, slotIndex) => {
-          if (!Number.isInteger(slot) || slot < 1) {
+          if (!Number.isInteger(slot) || slot < minPhase) {
             errors.push({
               id: `malformed-slot-${worker.WorkerID}-${slotIndex}`,
               entity: 'workers',
               entityId: worker.WorkerID,
               rowIndex: index,
               field: 'AvailableSlots',
-              message: `Invalid slot value: ${slot}. Must be positive integer.`,
+              message: `Invalid slot value: ${slot}. Must be an integer >= ${minPhase}.`,
               severity: 'error',
-              suggestion: 'Use positive integers for phase numbers',
+              suggestion: `Use integers >= ${minPhase} for phase numbers`,
               autoFixValue: JSON.stringify([1, 2, 3])
             });
           }
@@ -236,53 +320,54 @@ function validateMalformedLists(workers: Worker[], tasks: Task[]): ValidationErr
 function validateOutOfRangeValues(
   clients: Client[],
   workers: Worker[],
-  tasks: Task[]
+  tasks: Task[],
+  { priorityMin, priorityMax, durationMin, maxConcurrentMin }: Record<string, number>
 ): ValidationError[] {
   const errors: ValidationError[] = [];
 
   clients.forEach((client, index) => {
     const priority = Number(client.PriorityLevel);
-    if (isNaN(priority) || priority < 1 || priority > 5) {
+    if (isNaN(priority) || priority < priorityMin || priority > priorityMax) {
       errors.push({
         id: `invalid-priority-${client.ClientID}-${index}`,
         entity: 'clients',
         entityId: client.ClientID,
         rowIndex: index,
         field: 'PriorityLevel',
-        message: `PriorityLevel must be 1-5, got: ${client.PriorityLevel}`,
+        message: `PriorityLevel must be ${priorityMin}-${priorityMax}, got: ${client.PriorityLevel}`,
         severity: 'error',
-        suggestion: 'Set priority between 1 (lowest) and 5 (highest)',
-        autoFixValue: 3
+        suggestion: `Set priority between ${priorityMin} (lowest) and ${priorityMax} (highest)`,
+        autoFixValue: Math.round((priorityMin + priorityMax) / 2)
       });
     }
   });
 
   tasks.forEach((task, index) => {
-    if (task.Duration < 1) {
+    if (task.Duration < durationMin) {
       errors.push({
         id: `invalid-duration-${task.TaskID}-${index}`,
         entity: 'tasks',
         entityId: task.TaskID,
         rowIndex: index,
         field: 'Duration',
-        message: `Duration must be >= 1, got: ${task.Duration}`,
+        message: `Duration must be >= ${durationMin}, got: ${task.Duration}`,
         severity: 'error',
-        suggestion: 'Set minimum duration of 1 phase',
-        autoFixValue: 1
+        suggestion: `Set minimum duration of ${durationMin} phase(s)`,
+        autoFixValue: durationMin
       });
     }
 
-    if (task.MaxConcurrent < 1) {
+    if (task.MaxConcurrent < maxConcurrentMin) {
       errors.push({
         id: `invalid-concurrent-${task.TaskID}-${index}`,
         entity: 'tasks',
         entityId: task.TaskID,
         rowIndex: index,
         field: 'MaxConcurrent',
-        message: `MaxConcurrent must be >= 1, got: ${task.MaxConcurrent}`,
+        message: `MaxConcurrent must be >= ${maxConcurrentMin}, got: ${task.MaxConcurrent}`,
         severity: 'error',
-        suggestion: 'Set minimum concurrent assignments of 1',
-        autoFixValue: 1
+        suggestion: `Set minimum concurrent assignments of ${maxConcurrentMin}`,
+        autoFixValue: maxConcurrentMin
       });
     }
   });
@@ -354,25 +439,33 @@ function validateUnknownReferences(clients: Client[], tasks: Task[]): Validation
 }
 
 /**
- * Rule 7: Circular references (simplified)
+ * Rule 7: Co-run cycles and co-run groups squeezed into disjoint phase windows (rule graph)
  */
-function validateCircularCoRunGroups(tasks: Task[]): ValidationError[] {
+function validateCircularCoRunGroups(rules: Rule[], tasks: Task[]): ValidationError[] {
   const errors: ValidationError[] = [];
+  const { conflicts } = analyzeRuleGraph(rules);
 
-  tasks.forEach((task, index) => {
-    if (task.RequiredSkills && task.RequiredSkills.includes(task.TaskID)) {
+  conflicts
+    .filter(c => c.kind === 'coRunCycle' || c.kind === 'disjointPhaseWindows')
+    .forEach(conflict => {
+      const anchor = conflict.taskIds.find(id => tasks.some(t => t.TaskID === id)) ?? conflict.taskIds[0];
       errors.push({
-        id: `circular-ref-${task.TaskID}`,
+        id: conflict.kind === 'coRunCycle'
+          ? `circular-corun-${conflict.ruleIds.join('-')}`
+          : `phasewindow-conflict-${conflict.ruleIds.join('-')}`,
         entity: 'tasks',
-        entityId: task.TaskID,
-        rowIndex: index,
-        field: 'RequiredSkills',
-        message: `Task ${task.TaskID} references itself`,
-        severity: 'warning',
-        suggestion: 'Remove self-reference to prevent circular dependencies'
+        entityId: anchor ?? 'rules',
+        rowIndex: tasks.findIndex(t => t.TaskID === anchor),
+        field: conflict.kind === 'coRunCycle' ? 'TaskID' : 'PreferredPhases',
+        message: conflict.message,
+        severity: conflict.level,
+        suggestion: conflict.kind === 'coRunCycle'
+          ? `Merge or remove one of rules ${conflict.ruleIds.join(', ')}`
+          : `Edit one of rules ${conflict.ruleIds.join(', ')} so the windows overlap`,
+        ruleId: conflict.ruleIds[0],
+        relatedRuleIds: conflict.ruleIds
       });
-    }
-  });
+    });
 
   return errors;
 }
@@ -386,7 +479,7 @@ function validatePhaseWindowConflicts(workers: Worker[], tasks: Task[]): Validat
   tasks.forEach((task, index) => {
     if (task.PreferredPhases && task.RequiredSkills && task.MaxConcurrent > 1) {
       try {
-        const preferredPhases = JSON.parse(task.PreferredPhases);
+        const preferredPhases = parsePhases(String(task.PreferredPhases));
         const requiredSkills = task.RequiredSkills.split(',').map(s => s.trim());
 
         const qualifiedWorkers = workers.filter(worker => {
@@ -459,7 +552,11 @@ function validateOverloadedWorkers(workers: Worker[]): ValidationError[] {
 /**
  * Rule 10: Phase-slot saturation
  */
-function validatePhaseSlotSaturation(workers: Worker[], tasks: Task[]): ValidationError[] {
+function validatePhaseSlotSaturation(
+  workers: Worker[],
+  tasks: Task[],
+  { capacityFactor }: Record<string, number>
+): ValidationError[] {
   const errors: ValidationError[] = [];
 
   const phaseCapacity = new Map<number, number>();
@@ -481,7 +578,7 @@ function validatePhaseSlotSaturation(workers: Worker[], tasks: Task[]): Validati
   tasks.forEach(task => {
     if (task.PreferredPhases && task.Duration) {
       try {
-        const phases = JSON.parse(task.PreferredPhases);
+        const phases = parsePhases(String(task.PreferredPhases));
         if (Array.isArray(phases)) {
           phases.forEach(phase => {
             const current = phaseDemand.get(phase) || 0;
@@ -495,7 +592,7 @@ function validatePhaseSlotSaturation(workers: Worker[], tasks: Task[]): Validati
   });
 
   phaseDemand.forEach((demand, phase) => {
-    const capacity = phaseCapacity.get(phase) || 0;
+    const capacity = (phaseCapacity.get(phase) || 0) * capacityFactor;
     if (demand > capacity) {
       errors.push({
         id: `phase-saturation-${phase}`,
@@ -589,13 +686,268 @@ function validateMaxConcurrencyFeasibility(workers: Worker[], tasks: Task[]): Va
   return errors;
 }
 
+/**
+ * User-authored rules: each rule type is checked against the data it constrains.
+ * Errors carry `ruleId` so the panel can jump to the rule as well as the row.
+ */
+function validateRuleConstraints(
+  rules: Rule[],
+  clients: Client[],
+  workers: Worker[],
+  tasks: Task[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const taskIndex = new Map<string, number>();
+  tasks.forEach((task, index) => {
+    if (task.TaskID && !taskIndex.has(task.TaskID)) taskIndex.set(task.TaskID, index);
+  });
+
+  rules.forEach(rule => {
+    // coRun: tasks must share at least one PreferredPhase to run together
+    if (rule.type === 'coRun') {
+      const present = rule.tasks.filter(id => taskIndex.has(id));
+      if (present.length < 2) return; // missing TaskIDs are reported by the rules store
+      const phaseSets = present.map(id => parsePhaseList(tasks[taskIndex.get(id)!].PreferredPhases));
+      if (phaseSets.some(p => p.length === 0)) return; // no preference = any phase
+      const common = phaseSets[0].filter(p => phaseSets.every(set => set.includes(p)));
+      if (common.length === 0) {
+        const anchor = present[0];
+        errors.push({
+          id: `rule-corun-no-common-phase-${rule.id}`,
+          entity: 'tasks',
+          entityId: anchor,
+          rowIndex: taskIndex.get(anchor)!,
+          field: 'PreferredPhases',
+          message: `Co-run tasks ${present.join(', ')} share no PreferredPhases`,
+          severity: 'error',
+          suggestion: 'Align PreferredPhases of the co-run tasks or remove a task from the rule',
+          ruleId: rule.id
+        });
+      }
+    }
+
+    // phaseWindow: allowed phases must overlap the task's PreferredPhases
+    if (rule.type === 'phaseWindow' && taskIndex.has(rule.taskId)) {
+      const index = taskIndex.get(rule.taskId)!;
+      const preferred = parsePhaseList(tasks[index].PreferredPhases);
+      if (preferred.length > 0 && !preferred.some(p => rule.allowedPhases.includes(p))) {
+        errors.push({
+          id: `rule-phasewindow-excludes-${rule.id}`,
+          entity: 'tasks',
+          entityId: rule.taskId,
+          rowIndex: index,
+          field: 'PreferredPhases',
+          message: `Phase window [${rule.allowedPhases.join(',')}] excludes every preferred phase [${preferred.join(',')}]`,
+          severity: 'error',
+          suggestion: 'Widen the phase window or update PreferredPhases',
+          autoFixValue: JSON.stringify(rule.allowedPhases),
+          ruleId: rule.id
+        });
+      }
+    }
+
+    // loadLimit: group limit below a member's own MaxLoadPerPhase
+    if (rule.type === 'loadLimit') {
+      workers.forEach((worker, index) => {
+        if (!rule.groupIds.includes(String(worker.WorkerGroup ?? ''))) return;
+        if (Number(worker.MaxLoadPerPhase) > rule.maxSlotsPerPhase) {
+          errors.push({
+            id: `rule-loadlimit-${rule.id}-${worker.WorkerID}`,
+            entity: 'workers',
+            entityId: worker.WorkerID,
+            rowIndex: index,
+            field: 'MaxLoadPerPhase',
+            message: `Load limit ${rule.maxSlotsPerPhase} for ${worker.WorkerGroup} is below MaxLoadPerPhase (${worker.MaxLoadPerPhase})`,
+            severity: 'warning',
+            suggestion: 'Lower MaxLoadPerPhase to the group limit or raise the limit',
+            autoFixValue: rule.maxSlotsPerPhase,
+            ruleId: rule.id
+          });
+        }
+      });
+    }
+
+    // slotRestriction: groups need at least minCommonSlots shared slots/phases
+    if (rule.type === 'slotRestriction') {
+      type Member = { entity: 'workers' | 'clients'; entityId: string; rowIndex: number; field: string; slots: number[][] };
+      const members: Member[] = [];
+
+      if (rule.groupType === 'WorkerGroup') {
+        workers.forEach((worker, index) => {
+          if (!rule.groupIds.includes(String(worker.WorkerGroup ?? ''))) return;
+          members.push({
+            entity: 'workers', entityId: worker.WorkerID, rowIndex: index, field: 'AvailableSlots',
+            slots: [parsePhaseList(worker.AvailableSlots)]
+          });
+        });
+      } else {
+        clients.forEach((client, index) => {
+          const group = String((client as any).ClientGroup ?? client.GroupTag ?? '');
+          if (!rule.groupIds.includes(group)) return;
+          const requested = String(client.RequestedTaskIDs ?? '').split(',').map(id => id.trim()).filter(Boolean);
+          members.push({
+            entity: 'clients', entityId: client.ClientID, rowIndex: index, field: 'RequestedTaskIDs',
+            slots: requested.filter(id => taskIndex.has(id)).map(id => parsePhaseList(tasks[taskIndex.get(id)!].PreferredPhases))
+          });
+        });
+      }
+
+      const slotSets = members.flatMap(m => m.slots).filter(set => set.length > 0);
+      if (members.length === 0 || slotSets.length === 0) return;
+      const common = slotSets[0].filter(p => slotSets.every(set => set.includes(p)));
+      if (common.length < rule.minCommonSlots) {
+        const anchor = members[0];
+        errors.push({
+          id: `rule-slotrestriction-${rule.id}`,
+          entity: anchor.entity,
+          entityId: anchor.entityId,
+          rowIndex: anchor.rowIndex,
+          field: anchor.field,
+          message: `${rule.groupType} ${rule.groupIds.join(', ')} share ${common.length} slot(s), rule requires ${rule.minCommonSlots}`,
+          severity: 'error',
+          suggestion: 'Add shared slots to the group members or lower minCommonSlots',
+          ruleId: rule.id
+        });
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Date-typed columns: values must parse with the profile's formats and fall within min / max
+ * (absolute dates or relative instants such as "today" / "1 year ago"; durations for duration columns).
+ * AttributesJSON keys whose values are mostly dates are checked for parseability even when not configured.
+ */
+function validateDateRanges(
+  data: Record<'clients' | 'workers' | 'tasks', Record<string, any>[]>,
+  profile: DateProfile = {}
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const settings = resolveDateSettings(profile);
+  const now = Date.now();
+  const columns = [...(profile.columns ?? []), ...detectAttributeDates(data.clients, profile.columns ?? [], settings)];
+
+  columns.forEach(col => {
+    const isDuration = col.type === 'duration';
+    const parse = (v: unknown) => (isDuration ? parseDuration(v) : parseTemporal(v, settings)?.ms ?? null);
+    const bound = (v: string | undefined) => (!v ? null : isDuration ? parseDuration(v) : resolveInstant(v, settings, now));
+    const min = bound(col.min), max = bound(col.max);
+    const show = (ms: number) => (isDuration ? describeDuration(ms) : formatDate(ms, settings, col.type === 'datetime'));
+    const cell = col.field in (data[col.entity][0] ?? {}) ? col.field : col.field.split('.')[0];
+
+    data[col.entity].forEach((row, index) => {
+      const raw = readPath(row, col.field);
+      if (raw === undefined || raw === null || String(raw).trim() === '') return;
+      const base = {
+        entity: col.entity,
+        entityId: String(row[ID_FIELD[col.entity]] ?? ''),
+        rowIndex: index,
+        field: cell,
+        severity: 'warning' as const
+      };
+      const value = parse(raw);
+
+      if (value === null) {
+        const fixed = isDuration ? null : looseDate(raw, settings);
+        errors.push({
+          ...base,
+          id: `date-invalid-${col.entity}-${col.field}-${index}`,
+          message: `${col.field}: "${raw}" is not a valid ${col.type}`,
+          suggestion: isDuration
+            ? 'Use a duration like "2h 30m", "3 days" or "PT4H"'
+            : fixed ? `Did you mean ${fixed}?` : `Use one of: ${settings.formats.join(', ')}`,
+          ...(fixed ? { autoFixValue: cell === col.field ? fixed : replaceAttribute(row[cell], col.field, fixed) } : {})
+        });
+        return;
+      }
+
+      if (min !== null && value < min) {
+        errors.push({
+          ...base,
+          id: `date-min-${col.entity}-${col.field}-${index}`,
+          message: `${col.field} ${show(value)} is before the minimum ${col.min}${isDuration || col.min === show(min) ? '' : ` (${show(min)})`}`,
+          suggestion: 'Check the value or widen the range in the date settings'
+        });
+      } else if (max !== null && value > max) {
+        errors.push({
+          ...base,
+          id: `date-max-${col.entity}-${col.field}-${index}`,
+          message: `${col.field} ${show(value)} is after the maximum ${col.max}${isDuration || col.max === show(max) ? '' : ` (${show(max)})`}`,
+          suggestion: 'Check the value or widen the range in the date settings'
+        });
+      }
+    });
+  });
+
+  return errors;
+}
+
+// AttributesJSON keys where at least 80% of (2+) string values are dates
+function detectAttributeDates(clients: Record<string, any>[], configured: DateColumn[], settings: DateSettings): DateColumn[] {
+  const seen = new Map<string, { total: number; dates: number }>();
+  clients.forEach(client => {
+    let attrs: unknown;
+    try { attrs = JSON.parse(client.AttributesJSON || '{}'); } catch { return; }
+    if (!attrs || typeof attrs !== 'object' || Array.isArray(attrs)) return;
+    Object.entries(attrs as Record<string, unknown>).forEach(([key, v]) => {
+      if (typeof v !== 'string' || !v.trim()) return;
+      const s = seen.get(key) ?? { total: 0, dates: 0 };
+      s.total++;
+      if (parseTemporal(v, settings)) s.dates++;
+      seen.set(key, s);
+    });
+  });
+  return [...seen.entries()]
+    .filter(([key, s]) => s.total >= 2 && s.dates / s.total >= 0.8)
+    .map(([key]) => `AttributesJSON.${key}`)
+    .filter(field => !configured.some(c => c.entity === 'clients' && c.field === field))
+    .map(field => ({ entity: 'clients', field, type: 'date' }));
+}
+
+// Lenient fallback ("Jan 5 2024", "2024-1-5") rendered in the canonical format, for auto-fixes
+function looseDate(raw: unknown, settings: DateSettings): string | null {
+  if (typeof raw !== 'string' || !/[a-z]{3}|\d{4}/i.test(raw)) return null;
+  const ms = Date.parse(raw);
+  return Number.isFinite(ms) ? formatDate(ms, { ...settings, timezone: 'local' }) : null;   // Date.parse reads these as local time
+}
+
+function replaceAttribute(json: unknown, path: string, value: string): string | undefined {
+  try {
+    const obj = JSON.parse(String(json));
+    const keys = path.split('.').slice(1);
+    if (keys.length !== 1 || !obj || typeof obj !== 'object') return undefined;
+    return JSON.stringify({ ...obj, [keys[0]]: value });
+  } catch {
+    return undefined;
+  }
+}
+
+function describeDuration(ms: number): string {
+  const parts: string[] = [];
+  const units: [string, number][] = [['d', 86_400_000], ['h', 3_600_000], ['m', 60_000], ['s', 1000]];
+  let rest = ms;
+  units.forEach(([u, size]) => {
+    const n = Math.floor(rest / size);
+    if (n) { parts.push(`${n}${u}`); rest -= n * size; }
+  });
+  return parts.join(' ') || '0s';
+}
+
+function parsePhaseList(value: unknown): number[] {
+  // Same reading as the allocator (ranges, comma lists, JSON arrays)
+  if (value === undefined || value === null || value === '') return [];
+  return parsePhases(Array.isArray(value) ? JSON.stringify(value) : String(value));
+}
+
 /**
  * Get validation statistics
  */
 export function getValidationStats(errors: ValidationError[]) {
   const ruleStats = new Map<string, number>();
   errors.forEach(error => {
-    const rule = error.id.split('-')[0];
+    const rule = error.code ?? error.id.split('-')[0];
     ruleStats.set(rule, (ruleStats.get(rule) || 0) + 1);
   });
 
@@ -609,9 +961,6 @@ export function getValidationStats(errors: ValidationError[]) {
       tasks: errors.filter(e => e.entity === 'tasks').length,
     },
     byRule: Object.fromEntries(ruleStats),
-    criticalIssues: errors.filter(e => 
-      e.severity === 'error' && 
-      ['duplicate', 'missing', 'malformed'].some(type => e.id.includes(type))
-    ).length
+    criticalIssues: errors.filter(isCriticalError).length
   };
 }
@@ -0,0 +1,68 @@
+// src/utils/views.ts
+// Named saved views: a Query (filter + orderBy + select as visible columns, …) for one entity.
+// - Views are shared as a `?view=` link holding the base64url-encoded JSON of { name, entity, query }.
+// - Decoded links are checked against the Query schema, so a hand-edited link can't inject anything else.
+
+import { z } from 'zod';
+import type { EntityKey } from '../store/useDataStore';
+import { Query } from './dsl';
+
+export const VIEW_PARAM = 'view';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  entity: EntityKey;
+  query: Query;
+  pinned: boolean;
+  createdAt: number;
+}
+
+const SharedView = z.object({
+  name: z.string().min(1).max(120),
+  entity: z.enum(['clients', 'workers', 'tasks']),
+  query: Query,
+});
+export type SharedView = z.infer<typeof SharedView>;
+
+export const makeViewId = () => `v_${Math.random().toString(36).slice(2, 8)}_${Date.now().toString(36)}`;
+
+/** Same entity and query (ignores name / pin state). */
+export const sameView = (a: Pick<SavedView, 'entity' | 'query'>, b: Pick<SavedView, 'entity' | 'query'>) =>
+  a.entity === b.entity && JSON.stringify(a.query) === JSON.stringify(b.query);
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let bin = '';
+  bytes.forEach((b) => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(param: string): string {
+  const b64 = param.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+export function encodeView(view: Pick<SavedView, 'name' | 'entity' | 'query'>): string {
+  return toBase64Url(JSON.stringify({ name: view.name, entity: view.entity, query: view.query }));
+}
+
+/** null when the parameter is not a valid encoded view. */
+export function decodeView(param: string): SharedView | null {
+  try {
+    const parsed = SharedView.safeParse(JSON.parse(fromBase64Url(param)));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Absolute link to the current page that opens `view`. */
+export function viewLink(view: Pick<SavedView, 'name' | 'entity' | 'query'>): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(VIEW_PARAM, encodeView(view));
+  return url.toString();
+}
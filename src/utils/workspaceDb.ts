@@ -0,0 +1,161 @@
+// src/utils/workspaceDb.ts
+// Minimal promise wrapper around IndexedDB for saved workspaces.
+// Everything stays in this browser; records carry an `expiresAt` and are purged on startup.
+// Column mappings (header names only, no row data) are kept until "Clear all saved data".
+
+import type { Client, Worker, Task, EntityKey } from '../store/useDataStore';
+import type { Rule } from '../rules/schema';
+import type { ValidationProfile } from './validatorRegistry';
+import type { ObjectiveKey, ObjectiveWeights } from './scoring';
+import type { ColumnMapping } from './mapping';
+import type { SavedView } from './views';
+import type { ExportSchema } from './exportSchema';
+
+const DB_NAME = 'spreadsheet-alchemist';
+const DB_VERSION = 2;
+const WORKSPACES = 'workspaces';
+const META = 'meta';
+const MAPPINGS = 'mappings';
+const PREFS_KEY = 'prefs';
+
+export interface WorkspaceSnapshot {
+  clients: Client[];
+  workers: Worker[];
+  tasks: Task[];
+  filtered: Partial<Record<EntityKey, number[]>>;   // filtered views as base row indices
+  rules: Rule[];
+  views?: SavedView[];   // missing in workspaces saved before named views existed
+  columns?: ExportSchema;   // uploaded column order / names; missing in older workspaces
+  validationProfile: ValidationProfile;
+  priorities: {
+    weights: ObjectiveWeights;
+    mode: 'sliders' | 'pairwise' | 'rank';
+    preset: string;
+    pairwise: Record<string, number>;
+    ranking: ObjectiveKey[];
+  };
+}
+
+export interface WorkspaceRecord extends WorkspaceSnapshot {
+  name: string;
+  savedAt: number;
+  expiresAt: number;
+}
+
+export interface WorkspaceSummary {
+  name: string;
+  savedAt: number;
+  expiresAt: number;
+  rows: number;
+  rules: number;
+}
+
+export interface WorkspacePrefs {
+  autosave: boolean;
+  retentionHours: number;
+  lastWorkspace: string | null;
+}
+
+export interface SavedColumnMapping {
+  signature: string;   // utils/mapping.headerSignature
+  mapping: ColumnMapping;
+  savedAt: number;
+}
+
+export const DEFAULT_PREFS: WorkspacePrefs = { autosave: true, retentionHours: 24, lastWorkspace: null };
+
+export const isPersistenceAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(WORKSPACES)) db.createObjectStore(WORKSPACES, { keyPath: 'name' });
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+        if (!db.objectStoreNames.contains(MAPPINGS)) db.createObjectStore(MAPPINGS, { keyPath: 'signature' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const summarize = (r: WorkspaceRecord): WorkspaceSummary => ({
+  name: r.name,
+  savedAt: r.savedAt,
+  expiresAt: r.expiresAt,
+  rows: r.clients.length + r.workers.length + r.tasks.length,
+  rules: r.rules.length,
+});
+
+export async function saveWorkspace(record: WorkspaceRecord): Promise<void> {
+  await run(WORKSPACES, 'readwrite', (s) => s.put(record));
+}
+
+export async function loadWorkspace(name: string): Promise<WorkspaceRecord | null> {
+  const rec = (await run(WORKSPACES, 'readonly', (s) => s.get(name))) as WorkspaceRecord | undefined;
+  if (!rec || rec.expiresAt <= Date.now()) return null;
+  return rec;
+}
+
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const all = (await run(WORKSPACES, 'readonly', (s) => s.getAll())) as WorkspaceRecord[];
+  return all.map(summarize).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function deleteWorkspace(name: string): Promise<void> {
+  await run(WORKSPACES, 'readwrite', (s) => s.delete(name));
+}
+
+export async function clearWorkspaces(): Promise<void> {
+  await run(WORKSPACES, 'readwrite', (s) => s.clear());
+}
+
+/** Delete expired workspaces; returns how many were removed. */
+export async function purgeExpired(now = Date.now()): Promise<number> {
+  const expired = (await listWorkspaces()).filter((w) => w.expiresAt <= now);
+  for (const w of expired) await deleteWorkspace(w.name);
+  return expired.length;
+}
+
+export async function getPrefs(): Promise<WorkspacePrefs> {
+  const stored = (await run(META, 'readonly', (s) => s.get(PREFS_KEY))) as Partial<WorkspacePrefs> | undefined;
+  return { ...DEFAULT_PREFS, ...(stored ?? {}) };
+}
+
+export async function setPrefs(prefs: WorkspacePrefs): Promise<void> {
+  await run(META, 'readwrite', (s) => s.put(prefs, PREFS_KEY));
+}
+
+export async function getColumnMapping(signature: string): Promise<ColumnMapping | null> {
+  const rec = (await run(MAPPINGS, 'readonly', (s) => s.get(signature))) as SavedColumnMapping | undefined;
+  return rec?.mapping ?? null;
+}
+
+export async function saveColumnMapping(signature: string, mapping: ColumnMapping): Promise<void> {
+  const rec: SavedColumnMapping = { signature, mapping, savedAt: Date.now() };
+  await run(MAPPINGS, 'readwrite', (s) => s.put(rec));
+}
+
+export async function clearColumnMappings(): Promise<void> {
+  await run(MAPPINGS, 'readwrite', (s) => s.clear());
+}
@@ -0,0 +1,52 @@
+/// <reference lib="webworker" />
+// Domain validation (validators.ts) off the main thread.
+// Validators run one at a time; between them the worker yields so a newer `validate`
+// or a `cancel` can land, and a superseded job stops instead of finishing stale work.
+
+import { runValidator, ValidatorContext } from '../utils/validators';
+import { VALIDATORS, resolveSettings } from '../utils/validatorRegistry';
+import type { ValidationError } from '../store/useValidationStore';
+import type { ValidationRequest, ValidationResponse } from './validationProtocol';
+
+let latestJob = 0;
+const cancelled = new Set<number>();
+
+const post = (msg: ValidationResponse) => postMessage(msg);
+const yieldToQueue = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+const isStale = (jobId: number) => jobId !== latestJob || cancelled.has(jobId);
+
+async function run(req: Extract<ValidationRequest, { type: 'validate' }>) {
+  const { jobId, clients, workers, tasks, rules, profile, codes } = req;
+  const started = Date.now();
+  const ctx: ValidatorContext = { clients, workers, tasks, rules };
+  const active = VALIDATORS.filter(
+    (v) => resolveSettings(profile, v.code).enabled && (!codes || codes.includes(v.code))
+  );
+  const errors: ValidationError[] = [];
+
+  for (let i = 0; i < active.length; i++) {
+    post({ type: 'progress', jobId, code: active[i].code, done: i, total: active.length });
+    await yieldToQueue();
+    if (isStale(jobId)) {
+      cancelled.delete(jobId);
+      return post({ type: 'cancelled', jobId });
+    }
+    errors.push(...runValidator(active[i].code, ctx, profile));
+  }
+
+  post({ type: 'result', jobId, errors, codes, durationMs: Date.now() - started });
+}
+
+self.onmessage = (e: MessageEvent<ValidationRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    cancelled.add(msg.jobId);
+    return;
+  }
+  latestJob = Math.max(latestJob, msg.jobId);
+  run(msg).catch((err) =>
+    post({ type: 'failed', jobId: msg.jobId, message: err instanceof Error ? err.message : String(err) })
+  );
+};
+
+export default null as any;
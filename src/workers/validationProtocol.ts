@@ -0,0 +1,33 @@
+// src/workers/validationProtocol.ts
+// Message protocol between the main thread and domainValidate.worker.ts.
+// Kept apart from the worker so importing the types never starts a worker scope.
+
+import type { Client, Worker, Task } from '../store/useDataStore';
+import type { ValidationError } from '../store/useValidationStore';
+import type { Rule } from '../rules/schema';
+import type { ValidatorCode, ValidationProfile } from '../utils/validatorRegistry';
+
+export type ValidationRequest =
+  | {
+      type: 'validate';
+      jobId: number;          // increasing; a newer job supersedes every older one
+      clients: Client[];
+      workers: Worker[];
+      tasks: Task[];
+      rules: Rule[];
+      profile: ValidationProfile;
+      codes?: ValidatorCode[]; // incremental run: only these validators (default: all)
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type ValidationResponse =
+  | { type: 'progress'; jobId: number; code: ValidatorCode; done: number; total: number }
+  | { type: 'result'; jobId: number; errors: ValidationError[]; codes?: ValidatorCode[]; durationMs: number }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'failed'; jobId: number; message: string };
+
+export interface ValidationProgress {
+  code: ValidatorCode | null;   // validator currently running (null before the first one starts)
+  done: number;
+  total: number;
+}